@@ -7,10 +7,14 @@ import { useAuth } from "@/hooks/useAuth";
 import { useOnboarding } from "@/hooks/useOnboarding";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
+import LoginPage from "@/pages/login";
 import Home from "@/pages/home";
 import LifeCompassPage from "@/pages/life-compass";
 import VisionBoardPage from "@/pages/vision-board";
 import QuarterlyQuestsPage from "@/pages/quarterly-quests";
+import AnalyticsPage from "@/pages/analytics";
+import AnnualReviewPage from "@/pages/annual-review";
+import SettingsPage from "@/pages/settings";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -20,6 +24,7 @@ function Router() {
     return (
       <Switch>
         <Route path="/" component={Landing} />
+        <Route path="/login" component={LoginPage} />
         <Route component={NotFound} />
       </Switch>
     );
@@ -30,6 +35,9 @@ function Router() {
       <Route path="/life-compass" component={LifeCompassPage} />
       <Route path="/vision-board" component={VisionBoardPage} />
       <Route path="/quarterly-quests" component={QuarterlyQuestsPage} />
+      <Route path="/analytics" component={AnalyticsPage} />
+      <Route path="/annual-review" component={AnnualReviewPage} />
+      <Route path="/settings" component={SettingsPage} />
       <Route path="/weekly-planning" component={Home} />
       <Route path="/daily-tasks" component={Home} />
       <Route path="/" component={isOnboardingComplete ? Home : LifeCompassPage} />
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,7 +8,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
-import { CheckCircle, Plus, Play } from "lucide-react";
+import { CheckCircle, Plus, Play, Target, Repeat } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -16,16 +16,24 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { showSuccessNotification, showErrorNotification, showDeleteSuccessNotification, showDeleteErrorNotification } from "@/lib/notifications";
-import type { DailyTask } from "@shared/schema";
-import { format } from "date-fns";
+import type { DailyTask, WeeklyPlan, WeeklyPriority, QuarterlyQuest } from "@shared/schema";
+import { format, parseISO, startOfWeek } from "date-fns";
+import TaskRolloverPrompt from "./TaskRolloverPrompt";
+import { useSettings } from "@/hooks/useSettings";
 
 const taskFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
   impact: z.enum(["high", "medium", "low"]),
   date: z.string(),
+  priorityRef: z.string(), // "none" or "<weeklyPlanId>:<priorityIndex>"
+  repeat: z.enum(["none", "daily", "weekdays", "weekly", "monthly"]),
+  repeatDays: z.array(z.number()),
+  repeatUntil: z.string().optional(),
 });
 
+const weekdayLabels = ["S", "M", "T", "W", "T", "F", "S"];
+
 type TaskFormData = z.infer<typeof taskFormSchema>;
 
 interface DailyTaskManagerProps {
@@ -34,7 +42,14 @@ interface DailyTaskManagerProps {
 
 export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerProps) {
   const [isCreating, setIsCreating] = useState(false);
-  const [selectedDate, setSelectedDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const { settings, weekStartsOn, today } = useSettings();
+  const defaultImpact = settings.defaultImpact as TaskFormData["impact"];
+  const [selectedDate, setSelectedDate] = useState(today);
+
+  // Follow "today" when it moves, e.g. once the user's time zone loads or after midnight
+  useEffect(() => {
+    setSelectedDate(today);
+  }, [today]);
   const { toast } = useToast();
 
   const { data: user } = useQuery<{id: string}>({
@@ -42,33 +57,105 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
     retry: false,
   });
 
+  // Fetching a date also materializes that day's recurring task occurrences
   const { data: tasks, isLoading } = useQuery<DailyTask[]>({
-    queryKey: ["/api/daily-tasks", { date: selectedDate }],
+    queryKey: ["/api/daily-tasks", selectedDate],
+    queryFn: () => fetch(`/api/daily-tasks?date=${selectedDate}`).then(res => res.json()),
+    retry: false,
+  });
+
+  const weekStartString = format(startOfWeek(parseISO(selectedDate), { weekStartsOn }), "yyyy-MM-dd");
+
+  const { data: weeklyPlans } = useQuery<WeeklyPlan[]>({
+    queryKey: ["/api/weekly-plans", weekStartString],
+    queryFn: () => fetch(`/api/weekly-plans?weekStart=${weekStartString}`).then(res => res.json()),
+    retry: false,
+  });
+
+  const { data: quests } = useQuery<QuarterlyQuest[]>({
+    queryKey: ["/api/quarterly-quests"],
     retry: false,
   });
 
+  const weeklyPlan = weeklyPlans?.[0];
+  const weeklyPriorities = (Array.isArray(weeklyPlan?.priorities) ? weeklyPlan.priorities : []) as WeeklyPriority[];
+
+  // Shows the quest and weekly priority a task is moving forward, if any
+  const renderTaskLink = (task: DailyTask) => {
+    if (!weeklyPlan || task.weeklyPlanId !== weeklyPlan.id) return null;
+    const priority = task.priorityIndex !== null ? weeklyPriorities[task.priorityIndex] : undefined;
+    const quest = quests?.find(q => q.id === weeklyPlan.quarterlyQuestId);
+    if (!priority?.title && !quest) return null;
+    return (
+      <div className="flex items-center space-x-1 mt-1 text-xs text-orange-700">
+        <Target className="w-3 h-3" />
+        <span>{[quest?.title, priority?.title].filter(Boolean).join(" · ")}</span>
+      </div>
+    );
+  };
+
+  const invalidateRollups = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/weekly-plans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
+  };
+
   const form = useForm<TaskFormData>({
     resolver: zodResolver(taskFormSchema),
     defaultValues: {
       title: "",
       description: "",
-      impact: "medium",
+      impact: defaultImpact,
       date: selectedDate,
+      priorityRef: "none",
+      repeat: "none",
+      repeatDays: [],
+      repeatUntil: "",
     },
   });
 
+  // Apply the preferred impact once settings load, unless the user already picked one
+  useEffect(() => {
+    if (!form.formState.dirtyFields.impact) {
+      form.setValue("impact", defaultImpact);
+    }
+  }, [defaultImpact]);
+
+  const repeat = form.watch("repeat");
+
   const createMutation = useMutation({
-    mutationFn: async (data: TaskFormData) => {
-      await apiRequest("POST", "/api/daily-tasks", data);
+    mutationFn: async ({ priorityRef, repeat, repeatDays, repeatUntil, ...data }: TaskFormData) => {
+      if (repeat !== "none") {
+        await apiRequest("POST", "/api/recurring-tasks", {
+          title: data.title,
+          description: data.description,
+          impact: data.impact,
+          frequency: repeat,
+          daysOfWeek: repeat === "weekly" && repeatDays.length ? repeatDays : null,
+          startDate: selectedDate,
+          endDate: repeatUntil || null,
+        });
+        return;
+      }
+      const [weeklyPlanId, priorityIndex] = priorityRef === "none" ? [] : priorityRef.split(":");
+      await apiRequest("POST", "/api/daily-tasks", {
+        ...data,
+        weeklyPlanId: weeklyPlanId ?? null,
+        priorityIndex: priorityIndex !== undefined ? parseInt(priorityIndex) : null,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks"] });
+      invalidateRollups();
       setIsCreating(false);
       form.reset({
         title: "",
         description: "",
-        impact: "medium",
+        impact: defaultImpact,
         date: selectedDate,
+        priorityRef: "none",
+        repeat: "none",
+        repeatDays: [],
+        repeatUntil: "",
       });
       showSuccessNotification('todays_focus');
     },
@@ -97,6 +184,7 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks"] });
+      invalidateRollups();
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -119,6 +207,7 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks"] });
+      invalidateRollups();
       showDeleteSuccessNotification("task");
     },
     onError: async (error) => {
@@ -137,6 +226,21 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
     },
   });
 
+  const endSeriesMutation = useMutation({
+    mutationFn: async (recurringTaskId: string) => {
+      await apiRequest("PATCH", `/api/recurring-tasks/${recurringTaskId}`, { endDate: selectedDate });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Series ended",
+        description: "This task will no longer repeat after the selected day.",
+      });
+    },
+    onError: async (error) => {
+      await showErrorNotification('todays_focus', error, user?.id);
+    },
+  });
+
   const onSubmit = (data: TaskFormData) => {
     createMutation.mutate(data);
   };
@@ -278,6 +382,104 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
                       )}
                     />
                     
+                    <FormField
+                      control={form.control}
+                      name="repeat"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeat</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Does this repeat?" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Does not repeat</SelectItem>
+                              <SelectItem value="daily">Every day</SelectItem>
+                              <SelectItem value="weekdays">Every weekday</SelectItem>
+                              <SelectItem value="weekly">Weekly</SelectItem>
+                              <SelectItem value="monthly">Monthly</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+
+                    {repeat === "weekly" && (
+                      <FormField
+                        control={form.control}
+                        name="repeatDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>On</FormLabel>
+                            <div className="flex space-x-1">
+                              {weekdayLabels.map((label, day) => (
+                                <Button
+                                  key={day}
+                                  type="button"
+                                  size="sm"
+                                  variant={field.value.includes(day) ? "default" : "outline"}
+                                  className="w-8 h-8 p-0"
+                                  onClick={() => field.onChange(
+                                    field.value.includes(day)
+                                      ? field.value.filter((d: number) => d !== day)
+                                      : [...field.value, day]
+                                  )}
+                                >
+                                  {label}
+                                </Button>
+                              ))}
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {repeat !== "none" && (
+                      <FormField
+                        control={form.control}
+                        name="repeatUntil"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Until (Optional)</FormLabel>
+                            <FormControl>
+                              <Input type="date" min={selectedDate} {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {repeat === "none" && weeklyPlan && weeklyPriorities.some(priority => priority?.title) && (
+                      <FormField
+                        control={form.control}
+                        name="priorityRef"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Weekly Priority</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select weekly priority" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">Not tied to a priority</SelectItem>
+                                {weeklyPriorities.map((priority, index) => (
+                                  priority?.title && (
+                                    <SelectItem key={index} value={`${weeklyPlan.id}:${index}`}>
+                                      {priority.title}
+                                    </SelectItem>
+                                  )
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    
                     <div className="flex justify-end space-x-2">
                       <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
                         Cancel
@@ -299,6 +501,7 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
         </div>
       </CardHeader>
       <CardContent>
+        {selectedDate === today && <TaskRolloverPrompt date={today} userId={user?.id} />}
         <div className="space-y-3">
           {tasks?.length ? (
             tasks.map((task) => (
@@ -323,10 +526,17 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
                     <span className="text-xs text-secondary">
                       {task.pomodoroCount} Pomodoro{task.pomodoroCount !== 1 ? 's' : ''} completed
                     </span>
+                    {task.recurringTaskId && (
+                      <Repeat className="w-3 h-3 text-muted-foreground" aria-label="Recurring task" />
+                    )}
+                    {task.deferCount > 0 && (
+                      <span className="text-xs text-orange-700">Deferred {task.deferCount}×</span>
+                    )}
                   </div>
                   {task.description && (
                     <p className="text-sm text-muted-foreground mt-1">{task.description}</p>
                   )}
+                  {renderTaskLink(task)}
                 </div>
                 <div className="flex items-center space-x-2">
                   <Button
@@ -337,9 +547,20 @@ export default function DailyTaskManager({ onStartPomodoro }: DailyTaskManagerPr
                   >
                     <Play className="w-4 h-4" />
                   </Button>
+                  {task.recurringTaskId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Stop repeating after this day"
+                      onClick={() => endSeriesMutation.mutate(task.recurringTaskId!)}
+                    >
+                      <Repeat className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
+                    title={task.recurringTaskId ? "Skip this occurrence" : "Delete task"}
                     onClick={() => deleteMutation.mutate(task.id)}
                     className="text-red-600 hover:text-red-700"
                   >
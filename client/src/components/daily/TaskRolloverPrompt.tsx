@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowRight, CalendarClock, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showErrorNotification } from "@/lib/notifications";
+import type { DailyTask, TaskRollover } from "@shared/schema";
+import { addDays, format, parseISO } from "date-fns";
+
+type RolloverAction = TaskRollover["actions"][number];
+
+interface TaskRolloverPromptProps {
+  date: string;
+  userId?: string;
+}
+
+const dismissKey = (date: string) => `inmotion:rollover-dismissed:${date}`;
+
+// Morning prompt that lets the user decide what happens to yesterday's unfinished tasks
+export default function TaskRolloverPrompt({ date, userId }: TaskRolloverPromptProps) {
+  const [isDismissed, setIsDismissed] = useState(() => localStorage.getItem(dismissKey(date)) === "true");
+  const [rescheduleDates, setRescheduleDates] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const { data: leftovers } = useQuery<DailyTask[]>({
+    queryKey: ["/api/daily-tasks/rollover", date],
+    queryFn: () => fetch(`/api/daily-tasks/rollover?date=${date}`).then(res => res.json()),
+    retry: false,
+    enabled: !isDismissed,
+  });
+
+  const rolloverMutation = useMutation({
+    mutationFn: async (actions: RolloverAction[]) => {
+      await apiRequest("POST", "/api/daily-tasks/rollover", { date, actions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks/rollover"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/weekly-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
+    },
+    onError: async (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      await showErrorNotification('todays_focus', error, userId);
+    },
+  });
+
+  const dismiss = () => {
+    localStorage.setItem(dismissKey(date), "true");
+    setIsDismissed(true);
+  };
+
+  if (isDismissed || !Array.isArray(leftovers) || !leftovers.length) {
+    return null;
+  }
+
+  const tomorrow = format(addDays(parseISO(date), 1), "yyyy-MM-dd");
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-orange-200 bg-orange-50">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-foreground">
+          {leftovers.length} unfinished task{leftovers.length !== 1 ? 's' : ''} from yesterday
+        </p>
+        <div className="flex items-center space-x-1">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={rolloverMutation.isPending}
+            onClick={() => rolloverMutation.mutate(leftovers.map(task => ({ taskId: task.id, action: "move" })))}
+          >
+            Move all to today
+          </Button>
+          <Button size="sm" variant="ghost" title="Decide later" onClick={dismiss}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {leftovers.map((task) => (
+          <div key={task.id} className="flex items-center space-x-2 text-sm">
+            <span className="flex-1 truncate">
+              {task.title}
+              {task.deferCount > 0 && (
+                <span className="ml-2 text-xs text-orange-700">Deferred {task.deferCount}×</span>
+              )}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Move to today"
+              disabled={rolloverMutation.isPending}
+              onClick={() => rolloverMutation.mutate([{ taskId: task.id, action: "move" }])}
+            >
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+            <Input
+              type="date"
+              min={tomorrow}
+              value={rescheduleDates[task.id] ?? ""}
+              onChange={(e) => setRescheduleDates({ ...rescheduleDates, [task.id]: e.target.value })}
+              className="w-36 h-8"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Reschedule"
+              disabled={rolloverMutation.isPending || !rescheduleDates[task.id]}
+              onClick={() => rolloverMutation.mutate([{ taskId: task.id, action: "reschedule", date: rescheduleDates[task.id] }])}
+            >
+              <CalendarClock className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Drop task"
+              disabled={rolloverMutation.isPending}
+              onClick={() => rolloverMutation.mutate([{ taskId: task.id, action: "drop" }])}
+              className="text-red-600 hover:text-red-700"
+            >
+              ✕
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
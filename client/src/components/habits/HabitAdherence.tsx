@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { Repeat } from "lucide-react";
+
+interface HabitAdherenceProps {
+  questId: string;
+  className?: string;
+}
+
+// Share of expected habit check-ins completed so far this quarter, shown next to quest progress
+export default function HabitAdherence({ questId, className }: HabitAdherenceProps) {
+  const { data } = useQuery<{ adherence: number | null }>({
+    queryKey: ["/api/quarterly-quests", questId, "habit-adherence"],
+    retry: false,
+  });
+
+  if (data?.adherence === null || data?.adherence === undefined) {
+    return null;
+  }
+
+  return (
+    <span className={`inline-flex items-center text-xs text-purple-700 ${className ?? ""}`} title="System adherence">
+      <Repeat className="w-3 h-3 mr-1" />
+      {data.adherence}% Systems
+    </span>
+  );
+}
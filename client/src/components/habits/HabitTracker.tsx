@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
+import { Repeat, Plus, Flame, Check } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showSuccessNotification, showErrorNotification, showDeleteSuccessNotification, showDeleteErrorNotification } from "@/lib/notifications";
+import type { HabitWithCheckIns, QuarterlyQuest } from "@shared/schema";
+import { isActiveQuest } from "@shared/quests";
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { useSettings } from "@/hooks/useSettings";
+
+const habitFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  targetPerWeek: z.string(),
+  quarterlyQuestId: z.string(), // "none" or a quest id
+});
+
+type HabitFormData = z.infer<typeof habitFormSchema>;
+
+// Days shown in the check-in grid, ending today
+const GRID_DAYS = 7;
+
+export default function HabitTracker() {
+  const [isCreating, setIsCreating] = useState(false);
+  const { weekStartsOn, today } = useSettings();
+  const { toast } = useToast();
+
+  const { data: user } = useQuery<{id: string}>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  const gridDays = Array.from({ length: GRID_DAYS }, (_, i) =>
+    format(addDays(parseISO(today), i - GRID_DAYS + 1), "yyyy-MM-dd")
+  );
+  const weekStart = format(startOfWeek(parseISO(today), { weekStartsOn }), "yyyy-MM-dd");
+
+  const { data: habits, isLoading } = useQuery<HabitWithCheckIns[]>({
+    queryKey: ["/api/habits", today],
+    queryFn: () => fetch(`/api/habits?date=${today}`).then(res => res.json()),
+    retry: false,
+  });
+
+  const { data: quests } = useQuery<QuarterlyQuest[]>({
+    queryKey: ["/api/quarterly-quests"],
+    retry: false,
+  });
+
+  const activeQuests = quests?.filter(isActiveQuest) ?? [];
+
+  const form = useForm<HabitFormData>({
+    resolver: zodResolver(habitFormSchema),
+    defaultValues: {
+      title: "",
+      targetPerWeek: "7",
+      quarterlyQuestId: "none",
+    },
+  });
+
+  const handleError = async (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    await showErrorNotification('habits', error, user?.id);
+  };
+
+  const invalidateHabits = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/habits"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: HabitFormData) => {
+      await apiRequest("POST", "/api/habits", {
+        title: data.title,
+        targetPerWeek: parseInt(data.targetPerWeek),
+        quarterlyQuestId: data.quarterlyQuestId === "none" ? null : data.quarterlyQuestId,
+      });
+    },
+    onSuccess: () => {
+      invalidateHabits();
+      setIsCreating(false);
+      form.reset();
+      showSuccessNotification('habits');
+    },
+    onError: handleError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async ({ habitId, date, checked }: { habitId: string; date: string; checked: boolean }) => {
+      if (checked) {
+        await apiRequest("POST", `/api/habits/${habitId}/check-ins`, { date });
+      } else {
+        await apiRequest("DELETE", `/api/habits/${habitId}/check-ins/${date}`);
+      }
+    },
+    onSuccess: invalidateHabits,
+    onError: handleError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/habits/${id}`);
+    },
+    onSuccess: () => {
+      invalidateHabits();
+      showDeleteSuccessNotification("habit");
+    },
+    onError: async (error) => {
+      if (isUnauthorizedError(error)) {
+        await handleError(error);
+        return;
+      }
+      await showDeleteErrorNotification("habit", error, user?.id);
+    },
+  });
+
+  const onSubmit = (data: HabitFormData) => {
+    createMutation.mutate(data);
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Repeat className="text-primary mr-2 w-5 h-5" />
+            Habits
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            <div className="h-10 bg-muted rounded"></div>
+            <div className="h-10 bg-muted rounded"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Repeat className="text-primary mr-2 w-5 h-5" />
+            Habits
+          </CardTitle>
+          <Dialog open={isCreating} onOpenChange={setIsCreating}>
+            <DialogTrigger asChild>
+              <Button
+                size="sm"
+                style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+                className="hover:opacity-90"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Habit
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Habit</DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Habit</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Write for 30 minutes" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="targetPerWeek"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Times per week</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="How often?" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {[1, 2, 3, 4, 5, 6, 7].map((times) => (
+                              <SelectItem key={times} value={String(times)}>
+                                {times === 7 ? "Every day" : `${times}× per week`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="quarterlyQuestId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supports Quest</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a quest" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Not tied to a quest</SelectItem>
+                            {activeQuests.map((quest) => (
+                              <SelectItem key={quest.id} value={quest.id}>
+                                {quest.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={createMutation.isPending}
+                      style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+                      className="hover:opacity-90"
+                    >
+                      {createMutation.isPending ? "Creating..." : "Create Habit"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {habits?.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left font-normal pb-2">Habit</th>
+                  {gridDays.map((day) => (
+                    <th key={day} className="font-normal pb-2 w-9">
+                      {format(parseISO(day), "EEEEE")}
+                    </th>
+                  ))}
+                  <th className="font-normal pb-2 text-right">Week</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {habits.map((habit) => {
+                  const quest = quests?.find(q => q.id === habit.quarterlyQuestId);
+                  const thisWeek = habit.checkIns.filter(date => date >= weekStart).length;
+                  return (
+                    <tr key={habit.id} className="border-t">
+                      <td className="py-2 pr-2">
+                        <p className="font-medium text-foreground">{habit.title}</p>
+                        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                          {habit.streak > 0 && (
+                            <span className="flex items-center text-orange-600">
+                              <Flame className="w-3 h-3 mr-0.5" />
+                              {habit.streak} wk
+                            </span>
+                          )}
+                          {quest && <span className="truncate">{quest.title}</span>}
+                        </div>
+                      </td>
+                      {gridDays.map((day) => {
+                        const checked = habit.checkIns.includes(day);
+                        return (
+                          <td key={day} className="text-center py-2">
+                            <button
+                              type="button"
+                              aria-label={`${checked ? "Undo" : "Check in"} ${habit.title} on ${day}`}
+                              disabled={checkInMutation.isPending}
+                              onClick={() => checkInMutation.mutate({ habitId: habit.id, date: day, checked: !checked })}
+                              className={`w-7 h-7 rounded-md border flex items-center justify-center mx-auto transition-colors ${
+                                checked ? "bg-secondary border-secondary text-white" : "border-gray-300 hover:bg-muted"
+                              } ${day === today ? "ring-1 ring-offset-1 ring-primary" : ""}`}
+                            >
+                              {checked && <Check className="w-4 h-4" />}
+                            </button>
+                          </td>
+                        );
+                      })}
+                      <td className={`text-right text-xs py-2 ${thisWeek >= habit.targetPerWeek ? "text-secondary font-medium" : "text-muted-foreground"}`}>
+                        {thisWeek}/{habit.targetPerWeek}
+                      </td>
+                      <td className="text-right py-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Delete habit"
+                          onClick={() => deleteMutation.mutate(habit.id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          ✕
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Repeat className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">No habits yet</h3>
+            <p className="text-muted-foreground">Turn your quest's systems into habits you check in on each day.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
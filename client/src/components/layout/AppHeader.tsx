@@ -1,9 +1,12 @@
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
-import { Compass, Bell, BarChart3, Settings } from "lucide-react";
+import { Compass, BarChart3, CalendarCheck, Settings } from "lucide-react";
+import { useLocation } from "wouter";
+import NotificationBell from "./NotificationBell";
 
 export default function AppHeader() {
   const { user } = useAuth();
+  const [location, navigate] = useLocation();
 
   return (
     <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-50">
@@ -19,20 +22,31 @@ export default function AppHeader() {
           </div>
           
           <nav className="hidden md:flex items-center space-x-6">
-            <button className="text-gray-600 hover:text-primary transition-colors flex items-center space-x-2">
+            <button
+              onClick={() => navigate("/analytics")}
+              className={`${location === "/analytics" ? "text-primary" : "text-gray-600"} hover:text-primary transition-colors flex items-center space-x-2`}
+            >
               <BarChart3 className="w-4 h-4" />
               <span>Analytics</span>
             </button>
-            <button className="text-gray-600 hover:text-primary transition-colors flex items-center space-x-2">
+            <button
+              onClick={() => navigate("/annual-review")}
+              className={`${location === "/annual-review" ? "text-primary" : "text-gray-600"} hover:text-primary transition-colors flex items-center space-x-2`}
+            >
+              <CalendarCheck className="w-4 h-4" />
+              <span>Annual Review</span>
+            </button>
+            <button
+              onClick={() => navigate("/settings")}
+              className={`${location === "/settings" ? "text-primary" : "text-gray-600"} hover:text-primary transition-colors flex items-center space-x-2`}
+            >
               <Settings className="w-4 h-4" />
               <span>Settings</span>
             </button>
           </nav>
 
           <div className="flex items-center space-x-4">
-            <button className="p-2 text-gray-600 hover:text-primary transition-colors">
-              <Bell className="w-4 h-4" />
-            </button>
+            <NotificationBell />
             <div className="flex items-center space-x-2">
               {user?.profileImageUrl ? (
                 <img 
@@ -1,8 +1,10 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useOnboarding } from "@/hooks/useOnboarding";
+import { useSettings } from "@/hooks/useSettings";
 import AppHeader from "./AppHeader";
 import OnboardingSidebar from "./OnboardingSidebar";
 import MobileNavigation from "./MobileNavigation";
+import TimeZonePrompt from "./TimeZonePrompt";
 import { Button } from "@/components/ui/button";
 import { Menu, X } from "lucide-react";
 
@@ -14,6 +16,21 @@ interface AppLayoutProps {
 export default function AppLayout({ children, showOnboarding = true }: AppLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { isOnboardingComplete } = useOnboarding();
+  const { settings } = useSettings();
+
+  // Apply the theme preference, following the OS setting when set to "system"
+  useEffect(() => {
+    const media = window.matchMedia("(prefers-color-scheme: dark)");
+    const applyTheme = () => {
+      const isDark = settings.theme === "dark" || (settings.theme === "system" && media.matches);
+      document.documentElement.classList.toggle("dark", isDark);
+    };
+
+    applyTheme();
+    if (settings.theme !== "system") return;
+    media.addEventListener("change", applyTheme);
+    return () => media.removeEventListener("change", applyTheme);
+  }, [settings.theme]);
 
   const shouldShowSidebar = showOnboarding && !isOnboardingComplete;
 
@@ -57,6 +74,7 @@ export default function AppLayout({ children, showOnboarding = true }: AppLayout
 
           {/* Page Content */}
           <div className="p-4 lg:p-8">
+            <TimeZonePrompt />
             {children}
           </div>
         </div>
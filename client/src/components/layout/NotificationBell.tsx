@@ -0,0 +1,124 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell, CalendarDays, PenLine, Target } from "lucide-react";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Notification, NotificationFeed } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+// Reminders are generated hourly on the server, so a slow poll is enough
+const NOTIFICATION_POLL_MS = 5 * 60 * 1000;
+
+const kindIcons: Record<string, typeof Bell> = {
+  weekly_plan_missing: CalendarDays,
+  reflection_missing: PenLine,
+  quest_at_risk: Target,
+};
+
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+
+  const { data } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: NOTIFICATION_POLL_MS,
+    retry: false,
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative p-2 text-gray-600 hover:text-primary transition-colors"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-medium flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              className="text-xs text-primary hover:underline px-2"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = kindIcons[notification.kind] ?? Bell;
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onSelect={() => openNotification(notification)}
+                  className={`flex items-start space-x-3 py-2 ${notification.readAt ? "opacity-60" : ""}`}
+                >
+                  <Icon className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.readAt ? "" : "font-medium"}`}>{notification.title}</p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    {notification.createdAt && (
+                      <p className="text-[11px] text-muted-foreground mt-0.5">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Globe } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useSettings } from "@/hooks/useSettings";
+import { deviceTimeZone } from "@shared/dates";
+
+const dismissKey = (savedZone: string, deviceZone: string) => `inmotion:timezone-dismissed:${savedZone}:${deviceZone}`;
+
+// Offers to switch the saved time zone when the device reports a different one, e.g. while travelling
+export default function TimeZonePrompt() {
+  const { settings, isLoading } = useSettings();
+  const deviceZone = deviceTimeZone();
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const switchMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", "/api/settings", { timeZone: deviceZone });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Could not update your time zone.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const key = dismissKey(settings.timeZone, deviceZone);
+  if (isLoading || settings.timeZone === deviceZone || dismissedKey === key || localStorage.getItem(key) === "true") {
+    return null;
+  }
+
+  const keepSaved = () => {
+    localStorage.setItem(key, "true");
+    setDismissedKey(key);
+  };
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-blue-200 bg-blue-50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+      <p className="text-sm text-foreground flex items-center">
+        <Globe className="w-4 h-4 mr-2 text-primary shrink-0" />
+        Your device is set to {deviceZone.replace(/_/g, " ")}, but your days are tracked in {settings.timeZone.replace(/_/g, " ")}.
+      </p>
+      <div className="flex items-center space-x-2">
+        <Button size="sm" variant="outline" onClick={keepSaved}>
+          Keep {settings.timeZone.replace(/_/g, " ")}
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => switchMutation.mutate()}
+          disabled={switchMutation.isPending}
+          style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+          className="hover:opacity-90"
+        >
+          Switch to {deviceZone.replace(/_/g, " ")}
+        </Button>
+      </div>
+    </div>
+  );
+}
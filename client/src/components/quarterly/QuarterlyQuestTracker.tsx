@@ -6,8 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
-import { Target, Plus, Edit } from "lucide-react";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Target, Plus, Edit, ClipboardCheck } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,15 +15,23 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { showSuccessNotification, showErrorNotification } from "@/lib/notifications";
+import { useSettings } from "@/hooks/useSettings";
+import { useLocation } from "wouter";
 import type { QuarterlyQuest } from "@shared/schema";
+import { formatQuestPeriod, isActiveQuest, quarterOf } from "@shared/quests";
+import QuestMeasures from "./QuestMeasures";
+import HabitAdherence from "@/components/habits/HabitAdherence";
 
 const questFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
   goal: z.string().min(10, "Goal must be at least 10 characters"),
   plan: z.string().min(10, "Plan must be at least 10 characters"),
   systems: z.string().min(10, "Systems must be at least 10 characters"),
-  quarter: z.string().min(1, "Quarter is required"),
-  year: z.number().min(2020).max(2050),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "The quest must end after it starts",
+  path: ["endDate"],
 });
 
 type QuestFormData = z.infer<typeof questFormSchema>;
@@ -31,21 +39,25 @@ type QuestFormData = z.infer<typeof questFormSchema>;
 export default function QuarterlyQuestTracker() {
   const [isCreating, setIsCreating] = useState(false);
   const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { today } = useSettings();
   
   const { data: user } = useQuery<{id: string}>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
   
-  const currentYear = new Date().getFullYear();
-  const currentQuarter = `Q${Math.ceil((new Date().getMonth() + 1) / 3)}`;
+  const currentQuarter = quarterOf(today);
 
   const { data: quests, isLoading } = useQuery<QuarterlyQuest[]>({
     queryKey: ["/api/quarterly-quests"],
     retry: false,
   });
 
-  const activeQuest = quests?.find((quest) => quest.isActive);
+  // The quest running today, falling back to one that has ended but not been reviewed yet
+  const activeQuests = quests?.filter(isActiveQuest) ?? [];
+  const activeQuest = activeQuests.find(quest => quest.startDate <= today && quest.endDate >= today) ?? activeQuests[0];
+  const needsReview = activeQuests.some(quest => quest.endDate < today);
 
   const form = useForm<QuestFormData>({
     resolver: zodResolver(questFormSchema),
@@ -54,8 +66,8 @@ export default function QuarterlyQuestTracker() {
       goal: "",
       plan: "",
       systems: "",
-      quarter: currentQuarter,
-      year: currentYear,
+      startDate: currentQuarter.start,
+      endDate: currentQuarter.end,
     },
   });
 
@@ -66,11 +78,11 @@ export default function QuarterlyQuestTracker() {
         goal: activeQuest.goal || "",
         plan: activeQuest.plan || "",
         systems: activeQuest.systems || "",
-        quarter: activeQuest.quarter || currentQuarter,
-        year: activeQuest.year || currentYear,
+        startDate: activeQuest.startDate,
+        endDate: activeQuest.endDate,
       });
     }
-  }, [activeQuest, form, currentQuarter, currentYear]);
+  }, [activeQuest, form]);
 
   const createMutation = useMutation({
     mutationFn: async (data: QuestFormData) => {
@@ -98,30 +110,6 @@ export default function QuarterlyQuestTracker() {
     },
   });
 
-  const updateProgressMutation = useMutation({
-    mutationFn: async ({ id, progress }: { id: string; progress: number }) => {
-      await apiRequest("PATCH", `/api/quarterly-quests/${id}`, { progress });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
-      showSuccessNotification('quarterly_quest');
-    },
-    onError: async (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      await showErrorNotification('quarterly_quest', error, user?.id);
-    },
-  });
-
   const onSubmit = (data: QuestFormData) => {
     createMutation.mutate(data);
   };
@@ -156,7 +144,9 @@ export default function QuarterlyQuestTracker() {
           </CardTitle>
           <div className="flex items-center space-x-2">
             <span className="text-xs text-muted-foreground">
-              {activeQuest ? `${activeQuest.quarter} ${activeQuest.year}` : currentQuarter + " " + currentYear}
+              {activeQuest
+                ? formatQuestPeriod(activeQuest.startDate, activeQuest.endDate)
+                : formatQuestPeriod(currentQuarter.start, currentQuarter.end)}
             </span>
             {!activeQuest && (
               <Dialog open={isCreating} onOpenChange={setIsCreating}>
@@ -191,29 +181,26 @@ export default function QuarterlyQuestTracker() {
                         <div className="grid grid-cols-2 gap-2">
                           <FormField
                             control={form.control}
-                            name="quarter"
+                            name="startDate"
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Quarter</FormLabel>
+                                <FormLabel>Starts</FormLabel>
                                 <FormControl>
-                                  <Input {...field} />
+                                  <Input type="date" {...field} />
                                 </FormControl>
                               </FormItem>
                             )}
                           />
                           <FormField
                             control={form.control}
-                            name="year"
+                            name="endDate"
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Year</FormLabel>
+                                <FormLabel>Ends</FormLabel>
                                 <FormControl>
-                                  <Input 
-                                    type="number" 
-                                    {...field} 
-                                    onChange={(e) => field.onChange(parseInt(e.target.value))}
-                                  />
+                                  <Input type="date" {...field} />
                                 </FormControl>
+                                <FormMessage />
                               </FormItem>
                             )}
                           />
@@ -293,14 +280,26 @@ export default function QuarterlyQuestTracker() {
         </div>
       </CardHeader>
       <CardContent>
+        {needsReview && (
+          <div className="flex items-center justify-between gap-3 mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200">
+            <p className="text-sm text-amber-800">A quest has ended. Close the quarter to record how it went.</p>
+            <Button size="sm" variant="outline" onClick={() => navigate("/quarterly-quests")}>
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              Review
+            </Button>
+          </div>
+        )}
         {activeQuest ? (
           <div className="space-y-4">
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="font-medium text-foreground">{activeQuest.title}</h3>
-                <span className="text-xs text-secondary font-medium">
-                  {activeQuest.progress}% Complete
-                </span>
+                <div className="flex items-center space-x-3">
+                  <HabitAdherence questId={activeQuest.id} />
+                  <span className="text-xs text-secondary font-medium">
+                    {activeQuest.progress}% Complete
+                  </span>
+                </div>
               </div>
               <Progress value={activeQuest.progress} className="mb-3" />
               
@@ -320,23 +319,7 @@ export default function QuarterlyQuestTracker() {
               </div>
               
               <div className="mt-4 pt-3 border-t border-gray-200">
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm text-muted-foreground">Update Progress:</span>
-                  <Input
-                    type="number"
-                    min="0"
-                    max="100"
-                    className="w-20"
-                    defaultValue={activeQuest.progress || 0}
-                    onBlur={(e) => {
-                      const progress = parseInt(e.target.value);
-                      if (progress !== activeQuest.progress && progress >= 0 && progress <= 100) {
-                        updateProgressMutation.mutate({ id: activeQuest.id, progress });
-                      }
-                    }}
-                  />
-                  <span className="text-sm text-muted-foreground">%</span>
-                </div>
+                <QuestMeasures quest={activeQuest} compact />
               </div>
             </div>
           </div>
@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showErrorNotification } from "@/lib/notifications";
+import { formatQuestPeriod, isActiveQuest, quarterOf, suggestedQuestOutcome } from "@shared/quests";
+import type { QuarterlyQuest, QuarterlyReviewInput, QuestOutcome } from "@shared/schema";
+
+interface QuarterlyReviewProps {
+  quests: QuarterlyQuest[];
+}
+
+const outcomeLabels: Record<QuestOutcome, string> = {
+  achieved: "Achieved",
+  partial: "Partially achieved",
+  abandoned: "Abandoned",
+};
+
+type OutcomeChoice = { status: QuestOutcome; carryOver: boolean };
+
+// Quarters that have started and still have open quests ending in them, oldest first
+export function reviewableQuarters(quests: QuarterlyQuest[], today: string): string[] {
+  const starts = quests
+    .filter(isActiveQuest)
+    .map(quest => quarterOf(quest.endDate).start)
+    .filter(start => start <= today);
+  return Array.from(new Set(starts)).sort();
+}
+
+// Closes a quarter: every quest ending in it gets an outcome, unfinished ones can carry over
+export default function QuarterlyReview({ quests }: QuarterlyReviewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [quarterStart, setQuarterStart] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, OutcomeChoice>>({});
+  const [retrospective, setRetrospective] = useState("");
+  const [lessonsLearned, setLessonsLearned] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { today } = useSettings();
+
+  const quarters = reviewableQuarters(quests, today);
+  const selected = quarterStart && quarters.includes(quarterStart) ? quarterStart : quarters[0] ?? null;
+  const period = selected ? quarterOf(selected) : null;
+  // Earlier quests that were never closed are reviewed along with this quarter's
+  const due = period ? quests.filter(quest => isActiveQuest(quest) && quest.endDate <= period.end) : [];
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(due.map(quest => [
+      quest.id,
+      { status: suggestedQuestOutcome(quest.progress ?? 0), carryOver: false },
+    ])));
+  }, [isOpen, selected]);
+
+  const setChoice = (questId: string, choice: Partial<OutcomeChoice>) => {
+    setChoices(current => ({ ...current, [questId]: { ...current[questId], ...choice } }));
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: QuarterlyReviewInput) => {
+      await apiRequest("POST", "/api/quarterly-reviews", review);
+    },
+    onSuccess: (_data, review) => {
+      const carried = review.outcomes.filter(outcome => outcome.carryOver && outcome.status !== "achieved").length;
+      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vision-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/habits"] });
+      setIsOpen(false);
+      setQuarterStart(null);
+      setRetrospective("");
+      setLessonsLearned("");
+      toast({
+        title: "Quarter closed",
+        description: carried > 0
+          ? `Your quests are archived and ${carried} ${carried === 1 ? "quest continues" : "quests continue"} next quarter.`
+          : "Your quests are archived. Time to set your next quests.",
+      });
+    },
+    onError: async (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      await showErrorNotification('quarterly_quest', error, user?.id);
+    },
+  });
+
+  const submit = () => {
+    if (!selected) {
+      return;
+    }
+    reviewMutation.mutate({
+      startDate: selected,
+      retrospective: retrospective.trim() || undefined,
+      lessonsLearned: lessonsLearned.trim() || undefined,
+      outcomes: due.map(quest => ({
+        questId: quest.id,
+        status: choices[quest.id]?.status ?? suggestedQuestOutcome(quest.progress ?? 0),
+        carryOver: choices[quest.id]?.carryOver ?? false,
+      })),
+    });
+  };
+
+  if (quarters.length === 0) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+          className="hover:opacity-90"
+        >
+          <ClipboardCheck className="w-4 h-4 mr-2" />
+          Review Quarter
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Quarterly Review</DialogTitle>
+          <DialogDescription>
+            Decide how each quest turned out, take stock, and choose what continues next quarter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {quarters.length > 1 && selected && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              Reviewing
+              <Select value={selected} onValueChange={setQuarterStart}>
+                <SelectTrigger className="w-36 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {quarters.map((start) => (
+                    <SelectItem key={start} value={start}>
+                      {formatQuestPeriod(start, quarterOf(start).end)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <section className="space-y-3">
+            <h4 className="text-sm font-semibold text-foreground">
+              Quests ending {period ? formatQuestPeriod(period.start, period.end) : ""}
+            </h4>
+            {due.map((quest) => {
+              const choice = choices[quest.id];
+              if (!choice) {
+                return null;
+              }
+              return (
+                <div key={quest.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground truncate">{quest.title}</p>
+                      <p className="text-xs text-muted-foreground">{formatQuestPeriod(quest.startDate, quest.endDate)}</p>
+                    </div>
+                    <Select
+                      value={choice.status}
+                      onValueChange={(status) => setChoice(quest.id, { status: status as QuestOutcome })}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(outcomeLabels) as QuestOutcome[]).map((outcome) => (
+                          <SelectItem key={outcome} value={outcome}>{outcomeLabels[outcome]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Progress value={quest.progress ?? 0} className="h-2" />
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">{quest.progress ?? 0}%</span>
+                  </div>
+                  {choice.status !== "achieved" && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`carry-over-${quest.id}`}
+                        checked={choice.carryOver}
+                        onCheckedChange={(checked) => setChoice(quest.id, { carryOver: checked === true })}
+                      />
+                      <Label htmlFor={`carry-over-${quest.id}`} className="text-sm font-normal">
+                        Carry over to next quarter
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+
+          <section className="space-y-2">
+            <Label htmlFor="quarter-retrospective">Retrospective</Label>
+            <Textarea
+              id="quarter-retrospective"
+              placeholder="What happened this quarter? What worked, and what got in the way?"
+              rows={4}
+              value={retrospective}
+              onChange={(e) => setRetrospective(e.target.value)}
+            />
+          </section>
+
+          <section className="space-y-2">
+            <Label htmlFor="quarter-lessons">Lessons Learned</Label>
+            <Textarea
+              id="quarter-lessons"
+              placeholder="What will you do differently next quarter?"
+              rows={3}
+              value={lessonsLearned}
+              onChange={(e) => setLessonsLearned(e.target.value)}
+            />
+          </section>
+
+          <div className="flex justify-end space-x-2 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submit}
+              disabled={reviewMutation.isPending || due.length === 0}
+              style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+              className="hover:opacity-90"
+            >
+              {reviewMutation.isPending ? "Closing..." : "Close Quarter"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
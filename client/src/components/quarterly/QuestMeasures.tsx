@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { CheckCircle, Flag, Gauge, Plus, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showErrorNotification } from "@/lib/notifications";
+import type { QuarterlyQuest, QuestKeyResult, QuestMilestone, QuestProgressSnapshot, WeeklyPlan } from "@shared/schema";
+import { parseISO } from "date-fns";
+import { useSettings } from "@/hooks/useSettings";
+
+interface QuestMeasuresProps {
+  quest: QuarterlyQuest;
+  compact?: boolean;
+}
+
+type MeasureKind = "key-results" | "milestones";
+
+const historyChartConfig = {
+  progress: {
+    label: "Progress",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+const measurePercent = (currentValue: number, targetValue: number) => {
+  if (targetValue <= 0) return currentValue >= targetValue ? 100 : 0;
+  return Math.max(0, Math.min(100, Math.round((currentValue / targetValue) * 100)));
+};
+
+const formatValue = (value: number, unit?: string | null) =>
+  unit ? `${value} ${unit}` : `${value}`;
+
+export default function QuestMeasures({ quest, compact = false }: QuestMeasuresProps) {
+  const [addingKind, setAddingKind] = useState<MeasureKind | null>(null);
+  const [draft, setDraft] = useState({ title: "", targetValue: "", unit: "", dueDate: "" });
+  const [manualProgress, setManualProgress] = useState(quest.progress ?? 0);
+  const { formatShortDate } = useSettings();
+  const { toast } = useToast();
+
+  const { data: user } = useQuery<{id: string}>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  const { data: keyResults = [] } = useQuery<QuestKeyResult[]>({
+    queryKey: ["/api/quarterly-quests", quest.id, "key-results"],
+    retry: false,
+  });
+
+  const { data: milestones = [] } = useQuery<QuestMilestone[]>({
+    queryKey: ["/api/quarterly-quests", quest.id, "milestones"],
+    retry: false,
+  });
+
+  const { data: history = [] } = useQuery<QuestProgressSnapshot[]>({
+    queryKey: ["/api/quarterly-quests", quest.id, "progress-history"],
+    retry: false,
+    enabled: !compact,
+  });
+
+  const { data: weeklyPlans = [] } = useQuery<WeeklyPlan[]>({
+    queryKey: ["/api/weekly-plans"],
+    retry: false,
+  });
+
+  const hasMeasures = keyResults.length > 0 || milestones.length > 0;
+  const linkedWeekCount = weeklyPlans.filter(plan => plan.quarterlyQuestId === quest.id).length;
+
+  const handleError = async (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    await showErrorNotification('quarterly_quest', error, user?.id);
+  };
+
+  // Every measure change can move the quest's computed progress
+  const invalidateQuest = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ kind, data }: { kind: MeasureKind; data: Record<string, unknown> }) => {
+      await apiRequest("POST", `/api/quarterly-quests/${quest.id}/${kind}`, data);
+    },
+    onSuccess: () => {
+      invalidateQuest();
+      setAddingKind(null);
+      setDraft({ title: "", targetValue: "", unit: "", dueDate: "" });
+    },
+    onError: handleError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ kind, id, currentValue }: { kind: MeasureKind; id: string; currentValue: number }) => {
+      const path = kind === "key-results" ? "quest-key-results" : "quest-milestones";
+      await apiRequest("PATCH", `/api/${path}/${id}`, { currentValue });
+    },
+    onSuccess: invalidateQuest,
+    onError: handleError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: MeasureKind; id: string }) => {
+      const path = kind === "key-results" ? "quest-key-results" : "quest-milestones";
+      await apiRequest("DELETE", `/api/${path}/${id}`);
+    },
+    onSuccess: invalidateQuest,
+    onError: handleError,
+  });
+
+  const manualProgressMutation = useMutation({
+    mutationFn: async (progress: number) => {
+      await apiRequest("PATCH", `/api/quarterly-quests/${quest.id}`, { progress });
+    },
+    onSuccess: invalidateQuest,
+    onError: handleError,
+  });
+
+  const submitDraft = () => {
+    if (!addingKind || !draft.title.trim()) return;
+    const targetValue = parseFloat(draft.targetValue);
+    if (addingKind === "key-results" && isNaN(targetValue)) return;
+    if (addingKind === "milestones" && !draft.dueDate) return;
+
+    createMutation.mutate({
+      kind: addingKind,
+      data: {
+        title: draft.title.trim(),
+        unit: draft.unit.trim() || null,
+        ...(isNaN(targetValue) ? {} : { targetValue }),
+        ...(addingKind === "milestones" ? { dueDate: draft.dueDate } : {}),
+      },
+    });
+  };
+
+  const renderValueInput = (kind: MeasureKind, measure: QuestKeyResult | QuestMilestone) => (
+    <Input
+      key={`${measure.id}-${measure.currentValue}`}
+      type="number"
+      className="w-20 h-7 text-xs"
+      defaultValue={measure.currentValue}
+      onBlur={(e) => {
+        const currentValue = parseFloat(e.target.value);
+        if (!isNaN(currentValue) && currentValue !== measure.currentValue) {
+          updateMutation.mutate({ kind, id: measure.id, currentValue });
+        }
+      }}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      {keyResults.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <Gauge className="w-4 h-4" />
+            <span>Key Results</span>
+          </div>
+          {keyResults.map((keyResult) => (
+            <div key={keyResult.id} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-900">{keyResult.title}</span>
+                <div className="flex items-center space-x-1">
+                  {renderValueInput("key-results", keyResult)}
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    / {formatValue(keyResult.targetValue, keyResult.unit)}
+                  </span>
+                  {!compact && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      onClick={() => deleteMutation.mutate({ kind: "key-results", id: keyResult.id })}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Progress value={measurePercent(keyResult.currentValue, keyResult.targetValue)} className="h-1.5" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {milestones.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <Flag className="w-4 h-4" />
+            <span>Milestones</span>
+          </div>
+          {milestones.map((milestone) => (
+            <div key={milestone.id} className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2">
+                <CheckCircle className={`w-4 h-4 ${milestone.completedAt ? 'text-green-600' : 'text-gray-300'}`} />
+                <span className={milestone.completedAt ? 'line-through text-gray-500' : 'text-gray-900'}>
+                  {milestone.title}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {formatShortDate(parseISO(milestone.dueDate))}
+                </span>
+              </div>
+              <div className="flex items-center space-x-1">
+                {renderValueInput("milestones", milestone)}
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  / {formatValue(milestone.targetValue, milestone.unit)}
+                </span>
+                {!compact && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                    onClick={() => deleteMutation.mutate({ kind: "milestones", id: milestone.id })}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!hasMeasures && linkedWeekCount > 0 && (
+        <p className="text-xs text-gray-500">
+          Progress rolls up from {linkedWeekCount} linked weekly plan{linkedWeekCount !== 1 ? 's' : ''}.
+          Add key results or milestones to measure outcomes instead.
+        </p>
+      )}
+
+      {!hasMeasures && linkedWeekCount === 0 && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Update Progress</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={manualProgress}
+              onChange={(e) => setManualProgress(parseInt(e.target.value))}
+              onPointerUp={() => manualProgressMutation.mutate(manualProgress)}
+              onKeyUp={() => manualProgressMutation.mutate(manualProgress)}
+              className="flex-1"
+            />
+            <span className="text-sm font-medium w-12">{manualProgress}%</span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Add key results or milestones to have progress calculated for you.
+          </p>
+        </div>
+      )}
+
+      {!compact && history.length > 1 && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">Trajectory</span>
+          <ChartContainer config={historyChartConfig} className="h-32 w-full aspect-auto">
+            <LineChart
+              data={history.map((snapshot) => ({
+                date: formatShortDate(new Date(snapshot.recordedAt)),
+                progress: snapshot.progress,
+              }))}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} hide />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="progress" type="monotone" stroke="var(--color-progress)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      {!compact && (
+        addingKind ? (
+          <div className="space-y-2 p-3 border rounded-lg">
+            <Input
+              placeholder={addingKind === "key-results" ? "e.g., Monthly revenue" : "e.g., Launch landing page"}
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            />
+            <div className="flex space-x-2">
+              <Input
+                type="number"
+                placeholder={addingKind === "key-results" ? "Target" : "Target (default 1)"}
+                value={draft.targetValue}
+                onChange={(e) => setDraft({ ...draft, targetValue: e.target.value })}
+              />
+              <Input
+                placeholder="Unit"
+                value={draft.unit}
+                onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+              />
+              {addingKind === "milestones" && (
+                <Input
+                  type="date"
+                  value={draft.dueDate}
+                  onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })}
+                />
+              )}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setAddingKind(null)}>
+                Cancel
+              </Button>
+              <Button type="button" size="sm" onClick={submitDraft} disabled={createMutation.isPending}>
+                {createMutation.isPending ? "Adding..." : "Add"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setAddingKind("key-results")}>
+              <Plus className="w-3 h-3 mr-1" />
+              Key Result
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setAddingKind("milestones")}>
+              <Plus className="w-3 h-3 mr-1" />
+              Milestone
+            </Button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
-import { BookOpen, Star } from "lucide-react";
+import { BookOpen, Star, CalendarClock, Clock } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -13,8 +13,8 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { showSuccessNotification, showErrorNotification } from "@/lib/notifications";
-import type { DailyReflection } from "@shared/schema";
-import { format } from "date-fns";
+import type { DailyReflection, DailyTask, PomodoroStats } from "@shared/schema";
+import { useSettings } from "@/hooks/useSettings";
 
 const reflectionFormSchema = z.object({
   reflection: z.string().optional(),
@@ -24,6 +24,9 @@ const reflectionFormSchema = z.object({
 
 type ReflectionFormData = z.infer<typeof reflectionFormSchema>;
 
+// Tasks carried over at least this many times are called out as procrastination signals
+const DEFER_WARNING_THRESHOLD = 2;
+
 export default function DailyReflection() {
   const { toast } = useToast();
   
@@ -32,13 +35,29 @@ export default function DailyReflection() {
     retry: false,
   });
   
-  const today = format(new Date(), "yyyy-MM-dd");
+  const { today } = useSettings();
 
   const { data: reflection, isLoading } = useQuery<DailyReflection>({
     queryKey: ["/api/daily-reflections", today],
     retry: false,
   });
 
+  const { data: tasks } = useQuery<DailyTask[]>({
+    queryKey: ["/api/daily-tasks", today],
+    queryFn: () => fetch(`/api/daily-tasks?date=${today}`).then(res => res.json()),
+    retry: false,
+  });
+
+  const { data: focusStats } = useQuery<PomodoroStats>({
+    queryKey: ["/api/pomodoro-sessions/stats", today],
+    queryFn: () => fetch(`/api/pomodoro-sessions/stats?date=${today}`).then(res => res.json()),
+    retry: false,
+  });
+
+  const deferredTasks = (Array.isArray(tasks) ? tasks : [])
+    .filter(task => task.deferCount >= DEFER_WARNING_THRESHOLD)
+    .sort((a, b) => b.deferCount - a.deferCount);
+
   const form = useForm<ReflectionFormData>({
     resolver: zodResolver(reflectionFormSchema),
     defaultValues: {
@@ -139,6 +158,51 @@ export default function DailyReflection() {
         </CardTitle>
       </CardHeader>
       <CardContent>
+            {deferredTasks.length > 0 && (
+              <div className="mb-4 p-3 rounded-lg border border-orange-200 bg-orange-50">
+                <p className="flex items-center text-sm font-medium text-foreground mb-1">
+                  <CalendarClock className="w-4 h-4 mr-1 text-orange-700" />
+                  Keeps getting pushed back
+                </p>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {deferredTasks.map((task) => (
+                    <li key={task.id} className="flex justify-between">
+                      <span className={task.isCompleted ? "line-through" : ""}>{task.title}</span>
+                      <span className="text-xs text-orange-700">Deferred {task.deferCount}×</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-muted-foreground mt-2">
+                  What is getting in the way? Consider breaking these down or letting them go.
+                </p>
+              </div>
+            )}
+            {!!focusStats?.sessions && (
+              <div className="mb-4 p-3 rounded-lg border border-border">
+                <p className="flex items-center text-sm font-medium text-foreground mb-1">
+                  <Clock className="w-4 h-4 mr-1 text-accent" />
+                  Focus today
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {focusStats.sessions} session{focusStats.sessions !== 1 ? 's' : ''}
+                  {" · "}{focusStats.interruptions} interruption{focusStats.interruptions !== 1 ? 's' : ''}
+                  {focusStats.averageFocus !== null && ` · focus ${focusStats.averageFocus} / 5`}
+                </p>
+                {focusStats.byTask.length > 1 && (
+                  <ul className="text-xs text-muted-foreground mt-2 space-y-1">
+                    {focusStats.byTask.map((task) => (
+                      <li key={task.taskId} className="flex justify-between">
+                        <span className="truncate">{task.title}</span>
+                        <span>
+                          {task.interruptionRate} interruptions/session
+                          {task.averageFocus !== null && ` · ${task.averageFocus} / 5`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                 <FormField
@@ -0,0 +1,192 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, FileUp } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { ImportReport } from "@shared/schema";
+
+const entityLabels: Record<string, string> = {
+  visionPlans: "Life Compass",
+  quarterlyQuests: "quests",
+  visionCards: "vision cards",
+  visionCardQuests: "vision card links",
+  questKeyResults: "key results",
+  questMilestones: "milestones",
+  questProgressHistory: "progress snapshots",
+  weeklyPlans: "weekly plans",
+  recurringTasks: "recurring tasks",
+  dailyTasks: "tasks",
+  habits: "habits",
+  habitCheckIns: "habit check-ins",
+  pomodoroSessions: "focus sessions",
+  pomodoroInterruptions: "interruptions",
+  dailyReflections: "reflections",
+};
+
+// Conflicts listed before collapsing the rest into a count
+const MAX_CONFLICTS_SHOWN = 8;
+
+// The file goes up as-is; the server works out whether it is an export zip, JSON or a CSV task list
+async function uploadImport(file: File, dryRun: boolean): Promise<ImportReport> {
+  const res = await fetch(`/api/import?dryRun=${dryRun}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res.json();
+}
+
+function describeCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([entity, count]) => `${count} ${entityLabels[entity] ?? entity}`)
+    .join(", ");
+}
+
+export default function DataImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportReport | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    if (inputRef.current) {
+      inputRef.current.value = "";
+    }
+  };
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    let description = "The file could not be imported.";
+    try {
+      description = JSON.parse(error.message.replace(/^\d+: /, "")).message ?? description;
+    } catch {
+      // Not a JSON error body; keep the generic message
+    }
+    toast({ title: "Import failed", description, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => uploadImport(selected, true),
+    onSuccess: setPreview,
+    onError: (error) => {
+      handleError(error);
+      reset();
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: File) => uploadImport(selected, false),
+    onSuccess: (report) => {
+      queryClient.invalidateQueries();
+      toast({
+        variant: "success",
+        title: "Import complete",
+        description: Object.keys(report.created).length
+          ? `Added ${describeCounts(report.created)}.`
+          : "Everything in the file was already here.",
+      });
+      reset();
+    },
+    onError: handleError,
+  });
+
+  const onFileChange = (selected: File | undefined) => {
+    setPreview(null);
+    setFile(selected ?? null);
+    if (selected) {
+      previewMutation.mutate(selected);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-foreground">Import</p>
+        <p className="text-sm text-muted-foreground">
+          Restore an InMotion JSON export, or bring in tasks from a CSV exported by Todoist, TickTick or a similar app.
+          You'll see what will change before anything is saved.
+        </p>
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,.json,.csv,application/zip,application/json,text/csv"
+        className="hidden"
+        onChange={(e) => onFileChange(e.target.files?.[0])}
+      />
+      {!file && (
+        <Button variant="outline" onClick={() => inputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Choose File
+        </Button>
+      )}
+
+      {file && previewMutation.isPending && (
+        <p className="text-sm text-muted-foreground">Checking {file.name}...</p>
+      )}
+
+      {file && preview && (
+        <div className="p-3 rounded-lg border bg-muted/40 space-y-3">
+          <p className="text-sm text-foreground">
+            {Object.keys(preview.created).length
+              ? <>Importing <span className="font-medium">{file.name}</span> will add {describeCounts(preview.created)}.</>
+              : <>Everything in <span className="font-medium">{file.name}</span> is already here.</>}
+          </p>
+
+          {preview.conflicts.length > 0 && (
+            <div className="text-sm">
+              <p className="flex items-center font-medium text-orange-700 mb-1">
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {preview.conflicts.length} {preview.conflicts.length === 1 ? "conflict" : "conflicts"}
+              </p>
+              <ul className="list-disc pl-5 text-muted-foreground space-y-0.5">
+                {preview.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map((conflict, index) => (
+                  <li key={index}>{conflict}</li>
+                ))}
+              </ul>
+              {preview.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                <p className="text-muted-foreground mt-1">
+                  and {preview.conflicts.length - MAX_CONFLICTS_SHOWN} more
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(file)}
+              disabled={importMutation.isPending || !Object.keys(preview.created).length}
+              style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+              className="hover:opacity-90"
+            >
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
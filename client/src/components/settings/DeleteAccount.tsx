@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Download, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const CONFIRMATION_WORD = "DELETE";
+
+export default function DeleteAccount() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+  const { toast } = useToast();
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/auth/user", { confirmation });
+    },
+    onSuccess: () => {
+      // The session is gone too, so start over from the landing page
+      window.location.href = "/";
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Account not deleted",
+        description: "Something went wrong and nothing was erased. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setConfirmation("");
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+      <div>
+        <p className="text-sm font-medium text-foreground">Delete account</p>
+        <p className="text-sm text-muted-foreground">
+          Permanently erase your account, everything you've recorded and your uploaded images.
+        </p>
+      </div>
+
+      <AlertDialog open={isOpen} onOpenChange={onOpenChange}>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete Account
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your Life Compass, vision board, quests, plans, tasks, habits, focus sessions and reflections will be
+              erased and can't be recovered. Download a copy first if you might want it later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/export?format=json" download>
+                <Download className="w-4 h-4 mr-2" />
+                Full backup
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/export?format=markdown" download>
+                <Download className="w-4 h-4 mr-2" />
+                Journal
+              </a>
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-foreground">
+              Type <span className="font-mono font-medium">{CONFIRMATION_WORD}</span> to confirm.
+            </p>
+            <Input
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+              disabled={deleteMutation.isPending}
+            />
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={confirmation !== CONFIRMATION_WORD || deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Forever"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Settings } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { UserSettings } from "@shared/schema";
+
+type EditableSettings = Pick<
+  UserSettings,
+  "workMinutes" | "shortBreakMinutes" | "longBreakMinutes" | "cyclesBeforeLongBreak" | "autoStartBreaks" | "autoStartWork"
+>;
+
+interface PomodoroSettingsDialogProps {
+  settings: EditableSettings;
+  disabled?: boolean;
+}
+
+const durationFields: { key: "workMinutes" | "shortBreakMinutes" | "longBreakMinutes" | "cyclesBeforeLongBreak"; label: string; max: number }[] = [
+  { key: "workMinutes", label: "Focus (minutes)", max: 180 },
+  { key: "shortBreakMinutes", label: "Short break (minutes)", max: 60 },
+  { key: "longBreakMinutes", label: "Long break (minutes)", max: 120 },
+  { key: "cyclesBeforeLongBreak", label: "Cycles before long break", max: 12 },
+];
+
+export default function PomodoroSettingsDialog({ settings, disabled }: PomodoroSettingsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<EditableSettings>(settings);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft({
+        workMinutes: settings.workMinutes,
+        shortBreakMinutes: settings.shortBreakMinutes,
+        longBreakMinutes: settings.longBreakMinutes,
+        cyclesBeforeLongBreak: settings.cyclesBeforeLongBreak,
+        autoStartBreaks: settings.autoStartBreaks,
+        autoStartWork: settings.autoStartWork,
+      });
+    }
+  }, [isOpen]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: EditableSettings) => {
+      await apiRequest("PATCH", "/api/settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Timer settings must be whole numbers within range.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" disabled={disabled} title="Timer settings">
+          <Settings className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Timer Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {durationFields.map(({ key, label, max }) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={key}>{label}</Label>
+              <Input
+                id={key}
+                type="number"
+                min={1}
+                max={max}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value) || 0 })}
+                className="w-20"
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="autoStartBreaks">Start breaks automatically</Label>
+            <Switch
+              id="autoStartBreaks"
+              checked={draft.autoStartBreaks}
+              onCheckedChange={(checked) => setDraft({ ...draft, autoStartBreaks: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="autoStartWork">Start focus sessions automatically</Label>
+            <Switch
+              id="autoStartWork"
+              checked={draft.autoStartWork}
+              onCheckedChange={(checked) => setDraft({ ...draft, autoStartWork: checked })}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(draft)}
+              disabled={saveMutation.isPending}
+              style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+              className="hover:opacity-90"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
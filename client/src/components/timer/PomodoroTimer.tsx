@@ -2,14 +2,22 @@ import { useState, useEffect, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Progress } from "@/components/ui/progress";
-import { Clock, Play, Pause, Square, RotateCcw } from "lucide-react";
+import { Clock, Play, Pause, Square, RotateCcw, Star, Brain, Users } from "lucide-react";
+import { Input } from "@/components/ui/input";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { format } from "date-fns";
+import type { PomodoroSession, PomodoroStart, PomodoroStats } from "@shared/schema";
+import { useSettings } from "@/hooks/useSettings";
+import { pomodoroElapsedSeconds } from "@shared/pomodoro";
+import PomodoroSettingsDialog from "./PomodoroSettingsDialog";
 
-type TimerType = "work" | "break";
+type TimerType = "work" | "break" | "long_break";
+
+interface ActiveSessionResponse {
+  session: PomodoroSession | null;
+  serverTime: string;
+}
 
 interface PomodoroTimerProps {
   taskId?: string;
@@ -17,56 +25,133 @@ interface PomodoroTimerProps {
 }
 
 export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps) {
-  const [isRunning, setIsRunning] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(25 * 60); // 25 minutes in seconds
-  const [timerType, setTimerType] = useState<TimerType>("work");
+  const [timerType, setTimerType] = useState<TimerType>("work"); // Next session to start when idle
+  const [cycle, setCycle] = useState(1); // Work session within the current set
   const [currentTaskId, setCurrentTaskId] = useState<string | null>(taskId || null);
   const [currentTaskTitle, setCurrentTaskTitle] = useState<string>(taskTitle || "");
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [interruptionNote, setInterruptionNote] = useState("");
+  const [interruptionCount, setInterruptionCount] = useState(0);
+  const [ratingSessionId, setRatingSessionId] = useState<string | null>(null);
+  const clockOffsetRef = useRef(0); // Server time minus local time
+  const finishingRef = useRef<string | null>(null);
   const { toast } = useToast();
 
-  const workDuration = 25 * 60; // 25 minutes
-  const breakDuration = 5 * 60; // 5 minutes
+  const { settings, today } = useSettings();
+  const cyclesPerSet = settings.cyclesBeforeLongBreak;
 
-  const today = format(new Date(), "yyyy-MM-dd");
+  const durationFor = (type: TimerType) => {
+    switch (type) {
+      case "work":
+        return settings.workMinutes * 60;
+      case "break":
+        return settings.shortBreakMinutes * 60;
+      case "long_break":
+        return settings.longBreakMinutes * 60;
+    }
+  };
 
-  const { data: stats } = useQuery<{
-    totalFocusTime: number;
-    completedPomodoros: number;
-    averageSessionLength: number;
-  }>({
-    queryKey: ["/api/pomodoro-sessions/stats", { date: today }],
+  // The running session lives on the server; polling keeps other tabs in step
+  const { data: active, dataUpdatedAt } = useQuery<ActiveSessionResponse>({
+    queryKey: ["/api/pomodoro-sessions/active"],
+    refetchInterval: 15000,
     retry: false,
   });
 
-  const completePomodoroMutation = useMutation({
-    mutationFn: async (data: {
-      taskId?: string;
-      duration: number;
-      type: TimerType;
-    }) => {
-      await apiRequest("POST", "/api/pomodoro-sessions", {
-        ...data,
-        completedAt: new Date().toISOString(),
+  useEffect(() => {
+    if (active) {
+      clockOffsetRef.current = Date.parse(active.serverTime) - Date.now();
+    }
+  }, [dataUpdatedAt]);
+
+  const session = active?.session ?? null;
+  const isRunning = session?.status === "running";
+  const activeType = (session?.type as TimerType | undefined) ?? timerType;
+  const activeCycle = session?.cycle ?? cycle;
+  const totalSeconds = session?.plannedDuration ?? durationFor(activeType);
+  const timeLeft = session
+    ? Math.max(0, totalSeconds - pomodoroElapsedSeconds(session, new Date(now + clockOffsetRef.current)))
+    : totalSeconds;
+
+  const { data: stats } = useQuery<PomodoroStats>({
+    queryKey: ["/api/pomodoro-sessions/stats", today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/pomodoro-sessions/stats?date=${today}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const handleError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pomodoro-sessions/active"] });
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  };
+
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pomodoro-sessions/active"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pomodoro-sessions/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks"] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async (data: PomodoroStart) => {
+      await apiRequest("POST", "/api/pomodoro-sessions/start", data);
+    },
+    onSuccess: invalidateSessions,
+    onError: handleError,
+  });
+
+  const controlMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "pause" | "resume" | "stop" }) => {
+      const res = await apiRequest("POST", `/api/pomodoro-sessions/${id}/${action}`);
+      return await res.json() as PomodoroSession;
+    },
+    onSuccess: (updated, { action }) => {
+      invalidateSessions();
+      if (action === "stop" && updated.type === "work") {
+        setRatingSessionId(updated.id);
+      }
+      if (action === "stop" && updated.status === "completed") {
+        handleTimerComplete(updated);
+      }
+    },
+    onError: handleError,
+  });
+
+  const interruptionMutation = useMutation({
+    mutationFn: async ({ id, kind }: { id: string; kind: "internal" | "external" }) => {
+      await apiRequest("POST", `/api/pomodoro-sessions/${id}/interruptions`, {
+        kind,
+        note: interruptionNote.trim() || null,
       });
     },
     onSuccess: () => {
+      setInterruptionNote("");
+      setInterruptionCount((count) => count + 1);
       queryClient.invalidateQueries({ queryKey: ["/api/pomodoro-sessions/stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/daily-tasks"] });
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+    onError: handleError,
+  });
+
+  const ratingMutation = useMutation({
+    mutationFn: async ({ id, focusRating }: { id: string; focusRating: number }) => {
+      await apiRequest("POST", `/api/pomodoro-sessions/${id}/rating`, { focusRating });
     },
+    onSuccess: () => {
+      setRatingSessionId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/pomodoro-sessions/stats"] });
+    },
+    onError: handleError,
   });
 
   useEffect(() => {
@@ -76,88 +161,111 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
     }
   }, [taskId, taskTitle]);
 
+  // Adopt a session started elsewhere, e.g. in another tab
   useEffect(() => {
-    if (isRunning && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => prev - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      handleTimerComplete();
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+    setInterruptionCount(0);
+    if (session) {
+      setTimerType(session.type as TimerType);
+      setCycle(session.cycle ?? 1);
+      if (session.taskId !== currentTaskId) {
+        setCurrentTaskId(session.taskId);
+        setCurrentTaskTitle("");
       }
     }
+  }, [session?.id]);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isRunning, timeLeft]);
+  useEffect(() => {
+    if (!isRunning) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  // Only one tab wins the stop request; the others get a 404 and just refetch
+  useEffect(() => {
+    if (session && isRunning && timeLeft === 0 && finishingRef.current !== session.id) {
+      finishingRef.current = session.id;
+      controlMutation.mutate({ id: session.id, action: "stop" });
+    }
+  }, [session, isRunning, timeLeft]);
+
+  const handleTimerComplete = (finished: PomodoroSession) => {
+    const finishedType = finished.type as TimerType;
+    const finishedCycle = finished.cycle ?? cycle;
+
+    // A long break follows the last work session of each set
+    const nextType: TimerType = finishedType !== "work"
+      ? "work"
+      : finishedCycle >= cyclesPerSet ? "long_break" : "break";
+    const nextCycle = finishedType === "break" ? finishedCycle + 1 : finishedType === "long_break" ? 1 : finishedCycle;
 
-  const handleTimerComplete = () => {
-    setIsRunning(false);
-    
     // Play notification sound (browser notification)
-    if ("Notification" in window && Notification.permission === "granted") {
+    if (settings.timerNotifications && "Notification" in window && Notification.permission === "granted") {
       new Notification(
-        timerType === "work" ? "Work session complete!" : "Break time over!",
+        finishedType === "work" ? "Work session complete!" : "Break time over!",
         {
-          body: timerType === "work" 
-            ? "Time for a 5-minute break" 
+          body: finishedType === "work" 
+            ? `Time for a ${durationFor(nextType) / 60}-minute ${nextType === "long_break" ? "long " : ""}break` 
             : "Ready for another work session?",
           icon: "/favicon.ico",
         }
       );
     }
 
-    // Save session to database
-    const duration = timerType === "work" ? workDuration : breakDuration;
-    completePomodoroMutation.mutate({
-      taskId: currentTaskId || undefined,
-      duration,
-      type: timerType,
-    });
-
     toast({
-      title: timerType === "work" ? "Work Session Complete!" : "Break Time Over!",
-      description: timerType === "work" 
+      title: finishedType === "work" ? "Work Session Complete!" : "Break Time Over!",
+      description: finishedType === "work" 
         ? "Great job! Time for a break." 
         : "Ready for another focused session?",
     });
 
-    // Switch timer type and reset
-    const nextType = timerType === "work" ? "break" : "work";
     setTimerType(nextType);
-    setTimeLeft(nextType === "work" ? workDuration : breakDuration);
+    setCycle(nextCycle);
+    if (nextType === "work" ? settings.autoStartWork : settings.autoStartBreaks) {
+      startMutation.mutate({
+        type: nextType,
+        plannedDuration: durationFor(nextType),
+        cycle: nextCycle,
+        taskId: nextType === "work" ? currentTaskId : null,
+      });
+    }
   };
 
   const toggleTimer = () => {
-    if ("Notification" in window && Notification.permission === "default") {
+    if (settings.timerNotifications && "Notification" in window && Notification.permission === "default") {
       Notification.requestPermission();
     }
-    setIsRunning(!isRunning);
+    if (!session) {
+      setNow(Date.now());
+      startMutation.mutate({
+        type: timerType,
+        plannedDuration: durationFor(timerType),
+        cycle,
+        taskId: timerType === "work" ? currentTaskId : null,
+      });
+    } else {
+      controlMutation.mutate({ id: session.id, action: isRunning ? "pause" : "resume" });
+    }
   };
 
+  // Stopping early keeps the time already spent as a partial session
   const stopTimer = () => {
-    setIsRunning(false);
-    setTimeLeft(timerType === "work" ? workDuration : breakDuration);
+    if (session) {
+      controlMutation.mutate({ id: session.id, action: "stop" });
+    }
   };
 
   const resetTimer = () => {
-    setIsRunning(false);
+    stopTimer();
     setTimerType("work");
-    setTimeLeft(workDuration);
+    setCycle(1);
     setCurrentTaskId(null);
     setCurrentTaskTitle("");
   };
 
   const switchTimerType = (type: TimerType) => {
-    setIsRunning(false);
     setTimerType(type);
-    setTimeLeft(type === "work" ? workDuration : breakDuration);
   };
 
   const formatTime = (seconds: number) => {
@@ -167,8 +275,7 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
   };
 
   const getProgress = () => {
-    const total = timerType === "work" ? workDuration : breakDuration;
-    return ((total - timeLeft) / total) * 100;
+    return ((totalSeconds - timeLeft) / totalSeconds) * 100;
   };
 
   return (
@@ -183,21 +290,31 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
             <Button
               size="sm"
               onClick={() => switchTimerType("work")}
-              disabled={isRunning}
+              disabled={!!session}
               style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
               className="hover:opacity-90"
             >
-              25 min
+              {settings.workMinutes} min
             </Button>
             <Button
               size="sm"
               onClick={() => switchTimerType("break")}
-              disabled={isRunning}
+              disabled={!!session}
+              style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+              className="hover:opacity-90"
+            >
+              {settings.shortBreakMinutes} min
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => switchTimerType("long_break")}
+              disabled={!!session}
               style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
               className="hover:opacity-90"
             >
-              5 min
+              {settings.longBreakMinutes} min
             </Button>
+            <PomodoroSettingsDialog settings={settings} disabled={!!session} />
           </div>
         </div>
       </CardHeader>
@@ -218,7 +335,7 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
                   a 15.9155 15.9155 0 0 1 0 31.831
                   a 15.9155 15.9155 0 0 1 0 -31.831"
                 fill="none"
-                stroke={timerType === "work" ? "#8B5CF6" : "#10B981"}
+                stroke={activeType === "work" ? "#8B5CF6" : "#10B981"}
                 strokeWidth="3"
                 strokeDasharray={`${getProgress()}, 100`}
               />
@@ -232,16 +349,30 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
 
           <div className="space-y-3">
             <p className="text-sm text-muted-foreground">
-              {timerType === "work" 
+              {activeType === "work" 
                 ? currentTaskTitle 
                   ? `Working on: ${currentTaskTitle}`
                   : "Focus Session"
-                : "Break Time"
+                : activeType === "long_break" ? "Long Break" : "Break Time"
               }
             </p>
+            <div className="flex items-center justify-center space-x-2 text-xs text-muted-foreground">
+              <div className="flex space-x-1">
+                {Array.from({ length: cyclesPerSet }, (_, i) => (
+                  <span
+                    key={i}
+                    className={`w-2 h-2 rounded-full ${
+                      i + 1 < activeCycle || (i + 1 === activeCycle && activeType !== "work") ? "bg-accent" : i + 1 === activeCycle ? "bg-accent/50" : "bg-muted"
+                    }`}
+                  />
+                ))}
+              </div>
+              <span>Cycle {Math.min(activeCycle, cyclesPerSet)} of {cyclesPerSet}</span>
+            </div>
             <div className="flex items-center justify-center space-x-3">
               <Button
                 onClick={toggleTimer}
+                disabled={startMutation.isPending || controlMutation.isPending}
                 style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
                 className="hover:opacity-90"
               >
@@ -253,7 +384,7 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
                 ) : (
                   <>
                     <Play className="w-4 h-4 mr-2" />
-                    Start
+                    {session ? "Resume" : "Start"}
                   </>
                 )}
               </Button>
@@ -274,6 +405,63 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
                 Reset
               </Button>
             </div>
+
+            {session && activeType === "work" && (
+              <div className="flex items-center justify-center space-x-2 pt-1">
+                <Input
+                  value={interruptionNote}
+                  onChange={(e) => setInterruptionNote(e.target.value)}
+                  placeholder="What interrupted you? (optional)"
+                  className="h-8 max-w-[14rem] text-xs"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Log an internal interruption, like a stray thought"
+                  disabled={interruptionMutation.isPending}
+                  onClick={() => interruptionMutation.mutate({ id: session.id, kind: "internal" })}
+                >
+                  <Brain className="w-4 h-4 mr-1" />
+                  Internal
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Log an external interruption, like a call or message"
+                  disabled={interruptionMutation.isPending}
+                  onClick={() => interruptionMutation.mutate({ id: session.id, kind: "external" })}
+                >
+                  <Users className="w-4 h-4 mr-1" />
+                  External
+                </Button>
+                {interruptionCount > 0 && (
+                  <span className="text-xs text-muted-foreground">{interruptionCount} logged</span>
+                )}
+              </div>
+            )}
+
+            {ratingSessionId && (
+              <div className="flex items-center justify-center space-x-2 pt-1">
+                <span className="text-sm text-muted-foreground">How focused were you?</span>
+                <div className="flex space-x-1">
+                  {[1, 2, 3, 4, 5].map((level) => (
+                    <button
+                      key={level}
+                      type="button"
+                      aria-label={`Rate focus ${level} of 5`}
+                      disabled={ratingMutation.isPending}
+                      onClick={() => ratingMutation.mutate({ id: ratingSessionId, focusRating: level })}
+                      className="focus:outline-none"
+                    >
+                      <Star className="w-5 h-5 text-gray-300 hover:text-yellow-400" />
+                    </button>
+                  ))}
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => setRatingSessionId(null)}>
+                  Skip
+                </Button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -281,7 +469,7 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Today's Focus Time</span>
             <span className="font-medium text-foreground">
-              {stats?.totalFocusTime ? `${Math.floor(stats.totalFocusTime / 60)}h ${stats.totalFocusTime % 60}m` : "0h 0m"}
+              {stats?.totalFocusTime ? `${Math.floor(stats.totalFocusTime / 3600)}h ${Math.floor((stats.totalFocusTime % 3600) / 60)}m` : "0h 0m"}
             </span>
           </div>
           <div className="flex items-center justify-between text-sm mt-1">
@@ -290,6 +478,18 @@ export default function PomodoroTimer({ taskId, taskTitle }: PomodoroTimerProps)
               {stats?.completedPomodoros || 0}
             </span>
           </div>
+          <div className="flex items-center justify-between text-sm mt-1">
+            <span className="text-muted-foreground">Interruptions per Session</span>
+            <span className="font-medium text-foreground">
+              {stats?.sessions ? stats.interruptionRate : "–"}
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-sm mt-1">
+            <span className="text-muted-foreground">Average Focus</span>
+            <span className="font-medium text-foreground">
+              {stats?.averageFocus ? `${stats.averageFocus} / 5` : "–"}
+            </span>
+          </div>
         </div>
       </CardContent>
     </Card>
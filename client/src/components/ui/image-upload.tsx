@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Upload, X, Image as ImageIcon } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { uploadImageTypes } from "@shared/schema";
 
 interface ImageUploadProps {
   onImageUploaded: (imageUrl: string) => void;
@@ -11,68 +12,8 @@ interface ImageUploadProps {
   className?: string;
 }
 
-// Compress image to reduce file size and storage costs
-const compressImage = (file: File, maxWidth = 400, maxHeight = 300, quality = 0.8): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      reject(new Error('Canvas context not available'));
-      return;
-    }
-    
-    const img = new Image();
-    
-    img.onload = () => {
-      try {
-        // Calculate new dimensions while maintaining aspect ratio
-        let { width, height } = img;
-        
-        if (width > height) {
-          if (width > maxWidth) {
-            height = (height * maxWidth) / width;
-            width = maxWidth;
-          }
-        } else {
-          if (height > maxHeight) {
-            width = (width * maxHeight) / height;
-            height = maxHeight;
-          }
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        // Draw and compress
-        ctx.clearRect(0, 0, width, height);
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        canvas.toBlob((blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to create compressed blob'));
-          }
-        }, 'image/jpeg', quality);
-      } catch (error) {
-        reject(error);
-      }
-    };
-    
-    img.onerror = () => {
-      reject(new Error('Failed to load image for compression'));
-    };
-    
-    // Use createObjectURL for better mobile compatibility
-    const objectUrl = URL.createObjectURL(file);
-    img.src = objectUrl;
-    
-    // Clean up object URL after a timeout as fallback
-    setTimeout(() => {
-      URL.revokeObjectURL(objectUrl);
-    }, 10000);
-  });
-};
+// Matches the server's limit; it makes the smaller copies the board actually loads
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
 
 export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved, className }: ImageUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
@@ -85,20 +26,20 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
     if (!file) return;
 
     // Validate file type
-    if (!file.type.startsWith('image/')) {
+    if (!(uploadImageTypes as readonly string[]).includes(file.type)) {
       toast({
         title: "Invalid file type",
-        description: "Please select an image file (JPG, PNG, etc.)",
+        description: "Please select a JPG, PNG, WebP, GIF or AVIF image",
         variant: "destructive"
       });
       return;
     }
 
-    // Validate file size (max 5MB before compression)
-    if (file.size > 5 * 1024 * 1024) {
+    // Validate file size
+    if (file.size > MAX_IMAGE_BYTES) {
       toast({
         title: "File too large",
-        description: "Please select an image smaller than 5MB",
+        description: "Please select an image smaller than 10MB",
         variant: "destructive"
       });
       return;
@@ -107,28 +48,23 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
     try {
       setIsUploading(true);
 
-      // Compress the image
-      const compressedBlob = await compressImage(file);
-      
-      if (!compressedBlob) {
-        throw new Error("Failed to compress image");
-      }
-
       // Create preview
-      const previewUrl = URL.createObjectURL(compressedBlob);
+      const previewUrl = URL.createObjectURL(file);
       setPreviewUrl(previewUrl);
 
-      // Get upload URL from server
+      // Get upload URL from server; it checks the type, size and the user's storage quota first
       const response = await fetch('/api/objects/upload', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         credentials: 'include',
+        body: JSON.stringify({ contentType: file.type, size: file.size }),
       });
       
       if (!response.ok) {
-        throw new Error(`Server error: ${response.status}`);
+        const { message } = await response.json().catch(() => ({}));
+        throw new Error(message || `Server error: ${response.status}`);
       }
       
       const uploadResponse = await response.json();
@@ -138,12 +74,12 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
         throw new Error('No upload URL received from server');
       }
 
-      // Upload compressed image directly to object storage
+      // Upload the image directly to object storage
       const uploadResult = await fetch(uploadURL, {
         method: 'PUT',
-        body: compressedBlob,
+        body: file,
         headers: {
-          'Content-Type': 'image/jpeg',
+          'Content-Type': file.type,
         },
       });
 
@@ -152,7 +88,7 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
         throw new Error(`Upload failed: ${uploadResult.status} - ${errorText}`);
       }
 
-      // Update server with the uploaded image info
+      // Update server with the uploaded image info; it checks the image and makes the resized copies
       const updateResponse = await fetch('/api/vision-images', {
         method: 'PUT',
         headers: {
@@ -165,7 +101,8 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
       });
       
       if (!updateResponse.ok) {
-        throw new Error(`Server error: ${updateResponse.status}`);
+        const { error } = await updateResponse.json().catch(() => ({}));
+        throw new Error(error || `Server error: ${updateResponse.status}`);
       }
       
       const updateData = await updateResponse.json();
@@ -256,7 +193,7 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
               <>
                 <ImageIcon className="w-8 h-8 text-gray-400 mx-auto mb-2" />
                 <p className="text-sm text-gray-600">Click to upload image</p>
-                <p className="text-xs text-gray-400">JPG, PNG up to 5MB</p>
+                <p className="text-xs text-gray-400">JPG, PNG, WebP up to 10MB</p>
               </>
             )}
           </div>
@@ -266,7 +203,7 @@ export function ImageUpload({ onImageUploaded, currentImageUrl, onImageRemoved,
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={uploadImageTypes.join(",")}
         onChange={handleFileSelect}
         className="hidden"
         disabled={isUploading}
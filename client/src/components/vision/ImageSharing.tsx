@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showErrorNotification } from "@/lib/notifications";
+import type { CreatedShareLink, ObjectSharing, ObjectVisibility } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+const expiryOptions = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+interface ImageSharingProps {
+  objectPath: string;
+}
+
+// Visibility and expiring share links for one uploaded vision image
+export default function ImageSharing({ objectPath }: ImageSharingProps) {
+  const [expiresInHours, setExpiresInHours] = useState("24");
+  const [createdLink, setCreatedLink] = useState<CreatedShareLink | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const sharingKey = ["/api/objects/sharing", objectPath];
+  const { data: sharing } = useQuery<ObjectSharing>({
+    queryKey: sharingKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/objects/sharing?objectPath=${encodeURIComponent(objectPath)}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const handleMutationError = async (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    await showErrorNotification('vision_board', error, user?.id);
+  };
+
+  const visibilityMutation = useMutation({
+    mutationFn: async (visibility: ObjectVisibility) => {
+      await apiRequest("PATCH", "/api/objects/visibility", { objectPath, visibility });
+    },
+    onSuccess: (_data, visibility) => {
+      if (visibility === "private") {
+        setCreatedLink(null);
+      }
+      queryClient.invalidateQueries({ queryKey: sharingKey });
+    },
+    onError: handleMutationError,
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/objects/share-links", {
+        objectPath,
+        expiresInHours: Number(expiresInHours),
+      });
+      return (await res.json()) as CreatedShareLink;
+    },
+    onSuccess: (link) => {
+      setCreatedLink(link);
+      queryClient.invalidateQueries({ queryKey: sharingKey });
+    },
+    onError: handleMutationError,
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest("DELETE", `/api/objects/share-links/${linkId}`);
+    },
+    onSuccess: (_data, linkId) => {
+      if (createdLink?.id === linkId) {
+        setCreatedLink(null);
+      }
+      queryClient.invalidateQueries({ queryKey: sharingKey });
+    },
+    onError: handleMutationError,
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: "Anyone with this link can view the image until it expires." });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  // Images that aren't ours (or aren't uploads) have nothing to manage
+  if (!sharing) {
+    return null;
+  }
+
+  const isPublic = sharing.visibility === "public";
+
+  return (
+    <div className="p-3 rounded-lg border bg-muted/40 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-foreground">Share this image</p>
+          <p className="text-xs text-muted-foreground">
+            {isPublic ? "Anyone with a share link can view it." : "Only you can see it."}
+          </p>
+        </div>
+        <Switch
+          checked={isPublic}
+          disabled={visibilityMutation.isPending}
+          onCheckedChange={(checked) => visibilityMutation.mutate(checked ? "public" : "private")}
+          aria-label="Public"
+        />
+      </div>
+
+      {isPublic && (
+        <>
+          <div className="flex items-center gap-2">
+            <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.hours} value={String(option.hours)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => createLinkMutation.mutate()}
+              disabled={createLinkMutation.isPending}
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              Create Link
+            </Button>
+          </div>
+
+          {createdLink && (
+            <div className="flex items-center gap-2">
+              <Input value={createdLink.url} readOnly onFocus={(e) => e.currentTarget.select()} className="text-xs" />
+              <Button variant="outline" size="icon" onClick={() => copyLink(createdLink.url)} aria-label="Copy link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          {sharing.shareLinks.length > 0 && (
+            <ul className="space-y-1">
+              {sharing.shareLinks.map((link) => (
+                <li key={link.id} className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Link expires {formatDistanceToNow(new Date(link.expiresAt), { addSuffix: true })}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => revokeLinkMutation.mutate(link.id)}
+                    disabled={revokeLinkMutation.isPending}
+                  >
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
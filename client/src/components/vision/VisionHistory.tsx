@@ -0,0 +1,271 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showErrorNotification } from "@/lib/notifications";
+import type { TextDiffPart, VisionPlanDiff, VisionPlanRevision } from "@shared/schema";
+import { format } from "date-fns";
+
+interface VisionHistoryProps {
+  // Icon-only trigger, for card headers
+  compact?: boolean;
+}
+
+const diffPartClasses: Record<TextDiffPart["type"], string> = {
+  added: "bg-green-100 text-green-800 rounded-sm",
+  removed: "bg-red-100 text-red-800 line-through rounded-sm",
+  unchanged: "",
+};
+
+// Every saved version of the Life Compass, with what changed between two of them and a way back
+export default function VisionHistory({ compact = false }: VisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: revisions = [] } = useQuery<VisionPlanRevision[]>({
+    queryKey: ["/api/vision/revisions"],
+    enabled: isOpen,
+  });
+
+  const latest = revisions[0]?.revision ?? null;
+  const selectedRevision = revisions.find(r => r.revision === selected);
+  const earlierRevisions = revisions.filter(r => selected !== null && r.revision < selected);
+
+  // Open on the newest save, compared with the one before it
+  useEffect(() => {
+    if (isOpen && selected === null && latest !== null) {
+      setSelected(latest);
+    }
+  }, [isOpen, selected, latest]);
+
+  useEffect(() => {
+    setCompareTo(earlierRevisions[0]?.revision ?? null);
+  }, [selected]);
+
+  const { data: diff } = useQuery<VisionPlanDiff>({
+    queryKey: ["/api/vision/revisions/diff", compareTo, selected],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/vision/revisions/diff?from=${compareTo}&to=${selected}`);
+      return res.json();
+    },
+    enabled: isOpen && selected !== null && compareTo !== null,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      await apiRequest("POST", `/api/vision/revisions/${revision}/restore`);
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vision"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vision/revisions"] });
+      setSelected(null);
+      toast({
+        title: "Life Compass restored",
+        description: `Revision ${revision} is your current version again. Nothing was lost; it's saved as a new revision.`,
+      });
+    },
+    onError: async (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      await showErrorNotification('life_compass', error, user?.id);
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setSelected(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="sm" aria-label="History">
+            <History className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <History className="w-4 h-4 mr-2" />
+            History
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Life Compass History</DialogTitle>
+          <DialogDescription>See how your values, vision and purpose have evolved over time.</DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            Save your Life Compass to start its history.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4">
+            <ScrollArea className="h-[420px] md:border-r md:pr-3">
+              <ul className="space-y-1">
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelected(revision.revision)}
+                      className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors ${
+                        revision.revision === selected ? "bg-muted font-medium" : "hover:bg-muted/60"
+                      }`}
+                    >
+                      <span className="block">
+                        Revision {revision.revision}
+                        {revision.revision === latest && <span className="text-muted-foreground"> (current)</span>}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")}
+                      </span>
+                      {revision.restoredFrom && (
+                        <span className="block text-xs text-muted-foreground">Restored from revision {revision.restoredFrom}</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {selectedRevision && (
+              <ScrollArea className="h-[420px]">
+                <div className="space-y-5 pr-3">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    {earlierRevisions.length > 0 ? (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        Changes since
+                        <Select
+                          value={compareTo !== null ? String(compareTo) : undefined}
+                          onValueChange={(value) => setCompareTo(Number(value))}
+                        >
+                          <SelectTrigger className="w-40 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {earlierRevisions.map((revision) => (
+                              <SelectItem key={revision.id} value={String(revision.revision)}>
+                                Revision {revision.revision}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Your first saved version</p>
+                    )}
+                    {selectedRevision.revision !== latest && (
+                      <Button
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(selectedRevision.revision)}
+                        disabled={restoreMutation.isPending}
+                        style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+                        className="hover:opacity-90"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        {restoreMutation.isPending ? "Restoring..." : "Restore This Version"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {diff && compareTo !== null ? (
+                    <RevisionDiff diff={diff} />
+                  ) : (
+                    <RevisionContent revision={selectedRevision} />
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RevisionDiff({ diff }: { diff: VisionPlanDiff }) {
+  const { added, removed, unchanged } = diff.coreValues;
+  return (
+    <>
+      <section className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">Core Values</h4>
+        <div className="flex flex-wrap gap-2">
+          {unchanged.map((value) => (
+            <Badge key={`unchanged-${value}`} variant="secondary">{value}</Badge>
+          ))}
+          {added.map((value) => (
+            <Badge key={`added-${value}`} className="bg-green-100 text-green-800 hover:bg-green-100">+ {value}</Badge>
+          ))}
+          {removed.map((value) => (
+            <Badge key={`removed-${value}`} className="bg-red-100 text-red-800 line-through hover:bg-red-100">{value}</Badge>
+          ))}
+        </div>
+      </section>
+      <DiffSection title="3-Year Vision" parts={diff.threeYearVision} />
+      <DiffSection title="Why Engine" parts={diff.whyEngine} />
+    </>
+  );
+}
+
+function DiffSection({ title, parts }: { title: string; parts: TextDiffPart[] }) {
+  const changed = parts.some(part => part.type !== "unchanged");
+  return (
+    <section className="space-y-2">
+      <h4 className="text-sm font-semibold text-foreground">
+        {title}
+        {!changed && <span className="font-normal text-muted-foreground"> (unchanged)</span>}
+      </h4>
+      <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+        {parts.map((part, index) => (
+          <span key={index} className={diffPartClasses[part.type]}>{part.text}</span>
+        ))}
+      </p>
+    </section>
+  );
+}
+
+function RevisionContent({ revision }: { revision: VisionPlanRevision }) {
+  return (
+    <>
+      <section className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">Core Values</h4>
+        <div className="flex flex-wrap gap-2">
+          {(revision.coreValues ?? []).map((value) => (
+            <Badge key={value} variant="secondary">{value}</Badge>
+          ))}
+        </div>
+      </section>
+      <section className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">3-Year Vision</h4>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{revision.threeYearVision}</p>
+      </section>
+      <section className="space-y-2">
+        <h4 className="text-sm font-semibold text-foreground">Why Engine</h4>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{revision.whyEngine}</p>
+      </section>
+    </>
+  );
+}
@@ -16,6 +16,7 @@ import { showSuccessNotification, showErrorNotification } from "@/lib/notificati
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import type { VisionPlan } from "@shared/schema";
+import VisionHistory from "./VisionHistory";
 
 const visionFormSchema = z.object({
   coreValues: z.array(z.string()).min(1, "At least one core value is required"),
@@ -65,6 +66,7 @@ export default function VisionPlanningModule() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vision"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vision/revisions"] });
       setIsEditing(false);
       showSuccessNotification('life_compass');
     },
@@ -129,103 +131,106 @@ export default function VisionPlanningModule() {
             <Compass className="text-accent mr-2 w-5 h-5" />
             Life Compass
           </CardTitle>
-          <Dialog open={isEditing} onOpenChange={setIsEditing}>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="sm">
-                <Edit className="w-4 h-4" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Edit Life Compass</DialogTitle>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="coreValues"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Core Values</FormLabel>
-                        <div className="space-y-2">
-                          <div className="flex flex-wrap gap-2">
-                            {field.value.map((value, index) => (
-                              <Badge key={index} variant="secondary" className="flex items-center gap-1">
-                                {value}
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="sm"
-                                  className="h-4 w-4 p-0"
-                                  onClick={() => removeCoreValue(index)}
-                                >
-                                  <X className="w-3 h-3" />
-                                </Button>
-                              </Badge>
-                            ))}
+          <div className="flex items-center">
+            {visionPlan && <VisionHistory compact />}
+            <Dialog open={isEditing} onOpenChange={setIsEditing}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <Edit className="w-4 h-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Edit Life Compass</DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="coreValues"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Core Values</FormLabel>
+                          <div className="space-y-2">
+                            <div className="flex flex-wrap gap-2">
+                              {field.value.map((value, index) => (
+                                <Badge key={index} variant="secondary" className="flex items-center gap-1">
+                                  {value}
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-4 w-4 p-0"
+                                    onClick={() => removeCoreValue(index)}
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </Button>
+                                </Badge>
+                              ))}
+                            </div>
+                            <div className="flex gap-2">
+                              <Input
+                                placeholder="Add a core value"
+                                value={newValue}
+                                onChange={(e) => setNewValue(e.target.value)}
+                                onKeyPress={(e) => e.key === "Enter" && (e.preventDefault(), addCoreValue())}
+                              />
+                              <Button type="button" onClick={addCoreValue} size="sm">
+                                <Plus className="w-4 h-4" />
+                              </Button>
+                            </div>
                           </div>
-                          <div className="flex gap-2">
-                            <Input
-                              placeholder="Add a core value"
-                              value={newValue}
-                              onChange={(e) => setNewValue(e.target.value)}
-                              onKeyPress={(e) => e.key === "Enter" && (e.preventDefault(), addCoreValue())}
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="threeYearVision"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>3-Year Vision</FormLabel>
+                          <FormControl>
+                            <Textarea 
+                              placeholder="Describe your 3-year vision..."
+                              rows={4}
+                              {...field}
                             />
-                            <Button type="button" onClick={addCoreValue} size="sm">
-                              <Plus className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        </div>
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="threeYearVision"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>3-Year Vision</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Describe your 3-year vision..."
-                            rows={4}
-                            {...field}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="whyEngine"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Why Engine</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="What drives your purpose and motivation?"
-                            rows={3}
-                            {...field}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <div className="flex justify-end space-x-2">
-                    <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={mutation.isPending}>
-                      {mutation.isPending ? "Saving..." : "Save Changes"}
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="whyEngine"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Why Engine</FormLabel>
+                          <FormControl>
+                            <Textarea 
+                              placeholder="What drives your purpose and motivation?"
+                              rows={3}
+                              {...field}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={mutation.isPending}>
+                        {mutation.isPending ? "Saving..." : "Save Changes"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -5,10 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
-import { Calendar, ChevronRight, Edit, Plus } from "lucide-react";
+import { Calendar, ChevronRight, Edit, Plus, Target } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -16,8 +16,10 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { showSuccessNotification, showErrorNotification } from "@/lib/notifications";
-import type { WeeklyPlan } from "@shared/schema";
-import { format, startOfWeek, addDays } from "date-fns";
+import type { WeeklyPlan, QuarterlyQuest } from "@shared/schema";
+import { isActiveQuest } from "@shared/quests";
+import { format, startOfWeek, addDays, parseISO } from "date-fns";
+import { useSettings } from "@/hooks/useSettings";
 
 const prioritySchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -26,6 +28,7 @@ const prioritySchema = z.object({
 });
 
 const weeklyPlanSchema = z.object({
+  quarterlyQuestId: z.string().nullable().optional(),
   priorities: z.array(prioritySchema).max(3, "Maximum 3 priorities allowed"),
   reflection: z.object({
     wentWell: z.string().optional(),
@@ -37,11 +40,17 @@ type WeeklyPlanData = z.infer<typeof weeklyPlanSchema>;
 
 export default function WeeklyPlanningSystem() {
   const [isEditing, setIsEditing] = useState(false);
+  const { weekStartsOn, formatShortDate, today } = useSettings();
   const [currentWeekStart, setCurrentWeekStart] = useState(
-    startOfWeek(new Date(), { weekStartsOn: 1 })
+    startOfWeek(parseISO(today), { weekStartsOn })
   );
   const { toast } = useToast();
 
+  // Re-anchor the week once the user's week start and time zone are known
+  useEffect(() => {
+    setCurrentWeekStart(startOfWeek(parseISO(today), { weekStartsOn }));
+  }, [weekStartsOn, today]);
+
   const { data: user } = useQuery<{id: string}>({
     queryKey: ["/api/auth/user"],
     retry: false,
@@ -58,9 +67,18 @@ export default function WeeklyPlanningSystem() {
 
   const currentPlan = weeklyPlans?.[0];
 
+  const { data: quests } = useQuery<QuarterlyQuest[]>({
+    queryKey: ["/api/quarterly-quests"],
+    retry: false,
+  });
+
+  const activeQuests = quests?.filter(isActiveQuest) || [];
+  const linkedQuest = quests?.find(quest => quest.id === currentPlan?.quarterlyQuestId);
+
   const form = useForm<WeeklyPlanData>({
     resolver: zodResolver(weeklyPlanSchema),
     defaultValues: {
+      quarterlyQuestId: null,
       priorities: [
         { title: "", description: "", isCompleted: false },
         { title: "", description: "", isCompleted: false },
@@ -87,6 +105,7 @@ export default function WeeklyPlanningSystem() {
         : { wentWell: "", toImprove: "" };
       
       form.reset({
+        quarterlyQuestId: currentPlan.quarterlyQuestId,
         priorities,
         reflection,
       });
@@ -106,6 +125,7 @@ export default function WeeklyPlanningSystem() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/weekly-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
       setIsEditing(false);
       showSuccessNotification('weekly_planning');
     },
@@ -140,6 +160,7 @@ export default function WeeklyPlanningSystem() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/weekly-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -165,12 +186,8 @@ export default function WeeklyPlanningSystem() {
     setCurrentWeekStart(newDate);
   };
 
-  const calculateProgress = () => {
-    if (!currentPlan?.priorities || !Array.isArray(currentPlan.priorities)) return 0;
-    const completed = currentPlan.priorities.filter((p: any) => p?.isCompleted).length;
-    const total = currentPlan.priorities.filter((p: any) => p?.title?.trim()).length;
-    return total > 0 ? Math.round((completed / total) * 100) : 0;
-  };
+  // Rolled up on the server from checked priorities and their daily tasks
+  const weeklyProgress = currentPlan?.progress ?? 0;
 
   if (isLoading) {
     return (
@@ -205,7 +222,7 @@ export default function WeeklyPlanningSystem() {
               ←
             </Button>
             <span className="text-xs text-gray-500">
-              Week of {format(currentWeekStart, "MMM d")} - {format(addDays(currentWeekStart, 6), "MMM d")}
+              Week of {formatShortDate(currentWeekStart)} - {formatShortDate(addDays(currentWeekStart, 6))}
             </span>
             <Button variant="ghost" size="sm" onClick={() => navigateWeek("next")}>
               →
@@ -222,6 +239,34 @@ export default function WeeklyPlanningSystem() {
                 </DialogHeader>
                 <Form {...form}>
                   <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="quarterlyQuestId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Quest this week moves forward</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                            value={field.value ?? "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select a quest" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No linked quest</SelectItem>
+                              {activeQuests.map((quest) => (
+                                <SelectItem key={quest.id} value={quest.id}>
+                                  {quest.title}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+
                     <div>
                       <h3 className="font-medium text-gray-700 mb-3">
                         Top 3 Priorities - Week of {format(currentWeekStart, "MMMM do")} through {format(addDays(currentWeekStart, 6), "MMMM do")}
@@ -314,6 +359,13 @@ export default function WeeklyPlanningSystem() {
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
+          {linkedQuest && (
+            <div className="flex items-center space-x-2 text-sm text-orange-700">
+              <Target className="w-4 h-4" />
+              <span>Moving forward: {linkedQuest.title}</span>
+            </div>
+          )}
+
           {/* Top 3 Priorities Section */}
           <div>
             <h3 className="font-medium text-gray-700 mb-3">Top 3 Priorities</h3>
@@ -352,13 +404,13 @@ export default function WeeklyPlanningSystem() {
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-600">Weekly Progress</span>
               <span className="text-sm font-medium text-green-600">
-                {calculateProgress()}% complete
+                {weeklyProgress}% complete
               </span>
             </div>
             <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-200">
               <div 
                 className="h-full bg-green-500 transition-all duration-300 ease-in-out"
-                style={{ width: `${calculateProgress()}%` }}
+                style={{ width: `${weeklyProgress}%` }}
               />
             </div>
           </div>
@@ -368,7 +420,7 @@ export default function WeeklyPlanningSystem() {
             <div className="flex items-center justify-between mb-3">
               <h3 className="font-medium text-gray-700">Weekly Reflection</h3>
               <span className="text-xs text-gray-500">
-                Week of {format(addDays(currentWeekStart, -7), "MMM d")} - {format(addDays(currentWeekStart, -1), "MMM d")}
+                Week of {formatShortDate(addDays(currentWeekStart, -7))} - {formatShortDate(addDays(currentWeekStart, -1))}
               </span>
             </div>
             <div className="space-y-3">
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import type { VisionPlan, QuarterlyQuest } from "@shared/schema";
+import { isActiveQuest } from "@shared/quests";
 
 export interface OnboardingStep {
   id: string;
@@ -29,7 +30,7 @@ export function useOnboarding() {
   );
 
   const hasVisionBoard = hasLifeCompass; // For now, vision board builds on life compass
-  const hasQuarterlyQuests = !!(quarterlyQuests?.length && quarterlyQuests.some(q => q.isActive));
+  const hasQuarterlyQuests = !!(quarterlyQuests?.length && quarterlyQuests.some(isActiveQuest));
 
   const steps: OnboardingStep[] = [
     {
@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { UserSettings } from "@shared/schema";
+import { dateInTimeZone, deviceTimeZone } from "@shared/dates";
+
+export type Preferences = Omit<UserSettings, "userId" | "updatedAt">;
+
+type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Used until the user's saved settings load; mirrors the user_settings column defaults,
+// except that the time zone starts as the device's own
+export const DEFAULT_SETTINGS: Preferences = {
+  weekStartsOn: 1,
+  timeZone: deviceTimeZone(),
+  dateFormat: "MMM d",
+  defaultImpact: "medium",
+  theme: "light",
+  timerNotifications: true,
+  reminderNotifications: true,
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+  autoStartBreaks: false,
+  autoStartWork: false,
+};
+
+export function useSettings() {
+  const { data, isLoading } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  const settings: Preferences = data ?? DEFAULT_SETTINGS;
+
+  return {
+    settings,
+    isLoading,
+    weekStartsOn: settings.weekStartsOn as WeekDay,
+    // The current date in the user's time zone, used as "today" for tasks, reflections and stats
+    today: dateInTimeZone(new Date(), settings.timeZone),
+    formatShortDate: (date: Date) => format(date, settings.dateFormat),
+  };
+}
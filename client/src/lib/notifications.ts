@@ -1,14 +1,18 @@
 import { toast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
-type BlockType = 'life_compass' | 'weekly_planning' | 'quarterly_quest' | 'todays_focus' | 'daily_reflection';
+type BlockType = 'life_compass' | 'vision_board' | 'weekly_planning' | 'quarterly_quest' | 'todays_focus' | 'habits' | 'daily_reflection' | 'annual_review' | 'settings';
 
 const blockTitles: Record<BlockType, string> = {
   life_compass: 'Life Compass',
+  vision_board: 'Vision Board',
   weekly_planning: 'Weekly Planning',
   quarterly_quest: 'Quarterly Quest',
   todays_focus: "Today's Focus",
-  daily_reflection: 'Daily Reflection'
+  habits: 'Habits',
+  daily_reflection: 'Daily Reflection',
+  annual_review: 'Annual Review',
+  settings: 'Settings'
 };
 
 interface ErrorDetails {
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { BarChart3, Clock, CheckCircle, Zap, Target } from "lucide-react";
+import type { FocusTimeAnalytics, CompletionByImpact, EnergyTrendPoint, QuestProgressTimeline } from "@shared/schema";
+import AppLayout from "@/components/layout/AppLayout";
+import { useSettings } from "@/hooks/useSettings";
+import { format, parseISO, subDays } from "date-fns";
+
+const focusChartConfig = {
+  minutes: {
+    label: "Focus minutes",
+    color: "var(--secondary)",
+  },
+} satisfies ChartConfig;
+
+const completionChartConfig = {
+  rate: {
+    label: "Completion %",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+const energyChartConfig = {
+  energyLevel: {
+    label: "Energy",
+    color: "var(--neutral)",
+  },
+} satisfies ChartConfig;
+
+const questColors = [
+  "var(--color-eggplant)",
+  "var(--color-strawberry)",
+  "var(--color-blue-whale)",
+  "var(--color-grauzone)",
+];
+
+const rangeOptions = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+];
+
+// Fetches one /api/analytics endpoint for the selected range
+function useAnalytics<T>(endpoint: string, from: string, to: string) {
+  return useQuery<T>({
+    queryKey: ["/api/analytics", endpoint, from, to],
+    queryFn: () => fetch(`/api/analytics/${endpoint}?from=${from}&to=${to}`).then(res => res.json()),
+    retry: false,
+  });
+}
+
+export default function AnalyticsPage() {
+  const [rangeDays, setRangeDays] = useState("30");
+  const [focusGrouping, setFocusGrouping] = useState<"daily" | "weekly">("daily");
+  const { formatShortDate, today } = useSettings();
+
+  const to = today;
+  const from = format(subDays(parseISO(today), parseInt(rangeDays) - 1), "yyyy-MM-dd");
+
+  const { data: focus } = useAnalytics<FocusTimeAnalytics>("focus", from, to);
+  const { data: completion } = useAnalytics<CompletionByImpact[]>("completion", from, to);
+  const { data: energy } = useAnalytics<EnergyTrendPoint[]>("energy", from, to);
+  const { data: questTimelines } = useAnalytics<QuestProgressTimeline[]>("quest-progress", from, to);
+
+  const focusData = focusGrouping === "daily"
+    ? (focus?.daily ?? []).map(point => ({
+        label: formatShortDate(parseISO(point.date)),
+        minutes: Math.round(point.focusSeconds / 60),
+      }))
+    : (focus?.weekly ?? []).map(point => ({
+        label: `Wk of ${formatShortDate(parseISO(point.weekStart))}`,
+        minutes: Math.round(point.focusSeconds / 60),
+      }));
+  const totalFocusMinutes = focusData.reduce((sum, point) => sum + point.minutes, 0);
+
+  const completionData = (completion ?? []).map(row => ({
+    impact: row.impact.charAt(0).toUpperCase() + row.impact.slice(1),
+    rate: row.rate,
+    summary: `${row.completed}/${row.total}`,
+  }));
+
+  const energyData = (energy ?? [])
+    .filter(point => point.energyLevel !== null)
+    .map(point => ({
+      label: formatShortDate(parseISO(point.date)),
+      energyLevel: point.energyLevel,
+    }));
+
+  // One row per date with a column per quest, so each quest gets its own line
+  const timelines = questTimelines ?? [];
+  const questChartConfig = Object.fromEntries(
+    timelines.map((timeline, index) => [
+      timeline.questId,
+      { label: timeline.title, color: questColors[index % questColors.length] },
+    ])
+  ) satisfies ChartConfig;
+  const questDates = Array.from(new Set(timelines.flatMap(t => t.points.map(p => p.date)))).sort();
+  const questData = questDates.map(date => ({
+    label: formatShortDate(parseISO(date)),
+    ...Object.fromEntries(
+      timelines.map(timeline => [timeline.questId, timeline.points.find(p => p.date === date)?.progress])
+    ),
+  }));
+
+  const renderEmpty = (message: string) => (
+    <div className="h-56 flex items-center justify-center text-sm text-muted-foreground">{message}</div>
+  );
+
+  return (
+    <AppLayout showOnboarding={false}>
+      <div className="max-w-6xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 gradient-bg rounded-xl flex items-center justify-center">
+              <BarChart3 className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+              <p className="text-gray-600">See how your focus, follow-through and energy add up over time.</p>
+            </div>
+          </div>
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rangeOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Focus Time */}
+          <Card className="card-shadow">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center">
+                  <Clock className="text-accent mr-2 w-5 h-5" />
+                  Focus Time
+                </CardTitle>
+                <div className="flex items-center space-x-1">
+                  <Button size="sm" variant={focusGrouping === "daily" ? "default" : "outline"} onClick={() => setFocusGrouping("daily")}>
+                    Daily
+                  </Button>
+                  <Button size="sm" variant={focusGrouping === "weekly" ? "default" : "outline"} onClick={() => setFocusGrouping("weekly")}>
+                    Weekly
+                  </Button>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {Math.floor(totalFocusMinutes / 60)}h {totalFocusMinutes % 60}m focused in this period
+              </p>
+            </CardHeader>
+            <CardContent>
+              {totalFocusMinutes > 0 ? (
+                <ChartContainer config={focusChartConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={focusData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : renderEmpty("No focus sessions in this period yet.")}
+            </CardContent>
+          </Card>
+
+          {/* Completion by Impact */}
+          <Card className="card-shadow">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CheckCircle className="text-secondary mr-2 w-5 h-5" />
+                Completion by Impact
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {completionData.map(row => `${row.impact}: ${row.summary}`).join(" · ")}
+              </p>
+            </CardHeader>
+            <CardContent>
+              {completion?.some(row => row.total > 0) ? (
+                <ChartContainer config={completionChartConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={completionData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="impact" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="rate" fill="var(--color-rate)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : renderEmpty("No tasks in this period yet.")}
+            </CardContent>
+          </Card>
+
+          {/* Energy Trend */}
+          <Card className="card-shadow">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Zap className="text-neutral mr-2 w-5 h-5" />
+                Energy Levels
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">From your daily reflections</p>
+            </CardHeader>
+            <CardContent>
+              {energyData.length > 0 ? (
+                <ChartContainer config={energyChartConfig} className="h-56 w-full aspect-auto">
+                  <LineChart data={energyData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tickLine={false} axisLine={false} width={24} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="energyLevel" type="monotone" stroke="var(--color-energyLevel)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              ) : renderEmpty("No reflections with an energy level in this period yet.")}
+            </CardContent>
+          </Card>
+
+          {/* Quest Progress */}
+          <Card className="card-shadow">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Target className="text-primary mr-2 w-5 h-5" />
+                Quest Progress
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">How each quarterly quest moved</p>
+            </CardHeader>
+            <CardContent>
+              {questData.length > 0 ? (
+                <ChartContainer config={questChartConfig} className="h-56 w-full aspect-auto">
+                  <LineChart data={questData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {timelines.map(timeline => (
+                      <Line
+                        key={timeline.questId}
+                        dataKey={timeline.questId}
+                        type="stepAfter"
+                        stroke={`var(--color-${timeline.questId})`}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              ) : renderEmpty("No quest progress recorded in this period yet.")}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,477 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CalendarCheck, Target, Clock, CheckCircle, Zap, ArrowLeft, ArrowRight, Plus, X } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { showErrorNotification } from "@/lib/notifications";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useSettings } from "@/hooks/useSettings";
+import { annualReviewSchema, type AnnualReview, type AnnualReviewSummary, type VisionPlan } from "@shared/schema";
+import AppLayout from "@/components/layout/AppLayout";
+import { format, parseISO } from "date-fns";
+
+const reviewFormSchema = annualReviewSchema.omit({ year: true });
+
+type ReviewFormData = z.infer<typeof reviewFormSchema>;
+
+const steps = ["Your Year", "Highlights", "Life Compass", "Close the Year"];
+
+// Years offered for review: this one and the four before it, plus any reviewed earlier
+const YEARS_BACK = 4;
+
+export default function AnnualReviewPage() {
+  const { today } = useSettings();
+  const currentYear = Number(today.slice(0, 4));
+  // Early in the year the review most people want is of the year that just ended
+  const [year, setYear] = useState(() => (Number(today.slice(5, 7)) <= 3 ? currentYear - 1 : currentYear));
+
+  const { data: reviews = [] } = useQuery<AnnualReview[]>({
+    queryKey: ["/api/annual-reviews"],
+    retry: false,
+  });
+
+  const reviewedYears = new Set(reviews.map(review => review.year));
+  const years = Array.from(new Set([
+    ...Array.from({ length: YEARS_BACK + 1 }, (_, i) => currentYear - i),
+    ...reviews.map(review => review.year),
+  ])).sort((a, b) => b - a);
+  const savedReview = reviews.find(review => review.year === year);
+
+  return (
+    <AppLayout showOnboarding={false}>
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 gradient-bg rounded-xl flex items-center justify-center">
+              <CalendarCheck className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Annual Review</h1>
+              <p className="text-gray-600">Look back on your year, then set your Life Compass for the next one.</p>
+            </div>
+          </div>
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(option => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}{reviewedYears.has(option) ? " (reviewed)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {savedReview ? (
+          <SavedReview review={savedReview} />
+        ) : (
+          <ReviewWizard key={year} year={year} />
+        )}
+      </div>
+    </AppLayout>
+  );
+}
+
+function ReviewWizard({ year }: { year: number }) {
+  const [step, setStep] = useState(0);
+  const [newValue, setNewValue] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: summary, isLoading } = useQuery<AnnualReviewSummary>({
+    queryKey: ["/api/annual-reviews/summary", year],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/annual-reviews/summary?year=${year}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const { data: visionPlan } = useQuery<VisionPlan>({
+    queryKey: ["/api/vision"],
+    retry: false,
+  });
+
+  const form = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewFormSchema),
+    defaultValues: {
+      reflection: "",
+      coreValues: [],
+      threeYearVision: "",
+      whyEngine: "",
+    },
+  });
+
+  // Start from the current Life Compass; the review is the moment to revise it
+  useEffect(() => {
+    if (visionPlan) {
+      form.reset({
+        ...form.getValues(),
+        coreValues: visionPlan.coreValues || [],
+        threeYearVision: visionPlan.threeYearVision || "",
+        whyEngine: visionPlan.whyEngine || "",
+      });
+    }
+  }, [visionPlan, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: ReviewFormData) => {
+      await apiRequest("POST", "/api/annual-reviews", { ...data, year });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/annual-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vision"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vision/revisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
+      toast({
+        title: `${year} is reviewed`,
+        description: "Your Life Compass is updated and the year's quests are closed out.",
+      });
+    },
+    onError: async (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      await showErrorNotification('annual_review', error, user?.id);
+    },
+  });
+
+  const addCoreValue = () => {
+    const value = newValue.trim();
+    const currentValues = form.getValues("coreValues");
+    if (value && !currentValues.includes(value)) {
+      form.setValue("coreValues", [...currentValues, value], { shouldValidate: true });
+      setNewValue("");
+    }
+  };
+
+  const removeCoreValue = (index: number) => {
+    const currentValues = form.getValues("coreValues");
+    form.setValue("coreValues", currentValues.filter((_, i) => i !== index), { shouldValidate: true });
+  };
+
+  // The Life Compass step has to be valid before moving on to saving
+  const goNext = async () => {
+    if (step === 2 && !(await form.trigger(["coreValues", "threeYearVision", "whyEngine"]))) {
+      return;
+    }
+    setStep(step + 1);
+  };
+
+  if (isLoading || !summary) {
+    return (
+      <div className="animate-pulse space-y-8">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  // Quests running into next year stay open
+  const activeQuests = summary.quests.filter(quest => quest.status === "active" && quest.endDate <= `${year}-12-31`).length;
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <div className="flex flex-wrap items-center gap-2">
+          {steps.map((label, index) => (
+            <div key={label} className="flex items-center gap-2">
+              <span
+                className={`w-6 h-6 rounded-full text-xs flex items-center justify-center ${
+                  index <= step ? "bg-primary text-white" : "bg-gray-100 text-gray-500"
+                }`}
+              >
+                {index + 1}
+              </span>
+              <span className={`text-sm ${index === step ? "font-semibold text-gray-900" : "text-gray-500"}`}>{label}</span>
+              {index < steps.length - 1 && <span className="w-6 h-px bg-gray-200" />}
+            </div>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-6">
+            {step === 0 && <YearSummary summary={summary} />}
+
+            {step === 1 && (
+              <>
+                <ReflectionHighlights summary={summary} />
+                <FormField
+                  control={form.control}
+                  name="reflection"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-lg font-semibold">Looking Back</FormLabel>
+                      <p className="text-sm text-gray-600">
+                        What did {year} teach you? What are you proudest of, and what will you do differently?
+                      </p>
+                      <FormControl>
+                        <Textarea rows={6} className="resize-none" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 2 && (
+              <>
+                <p className="text-sm text-gray-600">
+                  Revisit your foundation with this year in mind. Whatever you save here becomes your current Life Compass.
+                </p>
+                <FormField
+                  control={form.control}
+                  name="coreValues"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-lg font-semibold">Core Values</FormLabel>
+                      <div className="flex flex-wrap gap-2 p-4 bg-gray-50 rounded-lg min-h-[60px]">
+                        {field.value.map((value, index) => (
+                          <Badge key={value} variant="secondary" className="flex items-center gap-1 bg-blue-100 text-blue-800 px-3 py-1">
+                            {value}
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-4 w-4 p-0 hover:bg-blue-200"
+                              onClick={() => removeCoreValue(index)}
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                          </Badge>
+                        ))}
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Add a core value"
+                          value={newValue}
+                          onChange={(e) => setNewValue(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && (e.preventDefault(), addCoreValue())}
+                          className="flex-1"
+                        />
+                        <Button type="button" onClick={addCoreValue} size="sm">
+                          <Plus className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="threeYearVision"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-lg font-semibold">3-Year Vision</FormLabel>
+                      <FormControl>
+                        <Textarea rows={5} className="resize-none" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="whyEngine"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-lg font-semibold">Why Engine</FormLabel>
+                      <FormControl>
+                        <Textarea rows={4} className="resize-none" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 3 && (
+              <div className="space-y-3 text-sm text-gray-700">
+                <p>Saving your review of {year} will:</p>
+                <ul className="list-disc pl-5 space-y-1">
+                  <li>keep a snapshot of this year's quests, highlights and totals that you can reopen any time;</li>
+                  {activeQuests > 0 && (
+                    <li>close out the {activeQuests} quest{activeQuests === 1 ? "" : "s"} from {year} that {activeQuests === 1 ? "is" : "are"} still active, as achieved, partial or abandoned by progress;</li>
+                  )}
+                  <li>make the Life Compass you just wrote your current one. The previous version stays in its history.</li>
+                </ul>
+                <p className="text-gray-500">Each year can be reviewed once.</p>
+              </div>
+            )}
+
+            <div className="flex justify-between pt-6 border-t">
+              <Button type="button" variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              {step < steps.length - 1 ? (
+                <Button type="button" onClick={goNext}>
+                  Next
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={mutation.isPending}
+                  style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+                  className="hover:opacity-90"
+                >
+                  {mutation.isPending ? "Saving..." : `Save ${year} Review`}
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// A review saved earlier, as it stood on the day it was written
+function SavedReview({ review }: { review: AnnualReview }) {
+  return (
+    <div className="space-y-8">
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl">Your {review.year}</CardTitle>
+          <p className="text-sm text-gray-500">Reviewed on {format(new Date(review.createdAt), "MMMM d, yyyy")}</p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <YearSummary summary={review.summary} />
+          <ReflectionHighlights summary={review.summary} />
+          {review.reflection && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-gray-900">Looking Back</h3>
+              <p className="text-gray-700 whitespace-pre-wrap">{review.reflection}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl">The Life Compass You Carried Forward</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(review.coreValues ?? []).map(value => (
+              <Badge key={value} variant="secondary" className="bg-blue-100 text-blue-800">{value}</Badge>
+            ))}
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">3-Year Vision</h3>
+            <p className="text-gray-700 whitespace-pre-wrap">{review.threeYearVision}</p>
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">Why Engine</h3>
+            <p className="text-gray-700 whitespace-pre-wrap">{review.whyEngine}</p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function YearSummary({ summary }: { summary: AnnualReviewSummary }) {
+  const { totals } = summary;
+  const stats = [
+    { icon: Target, label: "Quests completed", value: `${totals.questsCompleted} of ${summary.quests.length}` },
+    { icon: Clock, label: "Hours focused", value: `${Math.round(totals.focusSeconds / 3600)}`, detail: `${totals.pomodoros} sessions` },
+    { icon: CheckCircle, label: "Tasks completed", value: `${totals.completionRate}%`, detail: `${totals.tasksCompleted} of ${totals.tasksTotal}` },
+    { icon: Zap, label: "Average energy", value: totals.averageEnergy !== null ? `${totals.averageEnergy}/5` : "—", detail: `${totals.reflections} reflections` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-4 rounded-lg bg-gray-50">
+            <stat.icon className="w-5 h-5 text-primary mb-2" />
+            <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            {stat.detail && <p className="text-xs text-gray-400">{stat.detail}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold text-gray-900">Quests</h3>
+        {summary.quests.length === 0 ? (
+          <p className="text-sm text-gray-500">No quests were set for {summary.year}.</p>
+        ) : (
+          summary.quests.map(quest => (
+            <div key={quest.id} className="p-4 rounded-lg border space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">{quest.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {quest.quarter}
+                    {quest.status !== "active" && <span className="capitalize"> · {quest.status}</span>}
+                  </p>
+                </div>
+                <span className="text-sm font-medium text-gray-700">{quest.progress}%</span>
+              </div>
+              <Progress value={quest.progress} />
+              {quest.keyResults.length > 0 && (
+                <ul className="text-xs text-gray-600 space-y-0.5">
+                  {quest.keyResults.map((keyResult, index) => (
+                    <li key={index}>
+                      {keyResult.title}: {keyResult.currentValue} / {keyResult.targetValue}{keyResult.unit ? ` ${keyResult.unit}` : ""}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReflectionHighlights({ summary }: { summary: AnnualReviewSummary }) {
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-gray-900">Reflection Highlights</h3>
+      {summary.reflectionHighlights.length === 0 ? (
+        <p className="text-sm text-gray-500">No daily reflections were written in {summary.year}.</p>
+      ) : (
+        summary.reflectionHighlights.map(highlight => (
+          <div key={highlight.date} className="p-3 rounded-lg bg-gray-50">
+            <p className="text-xs text-gray-500 mb-1">
+              {format(parseISO(highlight.date), "MMMM d")}
+              {highlight.energyLevel ? ` · Energy ${highlight.energyLevel}/5` : ""}
+            </p>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{highlight.reflection}</p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import WeeklyPlanningSystem from "@/components/weekly/WeeklyPlanningSystem";
 import DailyTaskManager from "@/components/daily/DailyTaskManager";
 import PomodoroTimer from "@/components/timer/PomodoroTimer";
 import DailyReflection from "@/components/reflection/DailyReflection";
+import HabitTracker from "@/components/habits/HabitTracker";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
 import { Compass, Target, Calendar, CheckSquare, ArrowRight, Sparkles } from "lucide-react";
@@ -180,6 +181,9 @@ export default function Home() {
             <DailyReflection />
           </div>
         </div>
+
+        {/* Fourth Row: Habits */}
+        <HabitTracker />
       </div>
     </AppLayout>
   );
@@ -17,6 +17,7 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
 import type { VisionPlan } from "@shared/schema";
 import AppLayout from "@/components/layout/AppLayout";
+import VisionHistory from "@/components/vision/VisionHistory";
 
 const visionFormSchema = z.object({
   coreValues: z.array(z.string()).min(3, "At least 3 core values are required"),
@@ -66,6 +67,7 @@ export default function LifeCompassPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vision"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vision/revisions"] });
       showSuccessNotification('life_compass');
       toast({
         title: "Life Compass Saved!",
@@ -149,7 +151,10 @@ export default function LifeCompassPage() {
         {/* Main Form */}
         <Card className="card-shadow">
           <CardHeader>
-            <CardTitle className="text-xl">Build Your Foundation</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-xl">Build Your Foundation</CardTitle>
+              {visionPlan && <VisionHistory />}
+            </div>
           </CardHeader>
           <CardContent>
             <Form {...form}>
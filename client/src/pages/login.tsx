@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Compass } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { localRegistrationSchema, type AuthConfig, type LocalRegistration } from "@shared/schema";
+
+type Mode = "login" | "register";
+
+// Logging in only needs a password; the length rules are for new ones
+const loginFormSchema = localRegistrationSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
+// Server errors arrive as "<status>: <json body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("login");
+  const { toast } = useToast();
+
+  const { data: config } = useQuery<AuthConfig>({
+    queryKey: ["/api/auth/config"],
+  });
+
+  const form = useForm<LocalRegistration>({
+    resolver: zodResolver(mode === "register" ? localRegistrationSchema : loginFormSchema),
+    defaultValues: { email: "", password: "", firstName: "", lastName: "" },
+  });
+
+  const authMutation = useMutation({
+    mutationFn: async (data: LocalRegistration) => {
+      if (mode === "register") {
+        await apiRequest("POST", "/api/auth/register", data);
+      } else {
+        await apiRequest("POST", "/api/auth/login", { email: data.email, password: data.password });
+      }
+    },
+    onSuccess: () => {
+      window.location.href = "/";
+    },
+    onError: (error) => {
+      toast({
+        title: mode === "register" ? "Couldn't create your account" : "Couldn't log you in",
+        description: errorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    form.clearErrors();
+  };
+
+  const isLocal = config?.provider === "local";
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="card-shadow w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 mx-auto mb-4 gradient-bg rounded-lg flex items-center justify-center">
+            <Compass className="text-white w-6 h-6" />
+          </div>
+          <CardTitle className="text-2xl">
+            {mode === "register" ? "Create your InMotion account" : "Log in to InMotion"}
+          </CardTitle>
+          {isLocal && (
+            <CardDescription>
+              {mode === "register" ? "Start turning your vision into results." : "Welcome back."}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {config && !isLocal ? (
+            // Other providers log in through /api/login directly
+            <Button className="w-full" onClick={() => window.location.href = "/api/login"}>
+              Continue
+            </Button>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => authMutation.mutate(data))} className="space-y-4">
+                {mode === "register" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="firstName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>First name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="given-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="lastName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Last name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="family-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" autoComplete="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete={mode === "register" ? "new-password" : "current-password"}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full hover:opacity-90"
+                  disabled={authMutation.isPending}
+                  style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+                >
+                  {authMutation.isPending
+                    ? "Please wait..."
+                    : mode === "register" ? "Create Account" : "Log In"}
+                </Button>
+
+                {config?.registration && (
+                  <p className="text-sm text-center text-muted-foreground">
+                    {mode === "register" ? "Already have an account? " : "New to InMotion? "}
+                    <button
+                      type="button"
+                      className="text-primary font-medium hover:underline"
+                      onClick={() => switchMode(mode === "register" ? "login" : "register")}
+                    >
+                      {mode === "register" ? "Log in" : "Create an account"}
+                    </button>
+                  </p>
+                )}
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
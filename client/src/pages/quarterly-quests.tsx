@@ -8,7 +8,7 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Target, Plus, ArrowRight, CheckCircle, Calendar, TrendingUp, Lightbulb } from "lucide-react";
+import { Target, Plus, ArrowRight, CheckCircle, Calendar, TrendingUp, Lightbulb, Sparkles } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -17,20 +17,35 @@ import { showSuccessNotification, showErrorNotification } from "@/lib/notificati
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
-import type { VisionPlan, QuarterlyQuest } from "@shared/schema";
+import { useSettings } from "@/hooks/useSettings";
+import type { VisionPlan, QuarterlyQuest, QuarterlyReview as QuarterlyReviewRecord, QuestStatus, VisionCardWithQuests } from "@shared/schema";
+import { formatQuestPeriod, isActiveQuest, quarterOf } from "@shared/quests";
 import AppLayout from "@/components/layout/AppLayout";
+import QuestMeasures from "@/components/quarterly/QuestMeasures";
+import QuarterlyReview from "@/components/quarterly/QuarterlyReview";
+import HabitAdherence from "@/components/habits/HabitAdherence";
 
 const questFormSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
   goal: z.string().min(20, "Goal must be at least 20 characters"),
   plan: z.string().min(30, "Plan must be at least 30 characters"),
   systems: z.string().min(20, "Systems must be at least 20 characters"),
-  quarter: z.string().min(1, "Quarter is required"),
-  year: z.number().min(2024, "Invalid year"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "The quest must end after it starts",
+  path: ["endDate"],
 });
 
 type QuestFormData = z.infer<typeof questFormSchema>;
 
+const statusBadges: Record<QuestStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "text-green-700 border-green-200" },
+  achieved: { label: "Achieved", className: "text-green-700 border-green-200 bg-green-50" },
+  partial: { label: "Partially achieved", className: "text-amber-700 border-amber-200 bg-amber-50" },
+  abandoned: { label: "Abandoned", className: "text-gray-600 border-gray-200 bg-gray-50" },
+};
+
 export default function QuarterlyQuestsPage() {
   const [location, navigate] = useLocation();
   const [isCreating, setIsCreating] = useState(false);
@@ -46,33 +61,43 @@ export default function QuarterlyQuestsPage() {
     retry: false,
   });
 
+  const { data: visionCards = [] } = useQuery<VisionCardWithQuests[]>({
+    queryKey: ["/api/vision-cards"],
+    retry: false,
+  });
+
+  const { data: reviews = [] } = useQuery<QuarterlyReviewRecord[]>({
+    queryKey: ["/api/quarterly-reviews"],
+    retry: false,
+  });
+
   const { data: user } = useQuery<{id: string}>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
 
+  const { today } = useSettings();
+
   const hasLifeCompass = !!(
     visionPlan?.coreValues?.length &&
     visionPlan?.threeYearVision &&
     visionPlan?.whyEngine
   );
 
-  // Get current quarter
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentQuarter = Math.ceil((now.getMonth() + 1) / 3);
-  const quarters = ['Q1', 'Q2', 'Q3', 'Q4'];
+  // New quests run for the current quarter unless the user picks other dates
+  const currentQuarter = quarterOf(today);
+  const defaultValues: QuestFormData = {
+    title: "",
+    goal: "",
+    plan: "",
+    systems: "",
+    startDate: currentQuarter.start,
+    endDate: currentQuarter.end,
+  };
 
   const form = useForm<QuestFormData>({
     resolver: zodResolver(questFormSchema),
-    defaultValues: {
-      title: "",
-      goal: "",
-      plan: "",
-      systems: "",
-      quarter: `Q${currentQuarter}`,
-      year: currentYear,
-    },
+    defaultValues,
   });
 
   const createMutation = useMutation({
@@ -82,7 +107,7 @@ export default function QuarterlyQuestsPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
       setIsCreating(false);
-      form.reset();
+      form.reset(defaultValues);
       showSuccessNotification('quarterly_quest');
       toast({
         title: "Quest Created!",
@@ -105,25 +130,17 @@ export default function QuarterlyQuestsPage() {
     },
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<QuarterlyQuest> }) => {
-      await apiRequest("PATCH", `/api/quarterly-quests/${id}`, updates);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/quarterly-quests"] });
-    },
-  });
-
   const onSubmit = (data: QuestFormData) => {
     createMutation.mutate(data);
   };
 
-  const updateProgress = (questId: string, progress: number) => {
-    updateMutation.mutate({ id: questId, updates: { progress } });
-  };
-
-  const activeQuests = quests?.filter(q => q.isActive) || [];
+  const activeQuests = quests?.filter(isActiveQuest) || [];
   const hasActiveQuests = activeQuests.length > 0;
+  const closedQuests = quests?.filter(quest => !isActiveQuest(quest)) || [];
+  // Quests closed without a quarterly review, e.g. by an annual review
+  const unreviewedQuests = closedQuests.filter(quest =>
+    !reviews.some(review => review.outcomes.some(outcome => outcome.questId === quest.id))
+  );
 
   if (!hasLifeCompass) {
     return (
@@ -180,6 +197,11 @@ export default function QuarterlyQuestsPage() {
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
             Transform your vision into 90-day goals using the GPS method: Goal, Plan, Systems.
           </p>
+          {quests && (
+            <div className="flex justify-center">
+              <QuarterlyReview quests={quests} />
+            </div>
+          )}
         </div>
 
         {/* Vision Reference */}
@@ -202,14 +224,23 @@ export default function QuarterlyQuestsPage() {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <Badge variant="secondary" className="bg-orange-100 text-orange-800">
-                      {quest.quarter} {quest.year}
-                    </Badge>
-                    <Badge variant="outline" className="text-green-700 border-green-200">
-                      Active
+                      {formatQuestPeriod(quest.startDate, quest.endDate)}
                     </Badge>
+                    {quest.endDate < today ? (
+                      <Badge variant="outline" className="text-amber-700 border-amber-200">
+                        Ready to review
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className={statusBadges.active.className}>
+                        {statusBadges.active.label}
+                      </Badge>
+                    )}
                   </div>
-                  <div className="text-sm text-gray-500">
-                    {quest.progress}% Complete
+                  <div className="flex items-center space-x-3">
+                    <HabitAdherence questId={quest.id} />
+                    <div className="text-sm text-gray-500">
+                      {quest.progress}% Complete
+                    </div>
                   </div>
                 </div>
                 <CardTitle className="text-xl">{quest.title}</CardTitle>
@@ -251,20 +282,37 @@ export default function QuarterlyQuestsPage() {
                   </div>
                 </div>
 
-                {/* Progress Update */}
-                <div className="pt-4 border-t">
-                  <label className="block text-sm font-medium mb-2">Update Progress</label>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="range"
-                      min="0"
-                      max="100"
-                      value={quest.progress}
-                      onChange={(e) => updateProgress(quest.id, parseInt(e.target.value))}
-                      className="flex-1"
-                    />
-                    <span className="text-sm font-medium w-12">{quest.progress}%</span>
+                {/* Vision cards this quest serves */}
+                {visionCards.some(card => card.questIds.includes(quest.id)) && (
+                  <div className="p-3 bg-yellow-50 rounded-lg">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Sparkles className="w-4 h-4 text-yellow-600" />
+                      <span className="font-medium text-yellow-900">Serves Your Vision</span>
+                    </div>
+                    <div className="space-y-2">
+                      {visionCards
+                        .filter(card => card.questIds.includes(quest.id))
+                        .map(card => (
+                          <div key={card.id}>
+                            <p className="text-sm font-medium text-yellow-900">{card.title}</p>
+                            {card.coreValues && card.coreValues.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {card.coreValues.map(value => (
+                                  <Badge key={value} variant="secondary" className="text-xs bg-yellow-100 text-yellow-800">
+                                    {value}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                    </div>
                   </div>
+                )}
+
+                {/* Key Results & Milestones */}
+                <div className="pt-4 border-t">
+                  <QuestMeasures quest={quest} />
                 </div>
               </CardContent>
             </Card>
@@ -311,16 +359,12 @@ export default function QuarterlyQuestsPage() {
                       <div className="grid md:grid-cols-2 gap-4">
                         <FormField
                           control={form.control}
-                          name="quarter"
+                          name="startDate"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Quarter</FormLabel>
+                              <FormLabel>Starts</FormLabel>
                               <FormControl>
-                                <select {...field} className="w-full p-2 border rounded-md">
-                                  {quarters.map(q => (
-                                    <option key={q} value={q}>{q}</option>
-                                  ))}
-                                </select>
+                                <Input type="date" {...field} />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
@@ -329,18 +373,12 @@ export default function QuarterlyQuestsPage() {
 
                         <FormField
                           control={form.control}
-                          name="year"
+                          name="endDate"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Year</FormLabel>
+                              <FormLabel>Ends</FormLabel>
                               <FormControl>
-                                <Input 
-                                  type="number" 
-                                  min={2024} 
-                                  max={2030}
-                                  value={field.value}
-                                  onChange={(e) => field.onChange(parseInt(e.target.value) || currentYear)}
-                                />
+                                <Input type="date" {...field} />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
@@ -427,6 +465,77 @@ export default function QuarterlyQuestsPage() {
           </Card>
         </div>
 
+        {/* Past Quarters: closed quests and what the user took from each quarter */}
+        {(reviews.length > 0 || closedQuests.length > 0) && (
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">Past Quarters</h2>
+            {reviews.map((review) => (
+              <Card key={review.id} className="card-shadow">
+                <CardHeader>
+                  <CardTitle className="text-lg">{formatQuestPeriod(review.startDate, review.endDate)}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ul className="space-y-2">
+                    {review.outcomes.map((outcome) => (
+                      <li key={outcome.questId} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="text-foreground">{outcome.title}</span>
+                        <div className="flex items-center gap-2">
+                          {outcome.carriedOverTo && (
+                            <Badge variant="secondary" className="text-xs">Carried over</Badge>
+                          )}
+                          <Badge variant="outline" className={statusBadges[outcome.status].className}>
+                            {statusBadges[outcome.status].label} · {outcome.progress}%
+                          </Badge>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  {review.retrospective && (
+                    <div className="p-3 bg-blue-50 rounded-lg">
+                      <span className="font-medium text-blue-900">Retrospective</span>
+                      <p className="text-sm text-blue-800 mt-1 whitespace-pre-wrap">{review.retrospective}</p>
+                    </div>
+                  )}
+                  {review.lessonsLearned && (
+                    <div className="p-3 bg-yellow-50 rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <Lightbulb className="w-4 h-4 text-yellow-600" />
+                        <span className="font-medium text-yellow-900">Lessons Learned</span>
+                      </div>
+                      <p className="text-sm text-yellow-800 mt-1 whitespace-pre-wrap">{review.lessonsLearned}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+            {unreviewedQuests.length > 0 && (
+              <Card className="card-shadow">
+                <CardHeader>
+                  <CardTitle className="text-lg">Other Closed Quests</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {unreviewedQuests.map((quest) => {
+                      const badge = statusBadges[quest.status as QuestStatus] ?? statusBadges.abandoned;
+                      return (
+                        <li key={quest.id} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="text-foreground">
+                            {quest.title}
+                            <span className="text-muted-foreground"> · {formatQuestPeriod(quest.startDate, quest.endDate)}</span>
+                          </span>
+                          <Badge variant="outline" className={badge.className}>
+                            {badge.label} · {quest.progress ?? 0}%
+                          </Badge>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
         {/* Next Step */}
         {hasActiveQuests && (
           <Card className="bg-green-50 border-green-200">
@@ -0,0 +1,451 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Settings, Calendar, CheckCircle, Clock, Bell, Palette, Download } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { showSuccessNotification, showErrorNotification } from "@/lib/notifications";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useSettings, DEFAULT_SETTINGS } from "@/hooks/useSettings";
+import AppLayout from "@/components/layout/AppLayout";
+import DataImport from "@/components/settings/DataImport";
+import DeleteAccount from "@/components/settings/DeleteAccount";
+import { format } from "date-fns";
+import { deviceTimeZone } from "@shared/dates";
+import type { StorageUsage } from "@shared/schema";
+
+const settingsFormSchema = z.object({
+  weekStartsOn: z.string(),
+  timeZone: z.string().min(1, "Time zone is required"),
+  dateFormat: z.enum(["MMM d", "d MMM", "M/d", "d/M", "d.M."]),
+  defaultImpact: z.enum(["high", "medium", "low"]),
+  theme: z.enum(["light", "dark", "system"]),
+  timerNotifications: z.boolean(),
+  reminderNotifications: z.boolean(),
+  workMinutes: z.coerce.number().int().min(1, "At least 1 minute").max(180, "At most 180 minutes"),
+  shortBreakMinutes: z.coerce.number().int().min(1, "At least 1 minute").max(60, "At most 60 minutes"),
+  longBreakMinutes: z.coerce.number().int().min(1, "At least 1 minute").max(120, "At most 120 minutes"),
+  cyclesBeforeLongBreak: z.coerce.number().int().min(1, "At least 1 cycle").max(12, "At most 12 cycles"),
+  autoStartBreaks: z.boolean(),
+  autoStartWork: z.boolean(),
+});
+
+type SettingsFormData = z.infer<typeof settingsFormSchema>;
+
+const weekDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const dateFormats = ["MMM d", "d MMM", "M/d", "d/M", "d.M."] as const;
+
+const exportOptions = [
+  { format: "markdown", label: "Journal", description: "A readable Markdown journal of your reflections, quests and plans" },
+  { format: "csv", label: "Spreadsheets", description: "One CSV file per kind of record" },
+  { format: "json", label: "Full backup", description: "Everything in JSON, ready to import again" },
+];
+
+// Falls back to the saved zone alone on browsers without Intl.supportedValuesOf
+function availableTimeZones(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+function toFormValues(settings: typeof DEFAULT_SETTINGS): SettingsFormData {
+  return {
+    ...settings,
+    weekStartsOn: String(settings.weekStartsOn),
+    dateFormat: settings.dateFormat as SettingsFormData["dateFormat"],
+    defaultImpact: settings.defaultImpact as SettingsFormData["defaultImpact"],
+    theme: settings.theme as SettingsFormData["theme"],
+  };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function SettingsPage() {
+  const { settings, isLoading } = useSettings();
+  const { toast } = useToast();
+
+  const { data: user } = useQuery<{id: string}>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  const { data: storageUsage } = useQuery<StorageUsage>({
+    queryKey: ["/api/objects/usage"],
+  });
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: toFormValues(DEFAULT_SETTINGS),
+  });
+
+  useEffect(() => {
+    if (!isLoading) {
+      form.reset(toFormValues(settings));
+    }
+  }, [isLoading]);
+
+  const browserTimeZone = deviceTimeZone();
+  const timeZones = availableTimeZones(form.watch("timeZone"));
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SettingsFormData) => {
+      await apiRequest("PATCH", "/api/settings", {
+        ...data,
+        weekStartsOn: parseInt(data.weekStartsOn),
+      });
+    },
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      form.reset(data);
+      showSuccessNotification('settings');
+    },
+    onError: async (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      await showErrorNotification('settings', error, user?.id);
+    },
+  });
+
+  const onSubmit = (data: SettingsFormData) => {
+    saveMutation.mutate(data);
+  };
+
+  const renderSwitch = (name: "timerNotifications" | "reminderNotifications" | "autoStartBreaks" | "autoStartWork", label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between space-y-0">
+          <div>
+            <FormLabel>{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderNumber = (name: "workMinutes" | "shortBreakMinutes" | "longBreakMinutes" | "cyclesBeforeLongBreak", label: string, max: number) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" min={1} max={max} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <AppLayout showOnboarding={false}>
+        <div className="max-w-3xl mx-auto">
+          <div className="animate-pulse space-y-4">
+            <div className="h-12 bg-muted rounded"></div>
+            <div className="h-48 bg-muted rounded"></div>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout showOnboarding={false}>
+      <div className="max-w-3xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 gradient-bg rounded-xl flex items-center justify-center">
+            <Settings className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+            <p className="text-gray-600">Make InMotion fit the way you plan your days.</p>
+          </div>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Calendar */}
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Calendar className="text-primary mr-2 w-5 h-5" />
+                  Calendar
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="weekStartsOn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Week starts on</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {weekDays.map((day, index) => (
+                            <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="timeZone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time zone</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {timeZones.map((zone) => (
+                            <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {browserTimeZone && field.value !== browserTimeZone && (
+                        <FormDescription>
+                          Your browser reports {browserTimeZone}.{" "}
+                          <button
+                            type="button"
+                            className="text-primary hover:underline"
+                            onClick={() => form.setValue("timeZone", browserTimeZone, { shouldDirty: true })}
+                          >
+                            Use it
+                          </button>
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="dateFormat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date format</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {dateFormats.map((pattern) => (
+                            <SelectItem key={pattern} value={pattern}>
+                              {format(new Date(), pattern)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Tasks */}
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CheckCircle className="text-secondary mr-2 w-5 h-5" />
+                  Tasks
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="defaultImpact"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default impact for new tasks</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="high">High Impact</SelectItem>
+                          <SelectItem value="medium">Medium Impact</SelectItem>
+                          <SelectItem value="low">Low Impact</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Timer */}
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Clock className="text-accent mr-2 w-5 h-5" />
+                  Focus Timer
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {renderNumber("workMinutes", "Focus (minutes)", 180)}
+                  {renderNumber("shortBreakMinutes", "Short break (minutes)", 60)}
+                  {renderNumber("longBreakMinutes", "Long break (minutes)", 120)}
+                  {renderNumber("cyclesBeforeLongBreak", "Cycles before long break", 12)}
+                </div>
+                {renderSwitch("autoStartBreaks", "Start breaks automatically", "Begin the break as soon as a focus session ends.")}
+                {renderSwitch("autoStartWork", "Start focus sessions automatically", "Begin the next focus session when a break ends.")}
+              </CardContent>
+            </Card>
+
+            {/* Notifications */}
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Bell className="text-neutral mr-2 w-5 h-5" />
+                  Notifications
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {renderSwitch("timerNotifications", "Timer alerts", "Show a browser notification when a session ends.")}
+                {renderSwitch("reminderNotifications", "Planning reminders", "Remind me about weekly plans, reflections and quests.")}
+              </CardContent>
+            </Card>
+
+            {/* Appearance */}
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Palette className="text-primary mr-2 w-5 h-5" />
+                  Appearance
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="theme"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Theme</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="light">Light</SelectItem>
+                          <SelectItem value="dark">Dark</SelectItem>
+                          <SelectItem value="system">Match my system</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!form.formState.isDirty}
+                onClick={() => form.reset(toFormValues(settings))}
+              >
+                Discard Changes
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending || !form.formState.isDirty}
+                style={{ backgroundColor: '#1E3442', color: 'white', borderColor: '#1E3442' }}
+                className="hover:opacity-90"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {/* Your Data */}
+        <Card className="card-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Download className="text-primary mr-2 w-5 h-5" />
+              Your Data
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Export everything you've recorded in InMotion as a zip file.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {exportOptions.map((option) => (
+                <Button key={option.format} variant="outline" asChild className="h-auto py-3 flex-col items-start">
+                  <a href={`/api/export?format=${option.format}`} download>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="text-xs text-muted-foreground font-normal whitespace-normal text-left">{option.description}</span>
+                  </a>
+                </Button>
+              ))}
+            </div>
+            {storageUsage && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Image storage</span>
+                  <span className="text-foreground">
+                    {formatMegabytes(storageUsage.usedBytes)} of {formatMegabytes(storageUsage.quotaBytes)}
+                  </span>
+                </div>
+                <Progress value={Math.min(100, (storageUsage.usedBytes / storageUsage.quotaBytes) * 100)} />
+              </div>
+            )}
+            <Separator />
+            <DataImport />
+            <Separator />
+            <DeleteAccount />
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,27 +1,30 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Sparkles, Plus, ArrowRight, CheckCircle, Target, Heart, Star, Edit, X, Image } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Sparkles, Plus, ArrowRight, CheckCircle, Target, Heart, Star, Edit, X, Image, Flag } from "lucide-react";
 import { useLocation } from "wouter";
-import type { VisionPlan } from "@shared/schema";
+import type { VisionPlan, VisionCardWithQuests, QuarterlyQuest } from "@shared/schema";
+import { formatQuestPeriod } from "@shared/quests";
 import AppLayout from "@/components/layout/AppLayout";
 import { ImageUpload } from "@/components/ui/image-upload";
+import ImageSharing from "@/components/vision/ImageSharing";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { showErrorNotification, showDeleteSuccessNotification, showDeleteErrorNotification } from "@/lib/notifications";
 
-interface VisionCard {
-  id: string;
-  title: string;
-  description: string;
-  category: 'career' | 'health' | 'relationships' | 'personal' | 'financial';
-  position: { x: number; y: number };
-  imageUrl?: string;
-}
+type VisionCategory = 'career' | 'health' | 'relationships' | 'personal' | 'financial';
+
+type VisionCard = VisionCardWithQuests;
 
-const categoryIcons = {
+const categoryIcons: Record<VisionCategory, typeof Target> = {
   career: Target,
   health: Heart,
   relationships: Heart,
@@ -29,7 +32,7 @@ const categoryIcons = {
   financial: Target,
 };
 
-const categoryColors = {
+const categoryColors: Record<VisionCategory, string> = {
   career: 'bg-blue-100 text-blue-800 border-blue-200',
   health: 'bg-green-100 text-green-800 border-green-200',
   relationships: 'bg-pink-100 text-pink-800 border-pink-200',
@@ -53,51 +56,151 @@ const generateInitialPosition = (index: number): { x: number; y: number } => {
   };
 };
 
+interface CardLinkFieldsProps {
+  coreValues: string[];
+  quests: QuarterlyQuest[];
+  selectedValues: string[];
+  selectedQuestIds: string[];
+  onValuesChange: (values: string[]) => void;
+  onQuestIdsChange: (questIds: string[]) => void;
+}
+
+// Core value tags and quest links shared by the create and edit dialogs
+function CardLinkFields({ coreValues, quests, selectedValues, selectedQuestIds, onValuesChange, onQuestIdsChange }: CardLinkFieldsProps) {
+  const toggle = (list: string[], item: string) =>
+    list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  return (
+    <>
+      {coreValues.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium mb-2">Core Values</span>
+          <div className="flex flex-wrap gap-2">
+            {coreValues.map((value) => (
+              <Badge
+                key={value}
+                variant={selectedValues.includes(value) ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => onValuesChange(toggle(selectedValues, value))}
+              >
+                {value}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+      {quests.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium mb-2">Quests Serving This Vision</span>
+          <div className="space-y-2 max-h-32 overflow-y-auto">
+            {quests.map((quest) => (
+              <label key={quest.id} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selectedQuestIds.includes(quest.id)}
+                  onCheckedChange={() => onQuestIdsChange(toggle(selectedQuestIds, quest.id))}
+                />
+                <span>{quest.title}</span>
+                <span className="text-xs text-gray-500">{formatQuestPeriod(quest.startDate, quest.endDate)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
 export default function VisionBoardPage() {
   const [location, navigate] = useLocation();
-  const [visionCards, setVisionCards] = useState<VisionCard[]>([
-    {
-      id: '1',
-      title: 'Dream Career',
-      description: 'Leading a team that creates meaningful impact',
-      category: 'career',
-      position: generateInitialPosition(0),
-      imageUrl: undefined
-    },
-    {
-      id: '2',
-      title: 'Vibrant Health',
-      description: 'Feeling energetic and strong every day',
-      category: 'health',
-      position: generateInitialPosition(1),
-      imageUrl: undefined
-    },
-    {
-      id: '3',
-      title: 'Deep Relationships',
-      description: 'Surrounded by people who truly understand me',
-      category: 'relationships',
-      position: generateInitialPosition(2),
-      imageUrl: undefined
-    },
-  ]);
-
   const [editingCard, setEditingCard] = useState<VisionCard | null>(null);
   const [newCard, setNewCard] = useState({
     title: '',
     description: '',
-    category: 'personal' as const,
-    imageUrl: ''
+    category: 'personal' as VisionCategory,
+    imageUrl: '',
+    coreValues: [] as string[],
+    questIds: [] as string[],
   });
+  const [activeValue, setActiveValue] = useState<string | null>(null);
+  const [showOnlyMatching, setShowOnlyMatching] = useState(false);
   const [isAddingCard, setIsAddingCard] = useState(false);
   const [draggedCard, setDraggedCard] = useState<string | null>(null);
   const [touchOffset, setTouchOffset] = useState<{ x: number; y: number } | null>(null);
+  // Where the dragged card started, so a plain click doesn't save an unchanged position
+  const [dragOrigin, setDragOrigin] = useState<{ x: number; y: number } | null>(null);
+  const { toast } = useToast();
 
   const { data: visionPlan } = useQuery<VisionPlan>({
     queryKey: ["/api/vision"],
     retry: false,
   });
 
+  const { data: visionCards = [] } = useQuery<VisionCard[]>({
+    queryKey: ["/api/vision-cards"],
+    retry: false,
+  });
+
+  const { data: quests = [] } = useQuery<QuarterlyQuest[]>({
+    queryKey: ["/api/quarterly-quests"],
+    retry: false,
+  });
+
+  const { data: user } = useQuery<{id: string}>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  const handleMutationError = async (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    await showErrorNotification('vision_board', error, user?.id);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (card: Omit<VisionCard, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
+      await apiRequest("POST", "/api/vision-cards", card);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vision-cards"] });
+      setNewCard({ title: '', description: '', category: 'personal', imageUrl: '', coreValues: [], questIds: [] });
+      setIsAddingCard(false);
+    },
+    onError: handleMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<VisionCard> }) => {
+      await apiRequest("PATCH", `/api/vision-cards/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vision-cards"] });
+    },
+    onError: handleMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/vision-cards/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vision-cards"] });
+      showDeleteSuccessNotification("Vision card");
+    },
+    onError: async (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vision-cards"] });
+      await showDeleteErrorNotification("Vision card", error, user?.id);
+    },
+  });
+
   const hasLifeCompass = !!(
     visionPlan?.coreValues?.length &&
     visionPlan?.threeYearVision &&
@@ -108,6 +211,8 @@ export default function VisionBoardPage() {
   const handlePointerDown = (e: React.PointerEvent, cardId: string) => {
     e.preventDefault();
     setDraggedCard(cardId);
+    const card = visionCards.find(c => c.id === cardId);
+    setDragOrigin(card ? { x: card.positionX, y: card.positionY } : null);
     
     const rect = e.currentTarget.getBoundingClientRect();
     const offsetX = e.clientX - rect.left;
@@ -129,15 +234,15 @@ export default function VisionBoardPage() {
     const x = e.clientX - containerRect.left - touchOffset.x;
     const y = e.clientY - containerRect.top - touchOffset.y;
 
-    setVisionCards(cards =>
+    // Move the card in the cached list so dragging stays smooth; the
+    // position is persisted once when the pointer is released.
+    queryClient.setQueryData<VisionCard[]>(["/api/vision-cards"], (cards = []) =>
       cards.map(card =>
         card.id === draggedCard
           ? { 
               ...card, 
-              position: { 
-                x: Math.max(0, Math.min(x, containerRect.width - 192)), 
-                y: Math.max(0, Math.min(y, containerRect.height - 200)) 
-              } 
+              positionX: Math.round(Math.max(0, Math.min(x, containerRect.width - 192))), 
+              positionY: Math.round(Math.max(0, Math.min(y, containerRect.height - 200))) 
             }
           : card
       )
@@ -146,46 +251,62 @@ export default function VisionBoardPage() {
 
   const handlePointerUp = (e: React.PointerEvent) => {
     e.preventDefault();
+    const movedCard = visionCards.find(card => card.id === draggedCard);
+    if (movedCard && (movedCard.positionX !== dragOrigin?.x || movedCard.positionY !== dragOrigin?.y)) {
+      updateMutation.mutate({
+        id: movedCard.id,
+        updates: { positionX: movedCard.positionX, positionY: movedCard.positionY },
+      });
+    }
     setDraggedCard(null);
     setTouchOffset(null);
+    setDragOrigin(null);
     e.currentTarget.releasePointerCapture(e.pointerId);
   };
 
   const addVisionCard = () => {
     if (newCard.title && newCard.description) {
-      const newCardObj: VisionCard = {
-        id: Date.now().toString(),
+      const position = generateInitialPosition(visionCards.length);
+      createMutation.mutate({
         title: newCard.title,
         description: newCard.description,
         category: newCard.category,
-        imageUrl: newCard.imageUrl || undefined,
-        position: generateInitialPosition(visionCards.length)
-      };
-      setVisionCards([...visionCards, newCardObj]);
-      setNewCard({ title: '', description: '', category: 'personal', imageUrl: '' });
-      setIsAddingCard(false);
+        imageUrl: newCard.imageUrl || null,
+        coreValues: newCard.coreValues,
+        questIds: newCard.questIds,
+        positionX: position.x,
+        positionY: position.y,
+      });
     }
   };
 
   const updateVisionCard = () => {
     if (editingCard) {
-      setVisionCards(cards =>
-        cards.map(card =>
-          card.id === editingCard.id ? editingCard : card
-        )
-      );
+      const { title, description, category, imageUrl, coreValues, questIds } = editingCard;
+      updateMutation.mutate({
+        id: editingCard.id,
+        updates: { title, description, category, imageUrl, coreValues, questIds },
+      });
       setEditingCard(null);
     }
   };
 
   const removeCard = (cardId: string) => {
-    setVisionCards(cards => cards.filter(card => card.id !== cardId));
+    queryClient.setQueryData<VisionCard[]>(["/api/vision-cards"], (cards = []) =>
+      cards.filter(card => card.id !== cardId)
+    );
+    deleteMutation.mutate(cardId);
   };
 
   const startEditing = (card: VisionCard) => {
     setEditingCard({ ...card });
   };
 
+  const matchesActiveValue = (card: VisionCard) =>
+    !activeValue || !!card.coreValues?.includes(activeValue);
+
+  const visibleCards = showOnlyMatching ? visionCards.filter(matchesActiveValue) : visionCards;
+
   if (!hasLifeCompass) {
     return (
       <AppLayout>
@@ -230,14 +351,25 @@ export default function VisionBoardPage() {
           <CardHeader>
             <CardTitle className="text-lg text-blue-900">Your Core Values</CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-3">
             <div className="flex flex-wrap gap-2">
               {visionPlan?.coreValues?.map((value: string, index: number) => (
-                <Badge key={index} variant="secondary" className="bg-blue-100 text-blue-800">
+                <Badge
+                  key={index}
+                  variant="secondary"
+                  className={`cursor-pointer ${activeValue === value ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-blue-100 text-blue-800'}`}
+                  onClick={() => setActiveValue(activeValue === value ? null : value)}
+                >
                   {value}
                 </Badge>
               ))}
             </div>
+            {activeValue && (
+              <label className="flex items-center space-x-2 text-sm text-blue-900">
+                <Switch checked={showOnlyMatching} onCheckedChange={setShowOnlyMatching} />
+                <span>Only show cards tagged "{activeValue}"</span>
+              </label>
+            )}
           </CardContent>
         </Card>
 
@@ -282,12 +414,20 @@ export default function VisionBoardPage() {
                     currentImageUrl={newCard.imageUrl}
                     onImageRemoved={() => setNewCard({ ...newCard, imageUrl: '' })}
                   />
+                  <CardLinkFields
+                    coreValues={visionPlan?.coreValues || []}
+                    quests={quests}
+                    selectedValues={newCard.coreValues}
+                    selectedQuestIds={newCard.questIds}
+                    onValuesChange={(coreValues) => setNewCard({ ...newCard, coreValues })}
+                    onQuestIdsChange={(questIds) => setNewCard({ ...newCard, questIds })}
+                  />
                   <div>
                     <label htmlFor="create-category" className="block text-sm font-medium mb-2">Category</label>
                     <select
                       id="create-category"
                       value={newCard.category}
-                      onChange={(e) => setNewCard({ ...newCard, category: e.target.value as any })}
+                      onChange={(e) => setNewCard({ ...newCard, category: e.target.value as VisionCategory })}
                       className="w-full p-2 border rounded-md"
                     >
                       <option value="career">Career</option>
@@ -301,7 +441,7 @@ export default function VisionBoardPage() {
                     <Button variant="outline" onClick={() => setIsAddingCard(false)}>
                       Cancel
                     </Button>
-                    <Button onClick={addVisionCard}>
+                    <Button onClick={addVisionCard} disabled={createMutation.isPending}>
                       Create Card
                     </Button>
                   </div>
@@ -313,9 +453,12 @@ export default function VisionBoardPage() {
             <div className="relative w-full h-[700px] bg-gradient-to-br from-blue-50 to-purple-50 rounded-lg border-2 border-dashed border-gray-300 overflow-hidden touch-none">
               <div className="absolute inset-0 bg-pattern opacity-5"></div>
               
-              {visionCards.map((card) => {
-                const Icon = categoryIcons[card.category];
-                const colorClass = categoryColors[card.category];
+              {visibleCards.map((card) => {
+                const isHighlighted = !!activeValue && matchesActiveValue(card);
+                const isDimmed = !!activeValue && !isHighlighted;
+                const linkedQuests = quests.filter(quest => card.questIds.includes(quest.id));
+                const Icon = categoryIcons[card.category as VisionCategory] ?? Star;
+                const colorClass = categoryColors[card.category as VisionCategory] ?? categoryColors.personal;
                 
                 return (
                   <div
@@ -326,11 +469,13 @@ export default function VisionBoardPage() {
                     className={`
                       absolute w-48 bg-white rounded-lg shadow-md cursor-move transform transition-transform hover:scale-105 hover:shadow-lg border-l-4 overflow-hidden
                       ${draggedCard === card.id ? 'opacity-80 scale-105 z-50' : 'z-10'}
+                      ${isHighlighted ? 'ring-2 ring-blue-500' : ''}
+                      ${isDimmed ? 'opacity-40' : ''}
                       ${colorClass.split(' ')[2]} // border color
                     `}
                     style={{
-                      left: card.position.x,
-                      top: card.position.y,
+                      left: card.positionX,
+                      top: card.positionY,
                       touchAction: 'none',
                     }}
                   >
@@ -393,12 +538,22 @@ export default function VisionBoardPage() {
                       <p className="text-xs text-gray-600 line-clamp-2 leading-relaxed">
                         {card.description}
                       </p>
+                      {linkedQuests.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          {linkedQuests.map((quest) => (
+                            <div key={quest.id} className="flex items-center text-xs text-orange-700">
+                              <Flag className="w-3 h-3 mr-1 flex-shrink-0" />
+                              <span className="truncate">{quest.title}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
               })}
               
-              {visionCards.length === 0 && (
+              {visibleCards.length === 0 && (
                 <div className="absolute inset-0 flex items-center justify-center">
                   <div className="text-center text-gray-400">
                     <Sparkles className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -438,8 +593,19 @@ export default function VisionBoardPage() {
                 </div>
                 <ImageUpload
                   onImageUploaded={(imageUrl) => setEditingCard({ ...editingCard, imageUrl })}
-                  currentImageUrl={editingCard.imageUrl}
-                  onImageRemoved={() => setEditingCard({ ...editingCard, imageUrl: undefined })}
+                  currentImageUrl={editingCard.imageUrl ?? undefined}
+                  onImageRemoved={() => setEditingCard({ ...editingCard, imageUrl: null })}
+                />
+                {editingCard.imageUrl?.startsWith('/objects/') && (
+                  <ImageSharing objectPath={editingCard.imageUrl} />
+                )}
+                <CardLinkFields
+                  coreValues={visionPlan?.coreValues || []}
+                  quests={quests}
+                  selectedValues={editingCard.coreValues || []}
+                  selectedQuestIds={editingCard.questIds}
+                  onValuesChange={(coreValues) => setEditingCard({ ...editingCard, coreValues })}
+                  onQuestIdsChange={(questIds) => setEditingCard({ ...editingCard, questIds })}
                 />
                 <div>
                   <label htmlFor="edit-category" className="block text-sm font-medium mb-2">Category</label>
@@ -0,0 +1,63 @@
+-- Quests move from a quarter label, a year and is_active to a date range and a status.
+-- Applied once by server/migrate.ts before `drizzle-kit push`. It only acts on a database that
+-- still has the old columns, so it does nothing on new databases.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'quarterly_quests' AND column_name = 'quarter'
+  ) THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE quarterly_quests
+    ADD COLUMN IF NOT EXISTS start_date date,
+    ADD COLUMN IF NOT EXISTS end_date date,
+    ADD COLUMN IF NOT EXISTS status varchar NOT NULL DEFAULT 'active';
+
+  -- "Q1" or "Q1 2024" covers that calendar quarter; anything else covers the whole year
+  UPDATE quarterly_quests
+  SET
+    start_date = make_date(year, coalesce((substring(quarter from '[Qq]([1-4])'))::int * 3 - 2, 1), 1),
+    end_date = (
+      make_date(year, coalesce((substring(quarter from '[Qq]([1-4])'))::int * 3 - 2, 1), 1)
+      + CASE WHEN quarter ~ '[Qq][1-4]' THEN interval '3 months' ELSE interval '12 months' END
+      - interval '1 day'
+    )::date,
+    status = CASE
+      WHEN coalesce(is_active, true) THEN 'active'
+      WHEN coalesce(progress, 0) >= 100 THEN 'achieved'
+      WHEN coalesce(progress, 0) > 0 THEN 'partial'
+      ELSE 'abandoned'
+    END;
+
+  ALTER TABLE quarterly_quests
+    ALTER COLUMN start_date SET NOT NULL,
+    ALTER COLUMN end_date SET NOT NULL,
+    DROP COLUMN quarter,
+    DROP COLUMN year,
+    DROP COLUMN is_active;
+
+  -- Annual review snapshots give each quest a status and end date instead of isActive
+  IF to_regclass('annual_reviews') IS NOT NULL THEN
+    UPDATE annual_reviews
+    SET summary = jsonb_set(summary, '{quests}', (
+      SELECT coalesce(jsonb_agg(
+        (quest - 'isActive') || jsonb_build_object(
+          'status', CASE
+            WHEN coalesce((quest->>'isActive')::boolean, false) THEN 'active'
+            WHEN coalesce((quest->>'progress')::int, 0) >= 100 THEN 'achieved'
+            WHEN coalesce((quest->>'progress')::int, 0) > 0 THEN 'partial'
+            ELSE 'abandoned'
+          END,
+          'endDate', make_date(annual_reviews.year, 12, 31)
+        )
+        ORDER BY position
+      ), '[]'::jsonb)
+      FROM jsonb_array_elements(summary->'quests') WITH ORDINALITY AS quests(quest, position)
+    ))
+    WHERE jsonb_typeof(summary->'quests') = 'array';
+  END IF;
+END
+$$;
@@ -0,0 +1,29 @@
+-- Vision images uploaded before object ACLs existed have no owner row, so nobody can see them.
+-- Each one goes to the user whose vision card showed it first. Runs before `drizzle-kit push`,
+-- so on a database from before ACLs the table is created here, matching shared/schema.ts.
+
+DO $$
+BEGIN
+  IF to_regclass('vision_cards') IS NULL THEN
+    RETURN;
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS object_acls (
+    object_path varchar PRIMARY KEY,
+    user_id varchar NOT NULL,
+    visibility varchar NOT NULL DEFAULT 'private',
+    variants text[],
+    size_bytes integer,
+    created_at timestamp DEFAULT now(),
+    updated_at timestamp DEFAULT now(),
+    CONSTRAINT object_acls_user_id_users_id_fk FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE cascade
+  );
+
+  INSERT INTO object_acls (object_path, user_id)
+  SELECT DISTINCT ON (image_url) image_url, user_id
+  FROM vision_cards
+  WHERE image_url LIKE '/objects/%'
+  ORDER BY image_url, created_at NULLS LAST, id
+  ON CONFLICT (object_path) DO NOTHING;
+END
+$$;
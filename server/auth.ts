@@ -0,0 +1,139 @@
+// server/auth.ts
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import type { AuthConfig, AuthProviderName } from "@shared/schema";
+import { authProviderNames } from "@shared/schema";
+import { replitProvider, oidcProvider } from "./oidcAuth";
+import { localProvider } from "./localAuth";
+import { devProvider } from "./devAuth";
+
+// What passport keeps in the session. Every provider puts the user id in claims.sub,
+// which the routes read and account deletion uses to find a user's sessions.
+export interface SessionUser {
+  claims: { sub: string; [claim: string]: unknown };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: number;
+}
+
+export interface AuthProvider {
+  name: AuthProviderName;
+  // Whether people can create an account from the login page
+  registration: boolean;
+  // Registers the passport strategy and the /api/login, /api/callback and /api/logout routes
+  setup(app: Express): Promise<void>;
+  // Renews a session whose tokens have expired. Providers without expiring tokens leave it out.
+  refresh?(user: SessionUser): Promise<boolean>;
+}
+
+let activeProvider: AuthProvider | undefined;
+
+// AUTH_PROVIDER picks the provider. Without it, Replit deployments keep Replit Auth and every
+// other host gets email/password; the fake dev login only runs when asked for by name.
+function resolveProviderName(): AuthProviderName {
+  const configured = process.env.AUTH_PROVIDER;
+  if (configured) {
+    if (!authProviderNames.includes(configured as AuthProviderName)) {
+      throw new Error(`Unknown AUTH_PROVIDER "${configured}". Use one of: ${authProviderNames.join(", ")}`);
+    }
+    return configured as AuthProviderName;
+  }
+  if (process.env.REPLIT_DOMAINS) {
+    return "replit";
+  }
+  return "local";
+}
+
+function createProvider(name: AuthProviderName): AuthProvider {
+  switch (name) {
+    case "replit":
+      return replitProvider();
+    case "oidc":
+      return oidcProvider();
+    case "local":
+      return localProvider();
+    case "dev":
+      return devProvider();
+  }
+}
+
+// Secure cookies need https. Production is assumed to sit behind TLS; COOKIE_SECURE=false lets a
+// self-hosted install serve plain http, and COOKIE_SECURE=true turns them on anywhere else.
+function useSecureCookies(): boolean {
+  const configured = process.env.COOKIE_SECURE;
+  if (configured) {
+    return configured === "true";
+  }
+  return process.env.NODE_ENV === "production";
+}
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("Environment variable SESSION_SECRET not provided");
+  }
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: sessionTtl,
+    tableName: "sessions",
+  });
+  return session({
+    secret,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: useSecureCookies(),
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+export async function setupAuth(app: Express) {
+  const provider = createProvider(resolveProviderName());
+
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  await provider.setup(app);
+  activeProvider = provider;
+
+  // Public, so the login page knows which form to show
+  app.get("/api/auth/config", (_req, res) => {
+    const config: AuthConfig = { provider: provider.name, registration: provider.registration };
+    res.json(config);
+  });
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!user.expires_at || now <= user.expires_at) {
+    return next();
+  }
+
+  try {
+    if (await activeProvider?.refresh?.(user)) {
+      return next();
+    }
+  } catch (error) {
+    // Treated like any other failed refresh
+  }
+  res.status(401).json({ message: "Unauthorized" });
+};
@@ -0,0 +1,47 @@
+// server/devAuth.ts
+import type { Express } from "express";
+import { storage } from "./storage";
+import type { AuthProvider, SessionUser } from "./auth";
+
+const DEV_USER_ID = "dev-user";
+
+// Fake login for local development: /api/login signs straight in as a single seeded user,
+// so the app runs without any identity provider
+export function devProvider(): AuthProvider {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_PROVIDER=dev is for local development and can't be used in production");
+  }
+
+  return {
+    name: "dev",
+    registration: false,
+
+    async setup(app: Express) {
+      app.get("/api/login", async (req, res, next) => {
+        try {
+          const user = await storage.upsertUser({
+            id: DEV_USER_ID,
+            email: process.env.DEV_USER_EMAIL ?? "dev@inmotion.local",
+            firstName: "Dev",
+            lastName: "User",
+          });
+          const sessionUser: SessionUser = { claims: { sub: user.id, email: user.email } };
+          req.login(sessionUser, (error) => {
+            if (error) {
+              return next(error);
+            }
+            res.redirect("/");
+          });
+        } catch (error) {
+          next(error);
+        }
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          res.redirect("/");
+        });
+      });
+    },
+  };
+}
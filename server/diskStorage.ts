@@ -0,0 +1,142 @@
+import express, { type Express } from "express";
+import { createReadStream } from "fs";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import {
+  ObjectNotFoundError,
+  type ObjectMetadata,
+  type StorageDriver,
+  type UploadConstraints,
+} from "./objectStorage";
+
+// Signed upload URLs point back at this app, which writes the body to disk
+const UPLOAD_ROUTE = "/api/objects/local/";
+const UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+
+// Content types are kept beside each object, since the filesystem has nowhere to put them
+const METADATA_SUFFIX = ".meta.json";
+
+// Stores objects as files under LOCAL_STORAGE_DIR (./uploads by default). For Docker, mount a
+// volume there or uploads disappear with the container.
+export function diskStorageDriver(): StorageDriver {
+  const root = path.resolve(process.env.LOCAL_STORAGE_DIR ?? "uploads");
+  // A per-process secret still works for a single instance; uploads pending across a restart fail
+  const secret = process.env.LOCAL_STORAGE_SECRET ?? process.env.SESSION_SECRET ?? randomBytes(32).toString("hex");
+
+  const filePath = (key: string) => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(`${root}${path.sep}`) || key.endsWith(METADATA_SUFFIX)) {
+      throw new ObjectNotFoundError();
+    }
+    return resolved;
+  };
+
+  const writeObject = async (key: string, body: Buffer, contentType: string) => {
+    const file = filePath(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    // Written aside and renamed, so a reader never sees half a file
+    const partial = `${file}.${randomUUID()}.partial`;
+    await writeFile(partial, body);
+    await rename(partial, file);
+    await writeFile(`${file}${METADATA_SUFFIX}`, JSON.stringify({ contentType }));
+  };
+
+  const sign = (key: string, expires: string, contentType: string, maxBytes: string) =>
+    createHmac("sha256", secret)
+      .update(`PUT\n${key}\n${expires}\n${contentType}\n${maxBytes}`)
+      .digest("hex");
+
+  return {
+    name: "local",
+
+    // The type and size limit are signed into the URL and enforced when the body arrives
+    async getUploadURL(key: string, ttlSec: number, { contentType, maxBytes }: UploadConstraints): Promise<string> {
+      const expires = String(Math.floor(Date.now() / 1000) + ttlSec);
+      const max = String(maxBytes);
+      const params = new URLSearchParams({
+        expires,
+        type: contentType,
+        max,
+        signature: sign(key, expires, contentType, max),
+      });
+      return `${UPLOAD_ROUTE}${key}?${params}`;
+    },
+
+    keyFromURL(url: string): string | null {
+      const { pathname } = new URL(url, "http://localhost");
+      if (!pathname.startsWith(UPLOAD_ROUTE)) {
+        return null;
+      }
+      return decodeURIComponent(pathname.slice(UPLOAD_ROUTE.length)) || null;
+    },
+
+    async getMetadata(key: string): Promise<ObjectMetadata> {
+      const file = filePath(key);
+      try {
+        const { size } = await stat(file);
+        const metadata = JSON.parse(await readFile(`${file}${METADATA_SUFFIX}`, "utf8").catch(() => "{}"));
+        return { contentType: metadata.contentType, size };
+      } catch (error: any) {
+        if (error?.code === "ENOENT") {
+          throw new ObjectNotFoundError();
+        }
+        throw error;
+      }
+    },
+
+    async createReadStream(key: string): Promise<Readable> {
+      return createReadStream(filePath(key));
+    },
+
+    write: writeObject,
+
+    async delete(key: string): Promise<void> {
+      const file = filePath(key);
+      await rm(file, { force: true });
+      await rm(`${file}${METADATA_SUFFIX}`, { force: true });
+    },
+
+    registerRoutes(app: Express) {
+      // Receives the browser's PUT to a signed upload URL
+      app.put(
+        `${UPLOAD_ROUTE}:key(*)`,
+        express.raw({ type: () => true, limit: UPLOAD_MAX_BYTES }),
+        async (req, res) => {
+          try {
+            const key = req.params.key;
+            const expires = String(req.query.expires ?? "");
+            const contentType = String(req.query.type ?? "");
+            const maxBytes = String(req.query.max ?? "");
+            const signature = Buffer.from(String(req.query.signature ?? ""), "hex");
+            const expected = Buffer.from(sign(key, expires, contentType, maxBytes), "hex");
+            if (
+              Number(expires) < Date.now() / 1000 ||
+              signature.length !== expected.length ||
+              !timingSafeEqual(signature, expected)
+            ) {
+              return res.status(403).json({ message: "Upload URL is invalid or has expired" });
+            }
+
+            const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+            if (req.get("Content-Type") !== contentType) {
+              return res.status(415).json({ message: `Upload must be ${contentType}` });
+            }
+            if (body.length > Number(maxBytes)) {
+              return res.status(413).json({ message: "Upload is larger than allowed" });
+            }
+            await writeObject(key, body, contentType);
+            res.sendStatus(200);
+          } catch (error) {
+            console.error("Error storing upload:", error);
+            if (error instanceof ObjectNotFoundError) {
+              return res.status(400).json({ message: "Invalid object key" });
+            }
+            res.status(500).json({ message: "Failed to store upload" });
+          }
+        }
+      );
+    },
+  };
+}
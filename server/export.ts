@@ -0,0 +1,294 @@
+import { ZipArchive } from "archiver";
+import { getTableColumns } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { format, parseISO } from "date-fns";
+import {
+  userSettings,
+  visionPlans,
+  visionPlanRevisions,
+  visionCards,
+  quarterlyQuests,
+  questKeyResults,
+  questMilestones,
+  questProgressHistory,
+  weeklyPlans,
+  dailyTasks,
+  recurringTasks,
+  habits,
+  habitCheckIns,
+  pomodoroSessions,
+  pomodoroInterruptions,
+  dailyReflections,
+  quarterlyReviews,
+  annualReviews,
+  type UserExport,
+  type WeeklyPriority,
+} from "@shared/schema";
+import { dateInTimeZone } from "@shared/dates";
+import { formatQuestPeriod } from "@shared/quests";
+
+export const exportFormats = ["json", "csv", "markdown"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Builds the zip for a user's export; the caller pipes it to the response and then finalizes it
+export function createExportArchive(data: UserExport, exportFormat: ExportFormat): ZipArchive {
+  const archive = new ZipArchive({ zlib: { level: 9 } });
+  switch (exportFormat) {
+    case "json":
+      archive.append(JSON.stringify(data, null, 2), { name: "inmotion.json" });
+      break;
+    case "csv":
+      for (const [name, table, rows] of csvTables(data)) {
+        archive.append(toCsv(table, rows), { name: `${name}.csv` });
+      }
+      break;
+    case "markdown":
+      archive.append(toMarkdownJournal(data), { name: "journal.md" });
+      break;
+  }
+  return archive;
+}
+
+function csvTables(data: UserExport): [string, PgTable, object[]][] {
+  return [
+    ["settings", userSettings, [data.settings]],
+    ["vision_plan", visionPlans, data.visionPlan ? [data.visionPlan] : []],
+    ["vision_plan_revisions", visionPlanRevisions, data.visionPlanRevisions],
+    ["vision_cards", visionCards, data.visionCards],
+    ["quarterly_quests", quarterlyQuests, data.quarterlyQuests],
+    ["quest_key_results", questKeyResults, data.questKeyResults],
+    ["quest_milestones", questMilestones, data.questMilestones],
+    ["quest_progress_history", questProgressHistory, data.questProgressHistory],
+    ["weekly_plans", weeklyPlans, data.weeklyPlans],
+    ["daily_tasks", dailyTasks, data.dailyTasks],
+    ["recurring_tasks", recurringTasks, data.recurringTasks],
+    ["habits", habits, data.habits],
+    ["habit_check_ins", habitCheckIns, data.habitCheckIns],
+    ["pomodoro_sessions", pomodoroSessions, data.pomodoroSessions],
+    ["pomodoro_interruptions", pomodoroInterruptions, data.pomodoroInterruptions],
+    ["daily_reflections", dailyReflections, data.dailyReflections],
+    ["quarterly_reviews", quarterlyReviews, data.quarterlyReviews],
+    ["annual_reviews", annualReviews, data.annualReviews],
+  ];
+}
+
+// Headers come from the table definition so empty tables still get a header row
+function toCsv(table: PgTable, rows: object[]): string {
+  const columns = Object.keys(getTableColumns(table));
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) {
+    const values = row as Record<string, unknown>;
+    lines.push(columns.map(column => csvCell(values[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function csvCell(value: unknown): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = "";
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toMarkdownJournal(data: UserExport): string {
+  const { user, visionPlan } = data;
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "InMotion";
+  const lines: string[] = [
+    `# ${name}'s InMotion Journal`,
+    "",
+    `_Exported ${format(new Date(data.exportedAt), "MMMM d, yyyy")}_`,
+    "",
+  ];
+
+  // Life Compass
+  if (visionPlan) {
+    lines.push("## Life Compass", "");
+    if (visionPlan.coreValues?.length) {
+      lines.push("### Core Values", "", ...visionPlan.coreValues.map(value => `- ${value}`), "");
+    }
+    if (visionPlan.threeYearVision) {
+      lines.push("### Three-Year Vision", "", visionPlan.threeYearVision, "");
+    }
+    if (visionPlan.whyEngine) {
+      lines.push("### Why Engine", "", visionPlan.whyEngine, "");
+    }
+  }
+
+  // Vision Board
+  if (data.visionCards.length) {
+    lines.push("## Vision Board", "");
+    for (const card of data.visionCards) {
+      lines.push(`### ${card.title}`, "", `_${card.category}_`, "", card.description, "");
+    }
+  }
+
+  // Quarterly Quests, with their Goal, Plan and Systems
+  if (data.quarterlyQuests.length) {
+    lines.push("## Quarterly Quests", "");
+    for (const quest of data.quarterlyQuests) {
+      lines.push(
+        `### ${quest.title} (${formatQuestPeriod(quest.startDate, quest.endDate)})`,
+        "",
+        `Progress: ${quest.progress ?? 0}%${quest.status === "active" ? "" : ` · ${quest.status}`}`,
+        "",
+        "**Goal**", "", quest.goal, "",
+        "**Plan**", "", quest.plan, "",
+        "**Systems**", "", quest.systems, "",
+      );
+
+      const keyResults = data.questKeyResults.filter(kr => kr.quarterlyQuestId === quest.id);
+      if (keyResults.length) {
+        lines.push("**Key Results**", "");
+        for (const kr of keyResults) {
+          lines.push(`- ${kr.title}: ${kr.currentValue} / ${kr.targetValue}${kr.unit ? ` ${kr.unit}` : ""}`);
+        }
+        lines.push("");
+      }
+
+      const milestones = data.questMilestones.filter(milestone => milestone.quarterlyQuestId === quest.id);
+      if (milestones.length) {
+        lines.push("**Milestones**", "");
+        for (const milestone of milestones) {
+          lines.push(`- [${milestone.completedAt ? "x" : " "}] ${milestone.title} (due ${longDate(milestone.dueDate)})`);
+        }
+        lines.push("");
+      }
+
+      const questHabits = data.habits.filter(habit => habit.quarterlyQuestId === quest.id);
+      if (questHabits.length) {
+        lines.push("**Habits**", "");
+        for (const habit of questHabits) {
+          lines.push(`- ${habit.title} (${habit.targetPerWeek}× per week)`);
+        }
+        lines.push("");
+      }
+    }
+  }
+
+  // Weekly Plans
+  if (data.weeklyPlans.length) {
+    lines.push("## Weekly Plans", "");
+    for (const plan of data.weeklyPlans) {
+      lines.push(`### Week of ${longDate(plan.weekStartDate)}`, "");
+      const priorities = Array.isArray(plan.priorities) ? (plan.priorities as WeeklyPriority[]) : [];
+      for (const priority of priorities) {
+        lines.push(`- [${priority.isCompleted ? "x" : " "}] ${priority.title}${priority.description ? ` — ${priority.description}` : ""}`);
+      }
+      if (priorities.length) {
+        lines.push("");
+      }
+      const reflection = (plan.reflection ?? {}) as { wentWell?: string; toImprove?: string };
+      if (reflection.wentWell) {
+        lines.push("**What went well**", "", reflection.wentWell, "");
+      }
+      if (reflection.toImprove) {
+        lines.push("**What to improve**", "", reflection.toImprove, "");
+      }
+    }
+  }
+
+  // Quarterly Reviews
+  if (data.quarterlyReviews.length) {
+    lines.push("## Quarterly Reviews", "");
+    for (const review of data.quarterlyReviews) {
+      lines.push(`### ${formatQuestPeriod(review.startDate, review.endDate)}`, "");
+      for (const outcome of review.outcomes) {
+        lines.push(`- ${outcome.title}: ${outcome.status} (${outcome.progress}%)${outcome.carriedOverTo ? " · carried over" : ""}`);
+      }
+      if (review.outcomes.length) {
+        lines.push("");
+      }
+      if (review.retrospective) {
+        lines.push("**Retrospective**", "", review.retrospective, "");
+      }
+      if (review.lessonsLearned) {
+        lines.push("**Lessons learned**", "", review.lessonsLearned, "");
+      }
+    }
+  }
+
+  // Annual Reviews
+  if (data.annualReviews.length) {
+    lines.push("## Annual Reviews", "");
+    for (const review of data.annualReviews) {
+      const { totals } = review.summary;
+      lines.push(
+        `### ${review.year}`,
+        "",
+        `_${totals.questsCompleted} of ${review.summary.quests.length} quests completed · ` +
+          `${Math.round(totals.focusSeconds / 3600)} h focused · ${totals.completionRate}% of tasks done_`,
+        "",
+      );
+      if (review.reflection) {
+        lines.push(review.reflection, "");
+      }
+      if (review.coreValues?.length) {
+        lines.push("**Core values going forward**", "", ...review.coreValues.map(value => `- ${value}`), "");
+      }
+    }
+  }
+
+  // Daily Journal: reflections, tasks and focus time by date
+  const focusByDate = new Map<string, number>();
+  for (const session of data.pomodoroSessions) {
+    if (session.type === "work" && session.completedAt && (session.status === "completed" || session.status === "partial")) {
+      const date = dateInTimeZone(session.completedAt, data.settings.timeZone);
+      focusByDate.set(date, (focusByDate.get(date) ?? 0) + session.duration);
+    }
+  }
+  const dates = Array.from(new Set([
+    ...data.dailyReflections.map(reflection => reflection.date),
+    ...data.dailyTasks.map(task => task.date),
+  ])).sort();
+
+  if (dates.length) {
+    lines.push("## Daily Journal", "");
+    for (const date of dates) {
+      const reflection = data.dailyReflections.find(r => r.date === date);
+      const tasks = data.dailyTasks.filter(task => task.date === date);
+      const focusMinutes = Math.round((focusByDate.get(date) ?? 0) / 60);
+
+      lines.push(`### ${format(parseISO(date), "EEEE, MMMM d, yyyy")}`, "");
+      const facts = [
+        reflection?.energyLevel ? `Energy ${reflection.energyLevel}/5` : null,
+        focusMinutes > 0 ? `${focusMinutes} min focused` : null,
+      ].filter(Boolean);
+      if (facts.length) {
+        lines.push(`_${facts.join(" · ")}_`, "");
+      }
+      if (reflection?.reflection) {
+        lines.push(reflection.reflection, "");
+      }
+      if (reflection?.tomorrowPriority) {
+        lines.push(`**Tomorrow's priority:** ${reflection.tomorrowPriority}`, "");
+      }
+      if (tasks.length) {
+        for (const task of tasks) {
+          lines.push(`- [${task.isCompleted ? "x" : " "}] ${task.title} (${task.impact} impact)`);
+        }
+        lines.push("");
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function longDate(date: string): string {
+  return format(parseISO(date), "MMMM d, yyyy");
+}
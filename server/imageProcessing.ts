@@ -0,0 +1,91 @@
+import sharp from "sharp";
+import type { ImageVariant } from "@shared/schema";
+import type { ObjectStorageService } from "./objectStorage";
+
+export const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+// Guards against decompression bombs: a small file that decodes to billions of pixels
+const IMAGE_MAX_PIXELS = 50_000_000;
+
+// Formats we accept, with the content type the cleaned original is stored under
+const acceptedFormats = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+} as const;
+type AcceptedFormat = keyof typeof acceptedFormats;
+
+// Longest edge and WebP quality for each resized variant. Thumbnails cover the board's cards
+// at 2x; display fits a full-screen view.
+const variantSizes: Record<Exclude<ImageVariant, "original">, { maxEdge: number; quality: number }> = {
+  thumb: { maxEdge: 480, quality: 75 },
+  display: { maxEdge: 1600, quality: 82 },
+};
+
+export interface ProcessedImage {
+  variants: ImageVariant[];
+  sizeBytes: number;
+}
+
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageValidationError";
+    Object.setPrototypeOf(this, ImageValidationError.prototype);
+  }
+}
+
+// Validates a freshly uploaded image, replaces it with a copy stripped of EXIF and other
+// metadata, and writes the resized WebP variants next to it. Returns the variants written and
+// the bytes stored in all. Uploads that fail validation are deleted and reported with
+// ImageValidationError.
+export async function processUploadedImage(
+  objectStorage: ObjectStorageService,
+  objectPath: string,
+): Promise<ProcessedImage> {
+  const file = await objectStorage.getObjectEntityFile(objectPath);
+  try {
+    if (file.metadata.size > IMAGE_MAX_BYTES) {
+      throw new ImageValidationError(`Images can be at most ${IMAGE_MAX_BYTES / 1024 / 1024}MB`);
+    }
+    const input = await objectStorage.readObjectEntity(file);
+
+    let format: string | undefined;
+    try {
+      ({ format } = await sharp(input, { limitInputPixels: IMAGE_MAX_PIXELS }).metadata());
+    } catch {
+      throw new ImageValidationError("The file isn't an image we can read");
+    }
+    if (!format || !(format in acceptedFormats)) {
+      throw new ImageValidationError("Use a JPG, PNG, WebP, GIF or AVIF image");
+    }
+    const accepted = format as AcceptedFormat;
+
+    // Metadata is dropped on output unless asked for; autoOrient applies the EXIF rotation first
+    const original = await sharp(input, { limitInputPixels: IMAGE_MAX_PIXELS, animated: accepted === "gif" })
+      .autoOrient()
+      .toFormat(accepted)
+      .toBuffer();
+    await objectStorage.writeObjectEntity(objectPath, original, acceptedFormats[accepted]);
+
+    const variants: ImageVariant[] = [];
+    let sizeBytes = original.length;
+    for (const [variant, { maxEdge, quality }] of Object.entries(variantSizes)) {
+      const resized = await sharp(original)
+        .resize(maxEdge, maxEdge, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality })
+        .toBuffer();
+      await objectStorage.writeObjectEntity(objectPath, resized, "image/webp", variant as ImageVariant);
+      variants.push(variant as ImageVariant);
+      sizeBytes += resized.length;
+    }
+    return { variants, sizeBytes };
+  } catch (error) {
+    if (error instanceof ImageValidationError) {
+      await objectStorage.deleteObjectEntity(objectPath);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import type { UserExport } from "@shared/schema";
+import { detectImport, ImportFormatError, planBundleImport, planCsvImport } from "./import";
+
+const USER_ID = "user-1";
+const TODAY = "2024-05-10";
+
+function existingData(overrides: Partial<UserExport> = {}): UserExport {
+  return {
+    version: 2,
+    exportedAt: "2024-05-10T00:00:00.000Z",
+    user: { id: USER_ID },
+    settings: { userId: USER_ID, defaultImpact: "medium", weekStartsOn: 1 },
+    visionPlan: null,
+    visionPlanRevisions: [],
+    visionCards: [],
+    quarterlyQuests: [],
+    questKeyResults: [],
+    questMilestones: [],
+    questProgressHistory: [],
+    weeklyPlans: [],
+    dailyTasks: [],
+    recurringTasks: [],
+    habits: [],
+    habitCheckIns: [],
+    pomodoroSessions: [],
+    pomodoroInterruptions: [],
+    dailyReflections: [],
+    quarterlyReviews: [],
+    annualReviews: [],
+    ...overrides,
+  } as UserExport;
+}
+
+function bundle(data: Record<string, unknown>) {
+  const upload = detectImport({ version: 2, ...data });
+  if (upload.source !== "inmotion") {
+    throw new Error("Expected an InMotion bundle");
+  }
+  return upload.bundle;
+}
+
+const quest = {
+  id: "old-quest",
+  title: "Run a marathon",
+  goal: "Finish in under 4 hours",
+  plan: "Follow a 16 week plan",
+  systems: "Run four times a week",
+  startDate: "2024-04-01",
+  endDate: "2024-06-30",
+  status: "active",
+  progress: 20,
+};
+
+describe("detectImport", () => {
+  it("rejects bundles from an unknown version", () => {
+    expect(() => detectImport({ version: 3 })).toThrow(ImportFormatError);
+  });
+
+  it("reads a CSV file sent as raw bytes", () => {
+    const upload = detectImport(Buffer.from("\uFEFFTitle,Due Date\nBuy milk,2024-05-11\n"));
+    expect(upload).toEqual({ source: "csv", text: "Title,Due Date\nBuy milk,2024-05-11\n" });
+  });
+});
+
+describe("planBundleImport", () => {
+  it("gives every record a fresh ID and rewrites references to match", () => {
+    const plan = planBundleImport(USER_ID, bundle({
+      quarterlyQuests: [quest],
+      weeklyPlans: [{ id: "old-plan", quarterlyQuestId: "old-quest", weekStartDate: "2024-05-06", priorities: [] }],
+      dailyTasks: [{ id: "old-task", weeklyPlanId: "old-plan", title: "Long run", impact: "high", date: "2024-05-11" }],
+    }), existingData(), new Set());
+
+    const [newQuest] = plan.records.quarterlyQuests;
+    const [newPlan] = plan.records.weeklyPlans;
+    const [newTask] = plan.records.dailyTasks;
+    expect(newQuest.id).not.toBe("old-quest");
+    expect(newQuest.userId).toBe(USER_ID);
+    expect(newPlan.quarterlyQuestId).toBe(newQuest.id);
+    expect(newTask.weeklyPlanId).toBe(newPlan.id);
+    expect(plan.report.created).toEqual({ quarterlyQuests: 1, weeklyPlans: 1, dailyTasks: 1 });
+  });
+
+  it("keeps existing records and leaves out the children of ones it matched", () => {
+    const existing = existingData({
+      quarterlyQuests: [{ ...quest, id: "current-quest", userId: USER_ID }] as UserExport["quarterlyQuests"],
+    });
+    const plan = planBundleImport(USER_ID, bundle({
+      quarterlyQuests: [quest],
+      questKeyResults: [{ id: "kr", quarterlyQuestId: "old-quest", title: "Weekly mileage", targetValue: 40 }],
+      habits: [{ id: "habit", quarterlyQuestId: "old-quest", title: "Stretch", targetPerWeek: 3 }],
+    }), existing, new Set());
+
+    expect(plan.records.quarterlyQuests).toHaveLength(0);
+    expect(plan.records.questKeyResults).toHaveLength(0);
+    // Habits are linked to the quest the user already has
+    expect(plan.records.habits[0].quarterlyQuestId).toBe("current-quest");
+    expect(plan.report.skipped).toEqual({ quarterlyQuests: 1, questKeyResults: 1 });
+    expect(plan.report.conflicts).toContain('Quest "Run a marathon" (Q2 2024) already exists; keeping yours.');
+  });
+
+  it("upgrades version 1 quests to dates and an outcome", () => {
+    const { startDate, endDate, status, ...rest } = quest;
+    const plan = planBundleImport(USER_ID, bundle({
+      version: 1,
+      quarterlyQuests: [
+        { ...rest, id: "q1", quarter: "Q3", year: 2023, isActive: false, progress: 100 },
+        { ...rest, id: "q2", title: "Read more", quarter: "2023", year: 2023, isActive: false, progress: 40 },
+        { ...rest, id: "q3", title: "Learn Spanish", quarter: "Q4 2023", year: 2023, isActive: true },
+      ],
+    }), existingData(), new Set());
+
+    expect(plan.records.quarterlyQuests.map(({ startDate, endDate, status }) => ({ startDate, endDate, status }))).toEqual([
+      { startDate: "2023-07-01", endDate: "2023-09-30", status: "achieved" },
+      { startDate: "2023-01-01", endDate: "2023-12-31", status: "partial" },
+      { startDate: "2023-10-01", endDate: "2023-12-31", status: "active" },
+    ]);
+  });
+
+  it("reports rows the app wouldn't accept and skips what depends on them", () => {
+    const plan = planBundleImport(USER_ID, bundle({
+      quarterlyQuests: [{ ...quest, endDate: "2024-06-31" }],
+      questMilestones: [{ id: "m", quarterlyQuestId: "old-quest", title: "Half marathon" }],
+      dailyTasks: [{ id: "t", title: "No impact", date: "2024-05-11" }],
+    }), existingData(), new Set());
+
+    expect(plan.report.created).toEqual({});
+    expect(plan.report.skipped).toEqual({ quarterlyQuests: 1, questMilestones: 1, dailyTasks: 1 });
+    expect(plan.report.conflicts).toEqual([
+      'Quest "Run a marathon" has an invalid endDate and was skipped.',
+      'Task "No impact" has an invalid impact and was skipped.',
+    ]);
+  });
+
+  it("only brings along uploaded images the user owns", () => {
+    const card = { description: "Somewhere warm", category: "personal" };
+    const plan = planBundleImport(USER_ID, bundle({
+      visionCards: [
+        { ...card, id: "a", title: "Mine", imageUrl: "/objects/vision-images/mine" },
+        { ...card, id: "b", title: "Theirs", imageUrl: "/objects/vision-images/theirs" },
+        { ...card, id: "c", title: "Linked", imageUrl: "https://example.com/beach.jpg" },
+      ],
+    }), existingData(), new Set(["/objects/vision-images/mine"]));
+
+    expect(plan.records.visionCards.map(card => card.imageUrl)).toEqual([
+      "/objects/vision-images/mine",
+      null,
+      "https://example.com/beach.jpg",
+    ]);
+    expect(plan.report.conflicts).toEqual([
+      `The image on vision card "Theirs" isn't in your account; the card is imported without it.`,
+    ]);
+  });
+});
+
+describe("planCsvImport", () => {
+  it("reads dates, priorities and completion from a to-do app export", () => {
+    const csv = [
+      "Title,Due Date,Priority,Status",
+      "File taxes,2024-05-12,high,",
+      'Call mom,"5/9/2024",,done',
+      "Someday,,low,",
+    ].join("\n");
+    const plan = planCsvImport(USER_ID, csv, existingData(), TODAY);
+
+    expect(plan.records.dailyTasks.map(({ title, date, impact, isCompleted }) => ({ title, date, impact, isCompleted }))).toEqual([
+      { title: "File taxes", date: "2024-05-12", impact: "high", isCompleted: false },
+      { title: "Call mom", date: "2024-05-09", impact: "medium", isCompleted: true },
+      { title: "Someday", date: TODAY, impact: "low", isCompleted: false },
+    ]);
+    expect(plan.report.conflicts).toEqual(["1 task has no usable due date and will be added to today."]);
+  });
+
+  it("skips rows whose date isn't a real day", () => {
+    const csv = "Title,Due Date\nBad month,13/45/2024\nNot a leap year,2023-02-29\nLeap day,2/29/2024\n";
+    const plan = planCsvImport(USER_ID, csv, existingData(), TODAY);
+
+    expect(plan.records.dailyTasks.map(task => task.date)).toEqual(["2024-02-29"]);
+    expect(plan.report.skipped).toEqual({ dailyTasks: 2 });
+    expect(plan.report.conflicts).toEqual([
+      'Task "Bad month" has an invalid date (13/45/2024) and was skipped.',
+      'Task "Not a leap year" has an invalid date (2023-02-29) and was skipped.',
+    ]);
+  });
+
+  it("keeps tasks the user already has on the same day", () => {
+    const existing = existingData({
+      dailyTasks: [{ id: "t", title: "Buy milk", date: "2024-05-11" }] as UserExport["dailyTasks"],
+    });
+    const plan = planCsvImport(USER_ID, "Title,Due Date\nbuy milk,2024-05-11\n", existing, TODAY);
+
+    expect(plan.records.dailyTasks).toHaveLength(0);
+    expect(plan.report.skipped).toEqual({ dailyTasks: 1 });
+  });
+
+  it("maps Todoist's inverted priorities and skips its section rows", () => {
+    const csv = [
+      "TYPE,CONTENT,DESCRIPTION,PRIORITY,DATE",
+      "section,Errands,,,",
+      "task,Renew passport,,1,2024-05-20",
+      "task,Water plants,,4,2024-05-20",
+    ].join("\n");
+    const plan = planCsvImport(USER_ID, csv, existingData(), TODAY);
+
+    expect(plan.records.dailyTasks.map(({ title, impact }) => ({ title, impact }))).toEqual([
+      { title: "Renew passport", impact: "high" },
+      { title: "Water plants", impact: "medium" },
+    ]);
+  });
+});
@@ -0,0 +1,795 @@
+import { randomUUID } from "crypto";
+import { unzipSync, strFromU8 } from "fflate";
+import { getTableColumns, type InferInsertModel } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { createInsertSchema } from "drizzle-zod";
+import {
+  visionPlans,
+  visionPlanRevisions,
+  visionCards,
+  visionCardQuests,
+  quarterlyQuests,
+  questKeyResults,
+  questMilestones,
+  questProgressHistory,
+  weeklyPlans,
+  dailyTasks,
+  recurringTasks,
+  habits,
+  habitCheckIns,
+  pomodoroSessions,
+  pomodoroInterruptions,
+  dailyReflections,
+  quarterlyReviews,
+  annualReviews,
+  insertVisionPlanSchema,
+  insertVisionCardSchema,
+  insertQuarterlyQuestSchema,
+  insertQuestKeyResultSchema,
+  insertQuestMilestoneSchema,
+  insertWeeklyPlanSchema,
+  insertDailyTaskSchema,
+  insertRecurringTaskSchema,
+  insertHabitSchema,
+  insertPomodoroSessionSchema,
+  insertPomodoroInterruptionSchema,
+  insertDailyReflectionSchema,
+  isoDateSchema,
+  type UserExport,
+  type ImportReport,
+  type QuarterlyReviewOutcome,
+} from "@shared/schema";
+import { formatQuestPeriod, suggestedQuestOutcome } from "@shared/quests";
+import type { ImportRecords } from "./storage";
+
+// Largest upload /api/import accepts
+export const IMPORT_MAX_BYTES = 25 * 1024 * 1024;
+
+// Upper bound on tasks read from one CSV file
+const CSV_MAX_TASKS = 5000;
+
+export class ImportFormatError extends Error {}
+
+type ImportPlan = { records: ImportRecords; report: Omit<ImportReport, "dryRun"> };
+
+type SourceRow = Record<string, unknown>;
+
+const rowList = z.array(z.record(z.unknown())).default([]);
+
+// Only the overall shape is checked here; each row is checked against rowSchemas as it's planned
+const bundleSchema = z.object({
+  // Version 1 quests have a quarter label, a year and isActive instead of dates and a status
+  version: z.union([z.literal(1), z.literal(2)]),
+  settings: z.record(z.unknown()).optional(),
+  visionPlan: z.record(z.unknown()).nullable().default(null),
+  visionPlanRevisions: rowList,
+  visionCards: rowList,
+  quarterlyQuests: rowList,
+  questKeyResults: rowList,
+  questMilestones: rowList,
+  questProgressHistory: rowList,
+  weeklyPlans: rowList,
+  dailyTasks: rowList,
+  recurringTasks: rowList,
+  habits: rowList,
+  habitCheckIns: rowList,
+  pomodoroSessions: rowList,
+  pomodoroInterruptions: rowList,
+  dailyReflections: rowList,
+  quarterlyReviews: rowList,
+  annualReviews: rowList,
+});
+
+type Bundle = z.infer<typeof bundleSchema>;
+
+// What the app accepts when a record is created, so an import can't store rows it never would
+const rowSchemas: Record<keyof ImportRecords, z.ZodTypeAny> = {
+  visionPlans: rowSchema(visionPlans, insertVisionPlanSchema),
+  visionPlanRevisions: rowSchema(visionPlanRevisions),
+  quarterlyQuests: rowSchema(quarterlyQuests, insertQuarterlyQuestSchema),
+  visionCards: rowSchema(visionCards, insertVisionCardSchema),
+  visionCardQuests: rowSchema(visionCardQuests),
+  questKeyResults: rowSchema(questKeyResults, insertQuestKeyResultSchema),
+  questMilestones: rowSchema(questMilestones, insertQuestMilestoneSchema),
+  questProgressHistory: rowSchema(questProgressHistory),
+  weeklyPlans: rowSchema(weeklyPlans, insertWeeklyPlanSchema),
+  recurringTasks: rowSchema(recurringTasks, insertRecurringTaskSchema),
+  dailyTasks: rowSchema(dailyTasks, insertDailyTaskSchema),
+  habits: rowSchema(habits, insertHabitSchema),
+  habitCheckIns: rowSchema(habitCheckIns),
+  pomodoroSessions: rowSchema(pomodoroSessions, insertPomodoroSessionSchema),
+  pomodoroInterruptions: rowSchema(pomodoroInterruptions, insertPomodoroInterruptionSchema),
+  dailyReflections: rowSchema(dailyReflections, insertDailyReflectionSchema),
+  quarterlyReviews: rowSchema(quarterlyReviews),
+  annualReviews: rowSchema(annualReviews),
+};
+
+// Works out what an upload contains: an export zip, its inmotion.json, or a CSV task list
+export function detectImport(body: unknown): { source: "inmotion"; bundle: Bundle } | { source: "csv"; text: string } {
+  if (!Buffer.isBuffer(body)) {
+    return { source: "inmotion", bundle: parseBundle(body) };
+  }
+
+  // Zip files start with "PK"
+  if (body[0] === 0x50 && body[1] === 0x4b) {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(new Uint8Array(body), { filter: (file) => file.name.endsWith("inmotion.json") });
+    } catch {
+      throw new ImportFormatError("The zip file could not be read");
+    }
+    const entry = Object.values(files)[0];
+    if (!entry) {
+      throw new ImportFormatError("The zip file has no inmotion.json; export as JSON to get one");
+    }
+    return { source: "inmotion", bundle: parseBundle(JSON.parse(strFromU8(entry))) };
+  }
+
+  const text = body.toString("utf8").replace(/^\uFEFF/, "");
+  if (text.trimStart().startsWith("{")) {
+    return { source: "inmotion", bundle: parseBundle(JSON.parse(text)) };
+  }
+  return { source: "csv", text };
+}
+
+function parseBundle(data: unknown): Bundle {
+  const parsed = bundleSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new ImportFormatError("This is not an InMotion export, or it comes from an unsupported version");
+  }
+  return parsed.data;
+}
+
+// Restores a previous export next to the user's current data. Every record gets a fresh ID and
+// references are rewritten to match; records the user already has are kept and reported instead.
+// Uploaded images only come along when they are already in this account.
+export function planBundleImport(
+  userId: string,
+  bundle: Bundle,
+  existing: UserExport,
+  ownedObjectPaths: ReadonlySet<string>,
+): ImportPlan {
+  const records = emptyRecords();
+  const skipped: Record<string, number> = {};
+  const conflicts: string[] = [];
+  const skip = (entity: string, conflict?: string) => {
+    skipped[entity] = (skipped[entity] ?? 0) + 1;
+    if (conflict) {
+      conflicts.push(conflict);
+    }
+  };
+  // Rows with values the app wouldn't accept are skipped and reported rather than failing the import
+  const accepts = <K extends keyof ImportRecords>(entity: K, row: ImportRecords[K][number], label: string) => {
+    const result = rowSchemas[entity].safeParse(row);
+    if (!result.success) {
+      const field = result.error.issues[0]?.path.join(".") || "value";
+      skip(entity, `${label} has an invalid ${field} and was skipped.`);
+    }
+    return result.success;
+  };
+
+  // Old ID -> ID in this account, whether newly created or matched to an existing record
+  const questIds = new Map<string, string>();
+  const planIds = new Map<string, string>();
+  const templateIds = new Map<string, string>();
+  const taskIds = new Map<string, string>();
+  const habitIds = new Map<string, string>();
+  const sessionIds = new Map<string, string>();
+  // IDs of records created by this import, whose children are imported too
+  const createdQuests = new Set<string>();
+  const createdSessions = new Set<string>();
+
+  if (bundle.settings && settingsDiffer(bundle.settings, existing.settings)) {
+    conflicts.push("Your preferences differ from the export; keeping your current settings.");
+  }
+
+  if (bundle.visionPlan) {
+    if (existing.visionPlan) {
+      skip("visionPlans", "You already have a Life Compass; keeping yours.");
+    } else {
+      const row = toRow(visionPlans, bundle.visionPlan, { id: randomUUID(), userId });
+      if (accepts("visionPlans", row, "The Life Compass")) {
+        records.visionPlans.push(row);
+      }
+    }
+  }
+
+  // Vision history only comes along with the plan it belongs to
+  for (const revision of bundle.visionPlanRevisions) {
+    if (records.visionPlans.length === 0) {
+      skip("visionPlanRevisions");
+      continue;
+    }
+    const row = toRow(visionPlanRevisions, revision, {
+      id: randomUUID(),
+      userId,
+      createdAt: toDate(revision.createdAt) ?? new Date(),
+    });
+    if (accepts("visionPlanRevisions", row, "A Life Compass revision")) {
+      records.visionPlanRevisions.push(row);
+    }
+  }
+
+  for (const source of bundle.quarterlyQuests) {
+    const quest = upgradeQuest(source);
+    const match = existing.quarterlyQuests.find(q =>
+      q.title === quest.title && q.startDate === quest.startDate
+    );
+    if (match) {
+      questIds.set(String(quest.id), match.id);
+      skip("quarterlyQuests", `Quest "${quest.title}" (${formatQuestPeriod(match.startDate, match.endDate)}) already exists; keeping yours.`);
+      continue;
+    }
+    const id = randomUUID();
+    const row = toRow(quarterlyQuests, quest, { id, userId });
+    if (!accepts("quarterlyQuests", row, `Quest "${quest.title}"`)) {
+      continue;
+    }
+    questIds.set(String(quest.id), id);
+    createdQuests.add(id);
+    records.quarterlyQuests.push(row);
+  }
+
+  for (const card of bundle.visionCards) {
+    if (existing.visionCards.some(c => c.title === card.title)) {
+      skip("visionCards", `Vision card "${card.title}" already exists; keeping yours.`);
+      continue;
+    }
+    const id = randomUUID();
+    const imageUrl = typeof card.imageUrl === "string" ? card.imageUrl : null;
+    const keepImage = !imageUrl?.startsWith("/objects/") || ownedObjectPaths.has(imageUrl);
+    if (!keepImage) {
+      conflicts.push(`The image on vision card "${card.title}" isn't in your account; the card is imported without it.`);
+    }
+    const row = toRow(visionCards, card, { id, userId, imageUrl: keepImage ? imageUrl : null });
+    if (!accepts("visionCards", row, `Vision card "${card.title}"`)) {
+      continue;
+    }
+    records.visionCards.push(row);
+    const linked = Array.isArray(card.questIds) ? card.questIds.map(String) : [];
+    for (const questId of linked) {
+      const mapped = questIds.get(questId);
+      if (mapped) {
+        records.visionCardQuests.push({ visionCardId: id, quarterlyQuestId: mapped });
+      }
+    }
+  }
+
+  // Measures and history only come along with quests this import creates
+  for (const keyResult of bundle.questKeyResults) {
+    const questId = questIds.get(String(keyResult.quarterlyQuestId));
+    if (!questId || !createdQuests.has(questId)) {
+      skip("questKeyResults");
+      continue;
+    }
+    const row = toRow(questKeyResults, keyResult, { id: randomUUID(), userId, quarterlyQuestId: questId });
+    if (accepts("questKeyResults", row, `Key result "${keyResult.title}"`)) {
+      records.questKeyResults.push(row);
+    }
+  }
+
+  for (const milestone of bundle.questMilestones) {
+    const questId = questIds.get(String(milestone.quarterlyQuestId));
+    if (!questId || !createdQuests.has(questId)) {
+      skip("questMilestones");
+      continue;
+    }
+    const row = toRow(questMilestones, milestone, { id: randomUUID(), userId, quarterlyQuestId: questId });
+    if (accepts("questMilestones", row, `Milestone "${milestone.title}"`)) {
+      records.questMilestones.push(row);
+    }
+  }
+
+  for (const snapshot of bundle.questProgressHistory) {
+    const questId = questIds.get(String(snapshot.quarterlyQuestId));
+    if (!questId || !createdQuests.has(questId)) {
+      skip("questProgressHistory");
+      continue;
+    }
+    const row = toRow(questProgressHistory, snapshot, { id: randomUUID(), quarterlyQuestId: questId });
+    if (accepts("questProgressHistory", row, "A quest progress snapshot")) {
+      records.questProgressHistory.push(row);
+    }
+  }
+
+  for (const plan of bundle.weeklyPlans) {
+    const match = existing.weeklyPlans.find(p => p.weekStartDate === plan.weekStartDate);
+    if (match) {
+      planIds.set(String(plan.id), match.id);
+      skip("weeklyPlans", `You already have a weekly plan for the week of ${plan.weekStartDate}; keeping yours.`);
+      continue;
+    }
+    const id = randomUUID();
+    const row = toRow(weeklyPlans, plan, {
+      id,
+      userId,
+      quarterlyQuestId: mapId(questIds, plan.quarterlyQuestId),
+    });
+    if (!accepts("weeklyPlans", row, `The weekly plan for the week of ${plan.weekStartDate}`)) {
+      continue;
+    }
+    planIds.set(String(plan.id), id);
+    records.weeklyPlans.push(row);
+  }
+
+  for (const template of bundle.recurringTasks) {
+    const match = existing.recurringTasks.find(t =>
+      t.title === template.title && t.frequency === template.frequency && t.startDate === template.startDate
+    );
+    if (match) {
+      templateIds.set(String(template.id), match.id);
+      skip("recurringTasks", `Recurring task "${template.title}" already exists; keeping yours.`);
+      continue;
+    }
+    const id = randomUUID();
+    const row = toRow(recurringTasks, template, { id, userId });
+    if (!accepts("recurringTasks", row, `Recurring task "${template.title}"`)) {
+      continue;
+    }
+    templateIds.set(String(template.id), id);
+    records.recurringTasks.push(row);
+  }
+
+  const existingTasks = new Map(existing.dailyTasks.map(task => [taskKey(task.title, task.date), task.id]));
+  for (const task of bundle.dailyTasks) {
+    const key = taskKey(task.title, task.date);
+    const match = existingTasks.get(key);
+    if (match) {
+      taskIds.set(String(task.id), match);
+      skip("dailyTasks", `Task "${task.title}" on ${task.date} already exists; keeping yours.`);
+      continue;
+    }
+    const id = randomUUID();
+    const row = toRow(dailyTasks, task, {
+      id,
+      userId,
+      weeklyPlanId: mapId(planIds, task.weeklyPlanId),
+      recurringTaskId: mapId(templateIds, task.recurringTaskId),
+    });
+    if (!accepts("dailyTasks", row, `Task "${task.title}"`)) {
+      continue;
+    }
+    taskIds.set(String(task.id), id);
+    existingTasks.set(key, id);
+    records.dailyTasks.push(row);
+  }
+
+  for (const habit of bundle.habits) {
+    const match = existing.habits.find(h => h.title === habit.title);
+    if (match) {
+      habitIds.set(String(habit.id), match.id);
+      skip("habits", `Habit "${habit.title}" already exists; its check-ins are merged into yours.`);
+      continue;
+    }
+    const id = randomUUID();
+    const row = toRow(habits, habit, {
+      id,
+      userId,
+      quarterlyQuestId: mapId(questIds, habit.quarterlyQuestId),
+    });
+    if (!accepts("habits", row, `Habit "${habit.title}"`)) {
+      continue;
+    }
+    habitIds.set(String(habit.id), id);
+    records.habits.push(row);
+  }
+
+  const existingCheckIns = new Set(existing.habitCheckIns.map(checkIn => `${checkIn.habitId}:${checkIn.date}`));
+  for (const checkIn of bundle.habitCheckIns) {
+    const habitId = habitIds.get(String(checkIn.habitId));
+    if (!habitId || existingCheckIns.has(`${habitId}:${checkIn.date}`)) {
+      skip("habitCheckIns");
+      continue;
+    }
+    const row = toRow(habitCheckIns, checkIn, { id: randomUUID(), userId, habitId });
+    if (!accepts("habitCheckIns", row, "A habit check-in")) {
+      continue;
+    }
+    existingCheckIns.add(`${habitId}:${checkIn.date}`);
+    records.habitCheckIns.push(row);
+  }
+
+  const existingSessions = new Set(existing.pomodoroSessions.map(session => sessionKey(session)));
+  for (const session of bundle.pomodoroSessions) {
+    if (existingSessions.has(sessionKey(session))) {
+      skip("pomodoroSessions");
+      continue;
+    }
+    const id = randomUUID();
+    // A session that was still running when exported is restored as stopped early
+    const isActive = session.status === "running" || session.status === "paused";
+    const row = toRow(pomodoroSessions, session, {
+      id,
+      userId,
+      taskId: mapId(taskIds, session.taskId),
+      ...(isActive ? { status: "partial", pausedAt: null, completedAt: toDate(session.pausedAt ?? session.startedAt) } : {}),
+    });
+    if (!accepts("pomodoroSessions", row, "A focus session")) {
+      continue;
+    }
+    sessionIds.set(String(session.id), id);
+    createdSessions.add(id);
+    records.pomodoroSessions.push(row);
+  }
+
+  for (const interruption of bundle.pomodoroInterruptions) {
+    const sessionId = sessionIds.get(String(interruption.sessionId));
+    if (!sessionId || !createdSessions.has(sessionId)) {
+      skip("pomodoroInterruptions");
+      continue;
+    }
+    const row = toRow(pomodoroInterruptions, interruption, { id: randomUUID(), userId, sessionId });
+    if (accepts("pomodoroInterruptions", row, "An interruption")) {
+      records.pomodoroInterruptions.push(row);
+    }
+  }
+
+  const reflectionDates = new Set(existing.dailyReflections.map(reflection => reflection.date));
+  for (const reflection of bundle.dailyReflections) {
+    if (reflectionDates.has(String(reflection.date))) {
+      skip("dailyReflections", `You already have a reflection for ${reflection.date}; keeping yours.`);
+      continue;
+    }
+    const row = toRow(dailyReflections, reflection, { id: randomUUID(), userId });
+    if (!accepts("dailyReflections", row, `The reflection for ${reflection.date}`)) {
+      continue;
+    }
+    reflectionDates.add(String(reflection.date));
+    records.dailyReflections.push(row);
+  }
+
+  const reviewedQuarters = new Set(existing.quarterlyReviews.map(review => review.startDate));
+  for (const review of bundle.quarterlyReviews) {
+    const startDate = String(review.startDate);
+    if (reviewedQuarters.has(startDate)) {
+      skip("quarterlyReviews", `You already have a quarterly review for ${formatQuestPeriod(startDate, String(review.endDate))}; keeping yours.`);
+      continue;
+    }
+    const outcomes = Array.isArray(review.outcomes) ? (review.outcomes as QuarterlyReviewOutcome[]) : [];
+    const row = toRow(quarterlyReviews, review, {
+      id: randomUUID(),
+      userId,
+      outcomes: outcomes.map(outcome => ({
+        ...outcome,
+        questId: questIds.get(String(outcome.questId)) ?? outcome.questId,
+        carriedOverTo: mapId(questIds, outcome.carriedOverTo),
+      })),
+      createdAt: toDate(review.createdAt) ?? new Date(),
+    });
+    if (!accepts("quarterlyReviews", row, `The quarterly review starting ${startDate}`)) {
+      continue;
+    }
+    reviewedQuarters.add(startDate);
+    records.quarterlyReviews.push(row);
+  }
+
+  const reviewedYears = new Set(existing.annualReviews.map(review => review.year));
+  for (const review of bundle.annualReviews) {
+    if (reviewedYears.has(Number(review.year))) {
+      skip("annualReviews", `You already have an annual review for ${review.year}; keeping yours.`);
+      continue;
+    }
+    const row = toRow(annualReviews, upgradeAnnualReview(review), {
+      id: randomUUID(),
+      userId,
+      createdAt: toDate(review.createdAt) ?? new Date(),
+    });
+    if (!accepts("annualReviews", row, `The annual review for ${review.year}`)) {
+      continue;
+    }
+    reviewedYears.add(Number(review.year));
+    records.annualReviews.push(row);
+  }
+
+  return { records, report: { source: "inmotion", created: countRecords(records), skipped, conflicts } };
+}
+
+// Turns a task list exported from a to-do app (Todoist, TickTick, Microsoft To Do and similar) into daily tasks
+export function planCsvImport(
+  userId: string,
+  text: string,
+  existing: UserExport,
+  today: string,
+): ImportPlan {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(row => row.some(cell => TITLE_HEADERS.includes(normalizeHeader(cell))));
+  if (headerIndex === -1) {
+    throw new ImportFormatError("Couldn't find a task title column in the CSV file");
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  // Names are listed by preference, e.g. a due date wins over a start date
+  const column = (names: string[], exclude?: number) => {
+    for (const name of names) {
+      const index = headers.findIndex((header, i) => i !== exclude && header === name);
+      if (index !== -1) {
+        return index;
+      }
+    }
+    return -1;
+  };
+  const titleColumn = column(TITLE_HEADERS);
+  const descriptionColumn = column(DESCRIPTION_HEADERS, titleColumn);
+  const dateColumn = column(DATE_HEADERS);
+  const priorityColumn = column(PRIORITY_HEADERS);
+  const statusColumn = column(STATUS_HEADERS);
+  const typeColumn = column(["type"]);
+  // Todoist ranks 1 as the top priority; TickTick uses 0 (none) to 5 (high)
+  const priorityScale = headers.includes("content") && typeColumn !== -1 ? "todoist" : "ascending";
+
+  const records = emptyRecords();
+  const skipped: Record<string, number> = {};
+  const conflicts: string[] = [];
+  const existingTasks = new Set(existing.dailyTasks.map(task => taskKey(task.title, task.date)));
+  const fallbackImpact = existing.settings.defaultImpact;
+  let undated = 0;
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cell = (index: number) => (index === -1 ? "" : (row[index] ?? "").trim());
+    const title = cell(titleColumn);
+    // Todoist exports interleave sections and notes with tasks
+    if (!title || (typeColumn !== -1 && cell(typeColumn) && cell(typeColumn).toLowerCase() !== "task")) {
+      continue;
+    }
+    if (records.dailyTasks.length >= CSV_MAX_TASKS) {
+      conflicts.push(`Only the first ${CSV_MAX_TASKS} tasks are imported.`);
+      break;
+    }
+
+    const rawDate = cell(dateColumn);
+    let date = parseTaskDate(rawDate);
+    if (date === INVALID_DATE) {
+      skipped.dailyTasks = (skipped.dailyTasks ?? 0) + 1;
+      conflicts.push(`Task "${title}" has an invalid date (${rawDate}) and was skipped.`);
+      continue;
+    }
+    if (!date) {
+      date = today;
+      undated++;
+    }
+
+    const key = taskKey(title, date);
+    if (existingTasks.has(key)) {
+      skipped.dailyTasks = (skipped.dailyTasks ?? 0) + 1;
+      conflicts.push(`Task "${title}" on ${date} already exists; keeping yours.`);
+      continue;
+    }
+    existingTasks.add(key);
+
+    const isCompleted = COMPLETED_VALUES.includes(cell(statusColumn).toLowerCase());
+    records.dailyTasks.push({
+      id: randomUUID(),
+      userId,
+      title: title.slice(0, 500),
+      description: cell(descriptionColumn) || null,
+      impact: inferImpact(cell(priorityColumn), priorityScale, title, fallbackImpact),
+      date,
+      isCompleted,
+      completedAt: isCompleted ? new Date() : null,
+    });
+  }
+
+  if (undated > 0) {
+    conflicts.push(`${undated} ${undated === 1 ? "task has" : "tasks have"} no usable due date and will be added to today.`);
+  }
+  return { records, report: { source: "csv", created: countRecords(records), skipped, conflicts } };
+}
+
+const TITLE_HEADERS = ["title", "task", "task name", "name", "subject", "content"];
+const DESCRIPTION_HEADERS = ["description", "notes", "note", "content", "details"];
+const DATE_HEADERS = ["due date", "due", "date", "due_date", "start date", "reminder date"];
+const PRIORITY_HEADERS = ["priority", "importance", "impact"];
+const STATUS_HEADERS = ["status", "completed", "done", "is completed", "completed?"];
+const COMPLETED_VALUES = ["1", "2", "true", "yes", "x", "completed", "done"];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Priority words and numbers from common to-do apps, then urgency cues in the title
+function inferImpact(priority: string, scale: "todoist" | "ascending", title: string, fallback: string): string {
+  const value = priority.toLowerCase();
+  if (/^\d+$/.test(value)) {
+    const level = parseInt(value);
+    // Todoist's 4 and TickTick's 0 mean no priority was set
+    if (scale === "todoist" && level < 4) {
+      return level === 1 ? "high" : level === 2 ? "medium" : "low";
+    }
+    if (scale === "ascending" && level > 0) {
+      return level >= 5 ? "high" : level >= 3 ? "medium" : "low";
+    }
+  } else if (/high|urgent|important|p1|!!!/.test(value)) {
+    return "high";
+  } else if (/medium|normal|p2|!!/.test(value)) {
+    return "medium";
+  } else if (/low|p3|p4|!/.test(value)) {
+    return "low";
+  }
+
+  if (/\b(urgent|asap|important|critical)\b|!{2,}/i.test(title)) {
+    return "high";
+  }
+  return fallback;
+}
+
+// Returned for a value shaped like a date that isn't a real day, such as 13/45/2024
+const INVALID_DATE = "invalid";
+
+// Accepts ISO dates (with or without a time) and US-style M/D/YYYY; null when there is no date
+function parseTaskDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return calendarDate(iso[1], iso[2], iso[3]);
+  }
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return calendarDate(us[3], us[1], us[2]);
+  }
+  return null;
+}
+
+function calendarDate(year: string, month: string, day: string): string {
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : INVALID_DATE;
+}
+
+// RFC 4180 parsing: quoted fields may contain commas, quotes ("") and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// The insert schema plus a calendar check on date columns, which drizzle-zod leaves as plain strings
+function rowSchema(table: PgTable, schema: z.ZodTypeAny = createInsertSchema(table)): z.ZodTypeAny {
+  const dateColumns = Object.entries(getTableColumns(table))
+    .filter(([, column]) => column.columnType === "PgDateString")
+    .map(([key]) => key);
+  return schema.superRefine((row: SourceRow, ctx) => {
+    for (const key of dateColumns) {
+      if (row[key] != null && !isoDateSchema.safeParse(row[key]).success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: "Not a calendar date" });
+      }
+    }
+  });
+}
+
+// Copies the columns a table knows about, reviving timestamps that JSON turned into strings
+function toRow<T extends PgTable>(table: T, source: SourceRow, overrides: Partial<InferInsertModel<T>>): InferInsertModel<T> {
+  const row: SourceRow = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    const value = source[key];
+    if (value === undefined) {
+      continue;
+    }
+    row[key] = column.columnType === "PgTimestamp" ? toDate(value) : value;
+  }
+  return { ...row, ...overrides } as InferInsertModel<T>;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Version 1 quests named their quarter ("Q1" or "Q1 2024") and were either active or not
+function upgradeQuest(quest: SourceRow): SourceRow {
+  if (quest.startDate) {
+    return quest;
+  }
+  const year = Number(quest.year);
+  const match = String(quest.quarter ?? "").match(/Q([1-4])/i);
+  const startMonth = match ? (parseInt(match[1]) - 1) * 3 : 0;
+  const months = match ? 3 : 12;
+  const status = quest.isActive === false ? suggestedQuestOutcome(Number(quest.progress ?? 0)) : "active";
+  return {
+    ...quest,
+    startDate: new Date(Date.UTC(year, startMonth, 1)).toISOString().slice(0, 10),
+    endDate: new Date(Date.UTC(year, startMonth + months, 0)).toISOString().slice(0, 10),
+    status,
+  };
+}
+
+// Version 1 review summaries marked each quest active or not, rather than giving its status
+function upgradeAnnualReview(review: SourceRow): SourceRow {
+  const summary = review.summary as { quests?: SourceRow[] } | undefined;
+  if (!Array.isArray(summary?.quests)) {
+    return review;
+  }
+  const quests = summary.quests.map(({ isActive, ...quest }) => quest.status ? quest : {
+    ...quest,
+    status: isActive ? "active" : suggestedQuestOutcome(Number(quest.progress ?? 0)),
+  });
+  return { ...review, summary: { ...summary, quests } };
+}
+
+function mapId(ids: Map<string, string>, oldId: unknown): string | null {
+  return oldId ? ids.get(String(oldId)) ?? null : null;
+}
+
+function taskKey(title: unknown, date: unknown): string {
+  return `${String(date)}:${String(title).trim().toLowerCase()}`;
+}
+
+function sessionKey(session: SourceRow): string {
+  const startedAt = toDate(session.startedAt ?? session.createdAt);
+  return `${session.type}:${session.duration}:${startedAt?.toISOString() ?? ""}`;
+}
+
+// Preferences that matter to the user; bookkeeping columns are ignored
+function settingsDiffer(imported: SourceRow, current: UserExport["settings"]): boolean {
+  return Object.entries(current).some(([key, value]) =>
+    key !== "userId" && key !== "updatedAt" && key in imported && imported[key] !== value
+  );
+}
+
+function emptyRecords(): ImportRecords {
+  return {
+    visionPlans: [],
+    visionPlanRevisions: [],
+    quarterlyQuests: [],
+    visionCards: [],
+    visionCardQuests: [],
+    questKeyResults: [],
+    questMilestones: [],
+    questProgressHistory: [],
+    weeklyPlans: [],
+    recurringTasks: [],
+    dailyTasks: [],
+    habits: [],
+    habitCheckIns: [],
+    pomodoroSessions: [],
+    pomodoroInterruptions: [],
+    dailyReflections: [],
+    quarterlyReviews: [],
+    annualReviews: [],
+  };
+}
+
+function countRecords(records: ImportRecords): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(records)
+      .filter(([, rows]) => rows.length > 0)
+      .map(([entity, rows]) => [entity, rows.length])
+  );
+}
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import path from "path"; // <-- ADD THIS
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReminderScheduler } from "./reminders";
+import { startUploadSweeper } from "./uploads";
 
 const app = express();
 app.use(express.json());
@@ -55,5 +57,7 @@ app.use((req, res, next) => {
   const port = parseInt(process.env.PORT || "5000", 10);
   server.listen({ port, host: "0.0.0.0", reusePort: true }, () => {
     log(`serving on port ${port}`);
+    startReminderScheduler();
+    startUploadSweeper();
   });
 })();
\ No newline at end of file
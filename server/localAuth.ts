@@ -0,0 +1,126 @@
+// server/localAuth.ts
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request } from "express";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { localLoginSchema, localRegistrationSchema, type User } from "@shared/schema";
+import { storage } from "./storage";
+import type { AuthProvider, SessionUser } from "./auth";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+// Hashed against when the email is unknown, so a miss takes as long as a wrong password
+const DUMMY_PASSWORD_HASH = "scrypt:00000000000000000000000000000000:" + "0".repeat(PASSWORD_KEY_LENGTH * 2);
+
+// Email and password accounts stored in this app's own database.
+// Set ALLOW_REGISTRATION=false to stop new sign-ups once everyone has an account.
+export function localProvider(): AuthProvider {
+  const registration = process.env.ALLOW_REGISTRATION !== "false";
+
+  return {
+    name: "local",
+    registration,
+
+    async setup(app: Express) {
+      passport.use(
+        new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+          try {
+            const user = await storage.getUserByEmail(email);
+            const passwordHash = user ? await storage.getPasswordHash(user.id) : undefined;
+            const matches = await verifyPassword(password, passwordHash ?? DUMMY_PASSWORD_HASH);
+            done(null, user && passwordHash && matches ? sessionUser(user) : false);
+          } catch (error) {
+            done(error);
+          }
+        }),
+      );
+
+      // The login form lives in the client; everything that sends people to /api/login lands there
+      app.get("/api/login", (_req, res) => {
+        res.redirect("/login");
+      });
+
+      app.post("/api/auth/login", (req, res, next) => {
+        const credentials = localLoginSchema.safeParse(req.body);
+        if (!credentials.success) {
+          return res.status(400).json({ message: "Enter your email and password" });
+        }
+        req.body = credentials.data;
+        passport.authenticate("local", (error: unknown, user: SessionUser | false) => {
+          if (error) {
+            console.error("Error logging in:", error);
+            return res.status(500).json({ message: "Failed to log in" });
+          }
+          if (!user) {
+            return res.status(401).json({ message: "Incorrect email or password" });
+          }
+          logIn(req, user)
+            .then(() => res.json({ success: true }))
+            .catch(next);
+        })(req, res, next);
+      });
+
+      app.post("/api/auth/register", async (req, res) => {
+        if (!registration) {
+          return res.status(403).json({ message: "Registration is closed" });
+        }
+        const parsed = localRegistrationSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid registration data" });
+        }
+
+        try {
+          const { email, password, firstName, lastName } = parsed.data;
+          if (await storage.getUserByEmail(email)) {
+            return res.status(409).json({ message: "An account with this email already exists" });
+          }
+          const user = await storage.createLocalUser(
+            { email, firstName: firstName || null, lastName: lastName || null },
+            await hashPassword(password),
+          );
+          await logIn(req, sessionUser(user));
+          res.status(201).json(user);
+        } catch (error) {
+          console.error("Error registering user:", error);
+          res.status(500).json({ message: "Failed to create account" });
+        }
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          res.redirect("/");
+        });
+      });
+    },
+  };
+}
+
+function sessionUser(user: User): SessionUser {
+  return { claims: { sub: user.id, email: user.email } };
+}
+
+function logIn(req: Request, user: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+// Stored as scrypt:<salt>:<key>, both hex
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, storedKey] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !storedKey) {
+    return false;
+  }
+  const expected = Buffer.from(storedKey, "hex");
+  const key = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(key, expected);
+}
@@ -0,0 +1,50 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { pool } from "./db";
+
+// Data changes `drizzle-kit push` can't make on its own, applied in name order before every push.
+// They live apart from drizzle-kit's own migrations folder, and each runs once: applied names are
+// recorded in data_migrations in the same transaction as the script.
+const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "..", "data-migrations");
+
+async function migrate() {
+  const client = await pool.connect();
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS data_migrations (
+        name varchar PRIMARY KEY,
+        applied_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+    const { rows } = await client.query("SELECT name FROM data_migrations");
+    const applied = new Set(rows.map(row => row.name as string));
+
+    const files = (await readdir(MIGRATIONS_DIR)).filter(file => file.endsWith(".sql")).sort();
+    for (const file of files) {
+      if (applied.has(file)) {
+        continue;
+      }
+      console.log(`Applying ${file}`);
+      const script = await readFile(path.join(MIGRATIONS_DIR, file), "utf8");
+      try {
+        await client.query("BEGIN");
+        await client.query(script);
+        await client.query("INSERT INTO data_migrations (name) VALUES ($1)", [file]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    }
+  } finally {
+    client.release();
+  }
+}
+
+migrate()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error("Migration failed:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -1,27 +1,10 @@
-import { Storage, File } from "@google-cloud/storage";
-import { Response } from "express";
+import type { Express, Response } from "express";
+import type { Readable } from "stream";
 import { randomUUID } from "crypto";
-
-const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
-
-// The object storage client is used to interact with the object storage service.
-export const objectStorageClient = new Storage({
-  credentials: {
-    audience: "replit",
-    subject_token_type: "access_token",
-    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
-    type: "external_account",
-    credential_source: {
-      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
-      format: {
-        type: "json",
-        subject_token_field_name: "access_token",
-      },
-    },
-    universe_domain: "googleapis.com",
-  },
-  projectId: "",
-});
+import { imageVariants, type ImageVariant } from "@shared/schema";
+import { replitStorageDriver } from "./replitStorage";
+import { diskStorageDriver } from "./diskStorage";
+import { s3StorageDriver } from "./s3Storage";
 
 export class ObjectNotFoundError extends Error {
   constructor() {
@@ -31,77 +14,85 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
-// The object storage service is used to interact with the object storage service.
-export class ObjectStorageService {
-  constructor() {}
+export const storageDriverNames = ["replit", "local", "s3"] as const;
+export type StorageDriverName = typeof storageDriverNames[number];
 
-  // Gets the public object search paths.
-  getPublicObjectSearchPaths(): Array<string> {
-    const pathsStr = process.env.PUBLIC_OBJECT_SEARCH_PATHS || "";
-    const paths = Array.from(
-      new Set(
-        pathsStr
-          .split(",")
-          .map((path) => path.trim())
-          .filter((path) => path.length > 0)
-      )
-    );
-    if (paths.length === 0) {
-      throw new Error(
-        "PUBLIC_OBJECT_SEARCH_PATHS not set. Create a bucket in 'Object Storage' " +
-          "tool and set PUBLIC_OBJECT_SEARCH_PATHS env var (comma-separated paths)."
-      );
-    }
-    return paths;
-  }
+export interface ObjectMetadata {
+  contentType?: string;
+  size: number;
+}
+
+export interface UploadConstraints {
+  contentType: string;
+  maxBytes: number;
+}
+
+// A backend holding object entities. Keys are relative paths such as "vision-images/<id>";
+// each driver decides where they actually live.
+export interface StorageDriver {
+  name: StorageDriverName;
+  // Signed URL the browser PUTs a new object to. Drivers enforce as much of the constraints
+  // as their backend can; the upload is checked again when it is confirmed.
+  getUploadURL(key: string, ttlSec: number, constraints: UploadConstraints): Promise<string>;
+  // The key behind one of this driver's upload URLs (query string removed), or null for any other URL
+  keyFromURL(url: string): string | null;
+  // Throws ObjectNotFoundError when there is no such object
+  getMetadata(key: string): Promise<ObjectMetadata>;
+  createReadStream(key: string): Promise<Readable>;
+  // Stores an object the server produced itself, such as a resized image
+  write(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Deleting an object that is already gone is not an error
+  delete(key: string): Promise<void>;
+  // Routes the driver serves itself, like the local driver's upload endpoint
+  registerRoutes?(app: Express): void;
+}
 
-  // Gets the private object directory.
-  getPrivateObjectDir(): string {
-    const dir = process.env.PRIVATE_OBJECT_DIR || "";
-    if (!dir) {
+// An object entity known to exist, as returned by getObjectEntityFile
+export interface ObjectFile {
+  key: string;
+  metadata: ObjectMetadata;
+}
+
+// OBJECT_STORAGE_DRIVER picks the backend. Without it, Replit keeps its sidecar-backed
+// bucket and everywhere else stores files on local disk.
+export function createStorageDriver(): StorageDriver {
+  const configured = process.env.OBJECT_STORAGE_DRIVER ?? (process.env.REPL_ID ? "replit" : "local");
+  switch (configured) {
+    case "replit":
+      return replitStorageDriver();
+    case "local":
+      return diskStorageDriver();
+    case "s3":
+      return s3StorageDriver();
+    default:
       throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
+        `Unknown OBJECT_STORAGE_DRIVER "${configured}". Use one of: ${storageDriverNames.join(", ")}`
       );
-    }
-    return dir;
   }
+}
 
-  // Search for a public object from the search paths.
-  async searchPublicObject(filePath: string): Promise<File | null> {
-    for (const searchPath of this.getPublicObjectSearchPaths()) {
-      const fullPath = `${searchPath}/${filePath}`;
-
-      // Full path format: /<bucket_name>/<object_name>
-      const { bucketName, objectName } = parseObjectPath(fullPath);
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
-
-      // Check if file exists
-      const [exists] = await file.exists();
-      if (exists) {
-        return file;
-      }
-    }
+// The object storage service is used to interact with the object storage service.
+export class ObjectStorageService {
+  constructor(private readonly driver: StorageDriver = createStorageDriver()) {}
 
-    return null;
+  // Registers any routes the storage driver needs.
+  registerRoutes(app: Express) {
+    this.driver.registerRoutes?.(app);
   }
 
   // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  async downloadObject(file: ObjectFile, res: Response, cacheTtlSec: number = 3600) {
     try {
-      // Get file metadata
-      const [metadata] = await file.getMetadata();
-      
       // Set appropriate headers
       res.set({
-        "Content-Type": metadata.contentType || "application/octet-stream",
-        "Content-Length": metadata.size,
-        "Cache-Control": `public, max-age=${cacheTtlSec}`,
+        "Content-Type": file.metadata.contentType || "application/octet-stream",
+        "Content-Length": String(file.metadata.size),
+        // Objects are access-controlled, so only the viewer's browser may keep a copy
+        "Cache-Control": `private, max-age=${cacheTtlSec}`,
       });
 
       // Stream the file to the response
-      const stream = file.createReadStream();
+      const stream = await this.driver.createReadStream(file.key);
 
       stream.on("error", (err: any) => {
         console.error("Stream error:", err);
@@ -119,138 +110,80 @@ export class ObjectStorageService {
     }
   }
 
-  // Gets the upload URL for an object entity.
-  async getObjectEntityUploadURL(): Promise<string> {
-    const privateObjectDir = this.getPrivateObjectDir();
-    if (!privateObjectDir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
-    }
-
-    const objectId = randomUUID();
-    const fullPath = `${privateObjectDir}/vision-images/${objectId}`;
-
-    const { bucketName, objectName } = parseObjectPath(fullPath);
-
-    // Sign URL for PUT method with TTL
-    return signObjectURL({
-      bucketName,
-      objectName,
-      method: "PUT",
-      ttlSec: 900,
-    });
+  // Gets the upload URL for a new object entity, along with the path it will have.
+  async getObjectEntityUploadURL(
+    constraints: UploadConstraints,
+    ttlSec: number,
+  ): Promise<{ uploadURL: string; objectPath: string }> {
+    const key = `vision-images/${randomUUID()}`;
+    const uploadURL = await this.driver.getUploadURL(key, ttlSec, constraints);
+    return { uploadURL, objectPath: `/objects/${key}` };
   }
 
+  // Turns an upload URL into the /objects/... path the app stores; other URLs pass through.
   normalizeObjectEntityPath(
     rawPath: string,
   ): string {
-    if (!rawPath.startsWith("https://storage.googleapis.com/")) {
-      return rawPath;
-    }
-  
-    // Extract the path from the URL by removing query parameters and domain
-    const url = new URL(rawPath);
-    const rawObjectPath = url.pathname;
-  
-    let objectEntityDir = this.getPrivateObjectDir();
-    if (!objectEntityDir.endsWith("/")) {
-      objectEntityDir = `${objectEntityDir}/`;
-    }
-  
-    if (!rawObjectPath.startsWith(objectEntityDir)) {
-      return rawObjectPath;
-    }
+    const key = this.driver.keyFromURL(rawPath);
+    return key ? `/objects/${key}` : rawPath;
+  }
 
-    // Extract the entity ID from the path
-    const entityId = rawObjectPath.slice(objectEntityDir.length);
-    return `/objects/${entityId}`;
+  // Gets the object entity file from the object path, or one of its image variants.
+  async getObjectEntityFile(objectPath: string, variant: ImageVariant = "original"): Promise<ObjectFile> {
+    const key = variantKey(objectKey(objectPath), variant);
+    const metadata = await this.driver.getMetadata(key);
+    return { key, metadata };
   }
 
-  // Gets the object entity file from the object path.
-  async getObjectEntityFile(objectPath: string): Promise<File> {
-    if (!objectPath.startsWith("/objects/")) {
-      throw new ObjectNotFoundError();
+  // Reads a whole object entity into memory; meant for images, which are size-checked first.
+  async readObjectEntity(file: ObjectFile): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.driver.createReadStream(file.key)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
     }
+    return Buffer.concat(chunks);
+  }
 
-    const parts = objectPath.slice(1).split("/");
-    if (parts.length < 2) {
-      throw new ObjectNotFoundError();
-    }
+  // Writes an object entity, or one of its image variants, at the object path.
+  async writeObjectEntity(
+    objectPath: string,
+    body: Buffer,
+    contentType: string,
+    variant: ImageVariant = "original",
+  ): Promise<void> {
+    await this.driver.write(variantKey(objectKey(objectPath), variant), body, contentType);
+  }
 
-    const entityId = parts.slice(1).join("/");
-    let entityDir = this.getPrivateObjectDir();
-    if (!entityDir.endsWith("/")) {
-      entityDir = `${entityDir}/`;
-    }
-    const objectEntityPath = `${entityDir}${entityId}`;
-    const { bucketName, objectName } = parseObjectPath(objectEntityPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const objectFile = bucket.file(objectName);
-    const [exists] = await objectFile.exists();
-    if (!exists) {
-      throw new ObjectNotFoundError();
+  // Deletes the object entity at the object path along with its variants. Objects that are
+  // already gone are ignored.
+  async deleteObjectEntity(objectPath: string): Promise<void> {
+    try {
+      const key = objectKey(objectPath);
+      for (const variant of imageVariants) {
+        await this.driver.delete(variantKey(key, variant));
+      }
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return;
+      }
+      throw error;
     }
-    return objectFile;
   }
 }
 
-function parseObjectPath(path: string): {
-  bucketName: string;
-  objectName: string;
-} {
-  if (!path.startsWith("/")) {
-    path = `/${path}`;
-  }
-  const pathParts = path.split("/");
-  if (pathParts.length < 3) {
-    throw new Error("Invalid path: must contain at least a bucket name");
-  }
-
-  const bucketName = pathParts[1];
-  const objectName = pathParts.slice(2).join("/");
-
-  return {
-    bucketName,
-    objectName,
-  };
+// Variants sit beside the original: "vision-images/<id>.thumb"
+function variantKey(key: string, variant: ImageVariant): string {
+  return variant === "original" ? key : `${key}.${variant}`;
 }
 
-async function signObjectURL({
-  bucketName,
-  objectName,
-  method,
-  ttlSec,
-}: {
-  bucketName: string;
-  objectName: string;
-  method: "GET" | "PUT" | "DELETE" | "HEAD";
-  ttlSec: number;
-}): Promise<string> {
-  const request = {
-    bucket_name: bucketName,
-    object_name: objectName,
-    method,
-    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
-  };
-  const response = await fetch(
-    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(request),
-    }
-  );
-  if (!response.ok) {
-    throw new Error(
-      `Failed to sign object URL, errorcode: ${response.status}, ` +
-        `make sure you're running on Replit`
-    );
+// "/objects/vision-images/<id>" -> "vision-images/<id>"
+function objectKey(objectPath: string): string {
+  if (!objectPath.startsWith("/objects/")) {
+    throw new ObjectNotFoundError();
   }
-
-  const { signed_url: signedURL } = await response.json();
-  return signedURL;
-}
\ No newline at end of file
+  const key = objectPath.slice("/objects/".length);
+  if (!key || key.split("/").some(segment => segment === "" || segment === "." || segment === "..")) {
+    throw new ObjectNotFoundError();
+  }
+  return key;
+}
@@ -0,0 +1,171 @@
+// server/oidcAuth.ts
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+import passport from "passport";
+import type { Express, Request } from "express";
+import memoize from "memoizee";
+import { storage } from "./storage";
+import type { AuthProvider, SessionUser } from "./auth";
+
+interface OidcSettings {
+  name: "replit" | "oidc";
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+  prompt?: string;
+  // Public base URL for each hostname the app answers on, e.g. "example.com" -> "https://example.com"
+  origins: Map<string, string>;
+}
+
+// Replit Auth: one callback per deployment domain in REPLIT_DOMAINS
+export function replitProvider(): AuthProvider {
+  const domains = process.env.REPLIT_DOMAINS?.split(",").map(domain => domain.trim()).filter(Boolean);
+  if (!domains?.length) {
+    throw new Error("Environment variable REPLIT_DOMAINS not provided");
+  }
+  const clientId = process.env.CLIENT_ID ?? process.env.REPL_ID;
+  if (!clientId) {
+    throw new Error("Environment variable CLIENT_ID (or REPL_ID) not provided");
+  }
+  return createOidcProvider({
+    name: "replit",
+    issuerUrl: process.env.ISSUER_URL ?? "https://accounts.google.com",
+    clientId,
+    scope: "openid email profile offline_access",
+    prompt: "login consent",
+    origins: new Map(domains.map(domain => [domain, `https://${domain}`])),
+  });
+}
+
+// Any OpenID Connect issuer (Google, Auth0, Keycloak, ...), configured through OIDC_* variables.
+// APP_URL is the public address the issuer redirects back to.
+export function oidcProvider(): AuthProvider {
+  const issuerUrl = process.env.OIDC_ISSUER_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const appUrl = process.env.APP_URL;
+  if (!issuerUrl || !clientId || !appUrl) {
+    throw new Error("OIDC_ISSUER_URL, OIDC_CLIENT_ID and APP_URL must be set to use AUTH_PROVIDER=oidc");
+  }
+  const origin = new URL(appUrl);
+  return createOidcProvider({
+    name: "oidc",
+    issuerUrl,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scope: process.env.OIDC_SCOPES ?? "openid email profile",
+    origins: new Map([[origin.hostname, origin.origin]]),
+  });
+}
+
+function createOidcProvider(settings: OidcSettings): AuthProvider {
+  //  READ CONFIG AT RUNTIME – NOT AT IMPORT
+  const getOidcConfig = memoize(
+    async () => {
+      return await client.discovery(
+        new URL(settings.issuerUrl),
+        settings.clientId,
+        settings.clientSecret
+      );
+    },
+    { maxAge: 3600 * 1000 }
+  );
+
+  const hostnames = Array.from(settings.origins.keys());
+  // Unknown hosts (a proxy rewriting Host, say) fall back to the first configured one
+  const strategyName = (req: Request) =>
+    `${settings.name}:${settings.origins.has(req.hostname) ? req.hostname : hostnames[0]}`;
+
+  return {
+    name: settings.name,
+    registration: false,
+
+    async setup(app: Express) {
+      const config = await getOidcConfig();
+
+      const verify: VerifyFunction = async (
+        tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+        verified: passport.AuthenticateCallback
+      ) => {
+        const user = {} as SessionUser;
+        updateUserSession(user, tokens);
+        await upsertUser(tokens.claims());
+        verified(null, user);
+      };
+
+      // build strategy for every allowed domain
+      for (const [hostname, origin] of Array.from(settings.origins)) {
+        const strategy = new Strategy(
+          {
+            name: `${settings.name}:${hostname}`,
+            config,
+            scope: settings.scope,
+            callbackURL: `${origin}/api/callback`,
+          },
+          verify,
+        );
+        passport.use(strategy);
+      }
+
+      app.get("/api/login", (req, res, next) => {
+        passport.authenticate(strategyName(req), {
+          prompt: settings.prompt,
+          scope: settings.scope.split(" "),
+        })(req, res, next);
+      });
+
+      app.get("/api/callback", (req, res, next) => {
+        passport.authenticate(strategyName(req), {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          const origin = settings.origins.get(req.hostname) ?? `${req.protocol}://${req.hostname}`;
+          // Not every issuer offers RP-initiated logout; Google, for one, doesn't
+          if (!config.serverMetadata().end_session_endpoint) {
+            return res.redirect("/");
+          }
+          res.redirect(
+            client.buildEndSessionUrl(config, {
+              client_id: settings.clientId,
+              post_logout_redirect_uri: origin,
+            }).href
+          );
+        });
+      });
+    },
+
+    async refresh(user: SessionUser) {
+      if (!user.refresh_token) {
+        return false;
+      }
+      const config = await getOidcConfig();
+      const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+      updateUserSession(user, tokenResponse);
+      return true;
+    },
+  };
+}
+
+function updateUserSession(
+  user: SessionUser,
+  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+) {
+  user.claims = tokens.claims() as SessionUser["claims"];
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token;
+  user.expires_at = user.claims?.exp as number | undefined;
+}
+
+async function upsertUser(claims: any) {
+  await storage.upsertUser({
+    id: claims["sub"],
+    email: claims["email"],
+    firstName: claims["given_name"] ?? claims["first_name"],
+    lastName: claims["family_name"] ?? claims["last_name"],
+    profileImageUrl: claims["picture"] ?? claims["profile_image_url"],
+  });
+}
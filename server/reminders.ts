@@ -0,0 +1,50 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { dateInTimeZone } from "@shared/dates";
+
+// How often reminders are generated; each reminder is created at most once per day or week
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+let isRunning = false;
+
+export async function runReminderPass(now = new Date()): Promise<number> {
+  if (isRunning) {
+    return 0;
+  }
+  isRunning = true;
+
+  let created = 0;
+  try {
+    const recipients = await storage.getReminderRecipients();
+    for (const recipient of recipients) {
+      try {
+        const today = dateInTimeZone(now, recipient.timeZone);
+        const joinedOn = recipient.joinedAt ? dateInTimeZone(recipient.joinedAt, recipient.timeZone) : null;
+        const reminders = await storage.generateReminders(recipient.userId, today, recipient.weekStartsOn, joinedOn);
+        created += reminders.length;
+      } catch (error) {
+        console.error(`Error generating reminders for user ${recipient.userId}:`, error);
+      }
+    }
+  } finally {
+    isRunning = false;
+  }
+  return created;
+}
+
+export function startReminderScheduler() {
+  const tick = () => {
+    runReminderPass()
+      .then((created) => {
+        if (created > 0) {
+          log(`created ${created} reminder notification(s)`, "reminders");
+        }
+      })
+      .catch((error) => console.error("Error running reminder scheduler:", error));
+  };
+
+  tick();
+  const timer = setInterval(tick, REMINDER_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,157 @@
+import { Storage } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import { ObjectNotFoundError, type ObjectMetadata, type StorageDriver } from "./objectStorage";
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+
+// The object storage client is used to interact with the object storage service.
+export const objectStorageClient = new Storage({
+  credentials: {
+    audience: "replit",
+    subject_token_type: "access_token",
+    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+    type: "external_account",
+    credential_source: {
+      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+      format: {
+        type: "json",
+        subject_token_field_name: "access_token",
+      },
+    },
+    universe_domain: "googleapis.com",
+  },
+  projectId: "",
+});
+
+// Replit Object Storage: a Google Cloud Storage bucket reached through the Replit sidecar.
+// Keys live under PRIVATE_OBJECT_DIR (/<bucket_name>/<dir>).
+export function replitStorageDriver(): StorageDriver {
+  const objectFile = (key: string) => {
+    const { bucketName, objectName } = parseObjectPath(`${getPrivateObjectDir()}/${key}`);
+    return objectStorageClient.bucket(bucketName).file(objectName);
+  };
+
+  return {
+    name: "replit",
+
+    // The sidecar can't bind a content type or size to the URL, so both are checked on confirmation
+    async getUploadURL(key: string, ttlSec: number): Promise<string> {
+      const { bucketName, objectName } = parseObjectPath(`${getPrivateObjectDir()}/${key}`);
+
+      // Sign URL for PUT method with TTL
+      return signObjectURL({
+        bucketName,
+        objectName,
+        method: "PUT",
+        ttlSec,
+      });
+    },
+
+    keyFromURL(url: string): string | null {
+      if (!url.startsWith("https://storage.googleapis.com/")) {
+        return null;
+      }
+
+      // Extract the path from the URL by removing query parameters and domain
+      const rawObjectPath = new URL(url).pathname;
+      const objectEntityDir = `${getPrivateObjectDir()}/`;
+      if (!rawObjectPath.startsWith(objectEntityDir)) {
+        return null;
+      }
+      return rawObjectPath.slice(objectEntityDir.length);
+    },
+
+    async getMetadata(key: string): Promise<ObjectMetadata> {
+      const file = objectFile(key);
+      const [exists] = await file.exists();
+      if (!exists) {
+        throw new ObjectNotFoundError();
+      }
+      const [metadata] = await file.getMetadata();
+      return { contentType: metadata.contentType, size: Number(metadata.size ?? 0) };
+    },
+
+    async createReadStream(key: string): Promise<Readable> {
+      return objectFile(key).createReadStream();
+    },
+
+    async write(key: string, body: Buffer, contentType: string): Promise<void> {
+      await objectFile(key).save(body, { contentType, resumable: false });
+    },
+
+    async delete(key: string): Promise<void> {
+      await objectFile(key).delete({ ignoreNotFound: true });
+    },
+  };
+}
+
+// Gets the private object directory, without a trailing slash.
+function getPrivateObjectDir(): string {
+  const dir = process.env.PRIVATE_OBJECT_DIR || "";
+  if (!dir) {
+    throw new Error(
+      "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
+        "tool and set PRIVATE_OBJECT_DIR env var."
+    );
+  }
+  return dir.replace(/\/+$/, "");
+}
+
+function parseObjectPath(path: string): {
+  bucketName: string;
+  objectName: string;
+} {
+  if (!path.startsWith("/")) {
+    path = `/${path}`;
+  }
+  const pathParts = path.split("/");
+  if (pathParts.length < 3) {
+    throw new Error("Invalid path: must contain at least a bucket name");
+  }
+
+  const bucketName = pathParts[1];
+  const objectName = pathParts.slice(2).join("/");
+
+  return {
+    bucketName,
+    objectName,
+  };
+}
+
+async function signObjectURL({
+  bucketName,
+  objectName,
+  method,
+  ttlSec,
+}: {
+  bucketName: string;
+  objectName: string;
+  method: "GET" | "PUT" | "DELETE" | "HEAD";
+  ttlSec: number;
+}): Promise<string> {
+  const request = {
+    bucket_name: bucketName,
+    object_name: objectName,
+    method,
+    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+  };
+  const response = await fetch(
+    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to sign object URL, errorcode: ${response.status}, ` +
+        `make sure you're running on Replit`
+    );
+  }
+
+  const { signed_url: signedURL } = await response.json();
+  return signedURL;
+}
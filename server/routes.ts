@@ -1,23 +1,54 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
+import { createHash, randomBytes } from "crypto";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated } from "./auth";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { processUploadedImage, ImageValidationError, IMAGE_MAX_BYTES } from "./imageProcessing";
+import { diffVisionRevisions } from "./visionHistory";
+import { canConfirmUpload, storageQuotaBytes, UPLOAD_URL_TTL_SEC } from "./uploads";
+import { createExportArchive, exportFormats } from "./export";
+import { detectImport, planBundleImport, planCsvImport, ImportFormatError, IMPORT_MAX_BYTES } from "./import";
 import {
   insertVisionPlanSchema,
+  insertVisionCardSchema,
   insertQuarterlyQuestSchema,
+  insertQuestKeyResultSchema,
+  insertQuestMilestoneSchema,
   insertWeeklyPlanSchema,
   insertDailyTaskSchema,
+  insertRecurringTaskSchema,
+  taskRolloverSchema,
+  insertHabitSchema,
   insertPomodoroSessionSchema,
+  insertUserSettingsSchema,
+  pomodoroStartSchema,
+  insertPomodoroInterruptionSchema,
+  pomodoroRatingSchema,
   insertDailyReflectionSchema,
   insertErrorLogSchema,
+  accountDeletionSchema,
+  quarterlyReviewSchema,
+  annualReviewSchema,
+  objectVisibilitySchema,
+  objectShareLinkSchema,
+  isoDateSchema,
+  imageVariants,
+  uploadRequestSchema,
+  type ImportReport,
+  type StorageUsage,
+  type CreatedShareLink,
 } from "@shared/schema";
 import { z } from "zod";
+import { dateInTimeZone } from "@shared/dates";
+import { isActiveQuest, nextQuarter, quarterOf } from "@shared/quests";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  const objectStorageService = new ObjectStorageService();
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -30,6 +61,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Permanently erases the account: uploaded vision images, error logs, login sessions and,
+  // through the cascades, every row the user owns
+  app.delete('/api/auth/user', isAuthenticated, async (req: any, res) => {
+    const confirmation = accountDeletionSchema.safeParse(req.body);
+    if (!confirmation.success) {
+      return res.status(400).json({ message: "Type DELETE to confirm account deletion" });
+    }
+
+    try {
+      const userId = req.user.claims.sub;
+      // Images go first: once the rows are gone nothing points at them anymore
+      const cards = await storage.getVisionCards(userId);
+      const objectPaths = new Set(await storage.getOwnedObjectPaths(userId));
+      for (const card of cards) {
+        if (card.imageUrl?.startsWith("/objects/")) {
+          objectPaths.add(card.imageUrl);
+        }
+      }
+      for (const objectPath of Array.from(objectPaths)) {
+        await objectStorageService.deleteObjectEntity(objectPath);
+      }
+      await storage.deleteUser(userId);
+
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
   // Vision Plan routes
   app.get("/api/vision", isAuthenticated, async (req: any, res) => {
     try {
@@ -54,6 +118,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Vision plan history: every save is a revision, newest first
+  app.get("/api/vision/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const revisions = await storage.getVisionPlanRevisions(userId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching vision plan revisions:", error);
+      res.status(500).json({ message: "Failed to fetch vision plan history" });
+    }
+  });
+
+  app.get("/api/vision/revisions/diff", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const from = parseRevision(req.query.from);
+      const to = parseRevision(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ message: "from and to must be revision numbers" });
+      }
+
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getVisionPlanRevision(userId, from),
+        storage.getVisionPlanRevision(userId, to),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(diffVisionRevisions(fromRevision, toRevision));
+    } catch (error) {
+      console.error("Error comparing vision plan revisions:", error);
+      res.status(500).json({ message: "Failed to compare revisions" });
+    }
+  });
+
+  // Restoring saves the old version again as the newest revision
+  app.post("/api/vision/revisions/:revision/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const revision = parseRevision(req.params.revision);
+      if (revision === null) {
+        return res.status(400).json({ message: "Invalid revision number" });
+      }
+      const visionPlan = await storage.restoreVisionPlanRevision(userId, revision);
+      if (!visionPlan) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(visionPlan);
+    } catch (error) {
+      console.error("Error restoring vision plan revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // Vision Card routes
+  app.get("/api/vision-cards", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const cards = await storage.getVisionCards(userId);
+      res.json(cards);
+    } catch (error) {
+      console.error("Error fetching vision cards:", error);
+      res.status(500).json({ message: "Failed to fetch vision cards" });
+    }
+  });
+
+  app.post("/api/vision-cards", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { questIds, ...cardData } = req.body;
+      const validatedData = insertVisionCardSchema.parse({ ...cardData, userId });
+      if (!(await canUseImage(validatedData.imageUrl, userId))) {
+        return res.status(403).json({ message: "That image wasn't uploaded from your account" });
+      }
+      const validatedQuestIds = z.array(z.string()).default([]).parse(questIds);
+      const card = await storage.createVisionCard(validatedData);
+      const linkedQuestIds = await storage.setVisionCardQuests(card.id, userId, validatedQuestIds);
+      res.json({ ...card, questIds: linkedQuestIds });
+    } catch (error) {
+      console.error("Error creating vision card:", error);
+      res.status(400).json({ message: "Invalid vision card data" });
+    }
+  });
+
+  app.patch("/api/vision-cards/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const cardId = req.params.id;
+      const { questIds, ...cardUpdates } = req.body;
+      const updates = insertVisionCardSchema.partial().omit({ userId: true }).parse(cardUpdates);
+      if (!(await canUseImage(updates.imageUrl, userId))) {
+        return res.status(403).json({ message: "That image wasn't uploaded from your account" });
+      }
+      const card = await storage.updateVisionCard(cardId, userId, updates);
+      if (!card) {
+        return res.status(404).json({ message: "Vision card not found" });
+      }
+      if (questIds !== undefined) {
+        const linkedQuestIds = await storage.setVisionCardQuests(card.id, userId, z.array(z.string()).parse(questIds));
+        return res.json({ ...card, questIds: linkedQuestIds });
+      }
+      res.json(card);
+    } catch (error) {
+      console.error("Error updating vision card:", error);
+      res.status(400).json({ message: "Failed to update vision card" });
+    }
+  });
+
+  app.delete("/api/vision-cards/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const cardId = req.params.id;
+      await storage.deleteVisionCard(cardId, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting vision card:", error);
+      res.status(400).json({ message: "Failed to delete vision card" });
+    }
+  });
+
   // Quarterly Quest routes
   app.get("/api/quarterly-quests", isAuthenticated, async (req: any, res) => {
     try {
@@ -70,6 +254,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertQuarterlyQuestSchema.parse({ ...req.body, userId });
+      if (validatedData.endDate < validatedData.startDate) {
+        return res.status(400).json({ message: "A quest can't end before it starts" });
+      }
       const quest = await storage.createQuarterlyQuest(validatedData);
       res.json(quest);
     } catch (error) {
@@ -82,7 +269,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const questId = req.params.id;
-      const updates = req.body;
+      // A quest's outcome is set by the quarterly review that closes it
+      const updates = insertQuarterlyQuestSchema.omit({ userId: true, status: true }).partial().parse(req.body);
+      const existing = await storage.getQuarterlyQuest(questId, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Quarterly quest not found" });
+      }
+      if ((updates.endDate ?? existing.endDate) < (updates.startDate ?? existing.startDate)) {
+        return res.status(400).json({ message: "A quest can't end before it starts" });
+      }
       const quest = await storage.updateQuarterlyQuest(questId, userId, updates);
       res.json(quest);
     } catch (error) {
@@ -91,12 +286,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/quarterly-quests/:id/progress-history", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const history = await storage.getQuestProgressHistory(req.params.id, userId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching quest progress history:", error);
+      res.status(500).json({ message: "Failed to fetch quest progress history" });
+    }
+  });
+
+  app.get("/api/quarterly-quests/:id/habit-adherence", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const date = parseQueryDate(req.query.date);
+      if (date === null) {
+        return res.status(400).json({ message: "date must be a YYYY-MM-DD date" });
+      }
+      const today = date ?? (await userToday(userId));
+      const adherence = await storage.getQuestHabitAdherence(req.params.id, userId, today);
+      res.json({ adherence });
+    } catch (error) {
+      console.error("Error fetching quest habit adherence:", error);
+      res.status(500).json({ message: "Failed to fetch habit adherence" });
+    }
+  });
+
+  // Quest Key Result routes
+  app.get("/api/quarterly-quests/:id/key-results", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const keyResults = await storage.getQuestKeyResults(req.params.id, userId);
+      res.json(keyResults);
+    } catch (error) {
+      console.error("Error fetching key results:", error);
+      res.status(500).json({ message: "Failed to fetch key results" });
+    }
+  });
+
+  app.post("/api/quarterly-quests/:id/key-results", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const quest = await storage.getQuarterlyQuest(req.params.id, userId);
+      if (!quest) {
+        return res.status(404).json({ message: "Quarterly quest not found" });
+      }
+      const validatedData = insertQuestKeyResultSchema.parse({ ...req.body, userId, quarterlyQuestId: quest.id });
+      const keyResult = await storage.createQuestKeyResult(validatedData);
+      res.json(keyResult);
+    } catch (error) {
+      console.error("Error creating key result:", error);
+      res.status(400).json({ message: "Invalid key result data" });
+    }
+  });
+
+  app.patch("/api/quest-key-results/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertQuestKeyResultSchema.partial().omit({ userId: true, quarterlyQuestId: true }).parse(req.body);
+      const keyResult = await storage.updateQuestKeyResult(req.params.id, userId, updates);
+      if (!keyResult) {
+        return res.status(404).json({ message: "Key result not found" });
+      }
+      res.json(keyResult);
+    } catch (error) {
+      console.error("Error updating key result:", error);
+      res.status(400).json({ message: "Failed to update key result" });
+    }
+  });
+
+  app.delete("/api/quest-key-results/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteQuestKeyResult(req.params.id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting key result:", error);
+      res.status(400).json({ message: "Failed to delete key result" });
+    }
+  });
+
+  // Quest Milestone routes
+  app.get("/api/quarterly-quests/:id/milestones", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const milestones = await storage.getQuestMilestones(req.params.id, userId);
+      res.json(milestones);
+    } catch (error) {
+      console.error("Error fetching milestones:", error);
+      res.status(500).json({ message: "Failed to fetch milestones" });
+    }
+  });
+
+  app.post("/api/quarterly-quests/:id/milestones", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const quest = await storage.getQuarterlyQuest(req.params.id, userId);
+      if (!quest) {
+        return res.status(404).json({ message: "Quarterly quest not found" });
+      }
+      const validatedData = insertQuestMilestoneSchema.parse({ ...req.body, userId, quarterlyQuestId: quest.id });
+      const milestone = await storage.createQuestMilestone(validatedData);
+      res.json(milestone);
+    } catch (error) {
+      console.error("Error creating milestone:", error);
+      res.status(400).json({ message: "Invalid milestone data" });
+    }
+  });
+
+  app.patch("/api/quest-milestones/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertQuestMilestoneSchema.partial().omit({ userId: true, quarterlyQuestId: true }).parse(req.body);
+      const milestone = await storage.updateQuestMilestone(req.params.id, userId, updates);
+      if (!milestone) {
+        return res.status(404).json({ message: "Milestone not found" });
+      }
+      res.json(milestone);
+    } catch (error) {
+      console.error("Error updating milestone:", error);
+      res.status(400).json({ message: "Failed to update milestone" });
+    }
+  });
+
+  app.delete("/api/quest-milestones/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteQuestMilestone(req.params.id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting milestone:", error);
+      res.status(400).json({ message: "Failed to delete milestone" });
+    }
+  });
+
   // Weekly Plan routes
   app.get("/api/weekly-plans", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { weekStart } = req.query;
-      const plans = await storage.getWeeklyPlans(userId, weekStart as string);
+      const weekStart = parseQueryDate(req.query.weekStart);
+      if (weekStart === null) {
+        return res.status(400).json({ message: "weekStart must be a YYYY-MM-DD date" });
+      }
+      const plans = await storage.getWeeklyPlans(userId, weekStart);
       res.json(plans);
     } catch (error) {
       console.error("Error fetching weekly plans:", error);
@@ -108,6 +441,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertWeeklyPlanSchema.parse({ ...req.body, userId });
+      if (validatedData.quarterlyQuestId && !(await storage.getQuarterlyQuest(validatedData.quarterlyQuestId, userId))) {
+        return res.status(404).json({ message: "Quarterly quest not found" });
+      }
       const plan = await storage.createWeeklyPlan(validatedData);
       res.json(plan);
     } catch (error) {
@@ -120,8 +456,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const planId = req.params.id;
-      const updates = req.body;
+      // Progress is rolled up from the plan's priorities and tasks
+      const updates = insertWeeklyPlanSchema.omit({ userId: true, progress: true }).partial().parse(req.body);
+      if (updates.quarterlyQuestId && !(await storage.getQuarterlyQuest(updates.quarterlyQuestId, userId))) {
+        return res.status(404).json({ message: "Quarterly quest not found" });
+      }
       const plan = await storage.updateWeeklyPlan(planId, userId, updates);
+      if (!plan) {
+        return res.status(404).json({ message: "Weekly plan not found" });
+      }
       res.json(plan);
     } catch (error) {
       console.error("Error updating weekly plan:", error);
@@ -133,8 +476,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/daily-tasks", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { date } = req.query;
-      const tasks = await storage.getDailyTasks(userId, date as string);
+      const date = parseQueryDate(req.query.date);
+      if (date === null) {
+        return res.status(400).json({ message: "date must be a YYYY-MM-DD date" });
+      }
+      if (date) {
+        await storage.materializeRecurringTasks(userId, date);
+      }
+      const tasks = await storage.getDailyTasks(userId, date);
       res.json(tasks);
     } catch (error) {
       console.error("Error fetching daily tasks:", error);
@@ -146,6 +495,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertDailyTaskSchema.parse({ ...req.body, userId });
+      if (validatedData.weeklyPlanId && !(await storage.getWeeklyPlan(validatedData.weeklyPlanId, userId))) {
+        return res.status(404).json({ message: "Weekly plan not found" });
+      }
       const task = await storage.createDailyTask(validatedData);
       res.json(task);
     } catch (error) {
@@ -154,12 +506,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/daily-tasks/rollover", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const date = parseQueryDate(req.query.date);
+      if (!date) {
+        return res.status(400).json({ message: "date must be a YYYY-MM-DD date" });
+      }
+      const tasks = await storage.getRolloverTasks(userId, date);
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error fetching rollover tasks:", error);
+      res.status(500).json({ message: "Failed to fetch rollover tasks" });
+    }
+  });
+
+  app.post("/api/daily-tasks/rollover", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = taskRolloverSchema.parse(req.body);
+      const tasks = await storage.rolloverDailyTasks(userId, validatedData);
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error rolling over daily tasks:", error);
+      res.status(400).json({ message: "Invalid rollover data" });
+    }
+  });
+
   app.patch("/api/daily-tasks/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const taskId = req.params.id;
-      const updates = req.body;
+      const updates = insertDailyTaskSchema.omit({ userId: true }).partial().parse(req.body);
+      if (updates.weeklyPlanId && !(await storage.getWeeklyPlan(updates.weeklyPlanId, userId))) {
+        return res.status(404).json({ message: "Weekly plan not found" });
+      }
       const task = await storage.updateDailyTask(taskId, userId, updates);
+      if (!task) {
+        return res.status(404).json({ message: "Daily task not found" });
+      }
       res.json(task);
     } catch (error) {
       console.error("Error updating daily task:", error);
@@ -179,6 +564,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recurring Task routes
+  app.get("/api/recurring-tasks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const templates = await storage.getRecurringTasks(userId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching recurring tasks:", error);
+      res.status(500).json({ message: "Failed to fetch recurring tasks" });
+    }
+  });
+
+  app.post("/api/recurring-tasks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertRecurringTaskSchema.parse({ ...req.body, userId });
+      const template = await storage.createRecurringTask(validatedData);
+      res.json(template);
+    } catch (error) {
+      console.error("Error creating recurring task:", error);
+      res.status(400).json({ message: "Invalid recurring task data" });
+    }
+  });
+
+  app.patch("/api/recurring-tasks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertRecurringTaskSchema.partial().omit({ userId: true }).parse(req.body);
+      const template = await storage.updateRecurringTask(req.params.id, userId, updates);
+      if (!template) {
+        return res.status(404).json({ message: "Recurring task not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating recurring task:", error);
+      res.status(400).json({ message: "Failed to update recurring task" });
+    }
+  });
+
+  app.delete("/api/recurring-tasks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteRecurringTask(req.params.id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting recurring task:", error);
+      res.status(400).json({ message: "Failed to delete recurring task" });
+    }
+  });
+
+  // Habit routes
+  app.get("/api/habits", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const date = parseQueryDate(req.query.date);
+      if (date === null) {
+        return res.status(400).json({ message: "date must be a YYYY-MM-DD date" });
+      }
+      const today = date ?? (await userToday(userId));
+      const userHabits = await storage.getHabits(userId, today);
+      res.json(userHabits);
+    } catch (error) {
+      console.error("Error fetching habits:", error);
+      res.status(500).json({ message: "Failed to fetch habits" });
+    }
+  });
+
+  app.post("/api/habits", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertHabitSchema.parse({ ...req.body, userId });
+      const habit = await storage.createHabit(validatedData);
+      res.json(habit);
+    } catch (error) {
+      console.error("Error creating habit:", error);
+      res.status(400).json({ message: "Invalid habit data" });
+    }
+  });
+
+  app.patch("/api/habits/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertHabitSchema.partial().omit({ userId: true }).parse(req.body);
+      const habit = await storage.updateHabit(req.params.id, userId, updates);
+      if (!habit) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      res.json(habit);
+    } catch (error) {
+      console.error("Error updating habit:", error);
+      res.status(400).json({ message: "Failed to update habit" });
+    }
+  });
+
+  app.delete("/api/habits/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteHabit(req.params.id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting habit:", error);
+      res.status(400).json({ message: "Failed to delete habit" });
+    }
+  });
+
+  app.post("/api/habits/:id/check-ins", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { date } = z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/) }).parse(req.body);
+      const checkedIn = await storage.checkInHabit(req.params.id, userId, date);
+      if (!checkedIn) {
+        return res.status(404).json({ message: "Habit not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error checking in habit:", error);
+      res.status(400).json({ message: "Invalid check-in data" });
+    }
+  });
+
+  app.delete("/api/habits/:id/check-ins/:date", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.removeHabitCheckIn(req.params.id, userId, req.params.date);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing habit check-in:", error);
+      res.status(400).json({ message: "Failed to remove check-in" });
+    }
+  });
+
   // Pomodoro Session routes
   app.post("/api/pomodoro-sessions", isAuthenticated, async (req: any, res) => {
     try {
@@ -195,8 +711,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/pomodoro-sessions/stats", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { date } = req.query;
-      const stats = await storage.getPomodoroStats(userId, date as string);
+      const date = parseQueryDate(req.query.date);
+      if (date === null) {
+        return res.status(400).json({ message: "date must be a YYYY-MM-DD date" });
+      }
+      const stats = await storage.getPomodoroStats(userId, date);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching pomodoro stats:", error);
@@ -204,6 +723,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The server clock is returned so clients can correct for their own skew
+  app.get("/api/pomodoro-sessions/active", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const session = await storage.getActivePomodoroSession(userId);
+      res.json({ session: session ?? null, serverTime: new Date().toISOString() });
+    } catch (error) {
+      console.error("Error fetching active pomodoro session:", error);
+      res.status(500).json({ message: "Failed to fetch active pomodoro session" });
+    }
+  });
+
+  app.post("/api/pomodoro-sessions/start", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = pomodoroStartSchema.parse(req.body);
+      const session = await storage.startPomodoroSession(userId, validatedData);
+      res.json(session);
+    } catch (error) {
+      console.error("Error starting pomodoro session:", error);
+      res.status(400).json({ message: "Invalid pomodoro session data" });
+    }
+  });
+
+  app.post("/api/pomodoro-sessions/:id/pause", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const session = await storage.pausePomodoroSession(req.params.id, userId);
+      if (!session) {
+        return res.status(404).json({ message: "Active pomodoro session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error pausing pomodoro session:", error);
+      res.status(400).json({ message: "Failed to pause pomodoro session" });
+    }
+  });
+
+  app.post("/api/pomodoro-sessions/:id/resume", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const session = await storage.resumePomodoroSession(req.params.id, userId);
+      if (!session) {
+        return res.status(404).json({ message: "Active pomodoro session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error resuming pomodoro session:", error);
+      res.status(400).json({ message: "Failed to resume pomodoro session" });
+    }
+  });
+
+  app.post("/api/pomodoro-sessions/:id/stop", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const session = await storage.stopPomodoroSession(req.params.id, userId);
+      if (!session) {
+        return res.status(404).json({ message: "Active pomodoro session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error stopping pomodoro session:", error);
+      res.status(400).json({ message: "Failed to stop pomodoro session" });
+    }
+  });
+
+  app.post("/api/pomodoro-sessions/:id/interruptions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertPomodoroInterruptionSchema.parse({ ...req.body, sessionId: req.params.id, userId });
+      const interruption = await storage.addPomodoroInterruption(validatedData);
+      if (!interruption) {
+        return res.status(404).json({ message: "Work session not found" });
+      }
+      res.json(interruption);
+    } catch (error) {
+      console.error("Error logging pomodoro interruption:", error);
+      res.status(400).json({ message: "Invalid interruption data" });
+    }
+  });
+
+  app.post("/api/pomodoro-sessions/:id/rating", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { focusRating } = pomodoroRatingSchema.parse(req.body);
+      const session = await storage.ratePomodoroSession(req.params.id, userId, focusRating);
+      if (!session) {
+        return res.status(404).json({ message: "Work session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error rating pomodoro session:", error);
+      res.status(400).json({ message: "Invalid focus rating" });
+    }
+  });
+
+  // Settings routes
+  app.get("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getUserSettings(userId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.patch("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertUserSettingsSchema.partial().omit({ userId: true }).parse(req.body);
+      const settings = await storage.updateUserSettings(userId, updates);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      res.status(400).json({ message: "Invalid settings" });
+    }
+  });
+
   // Daily Reflection routes
   app.get("/api/daily-reflections/:date", isAuthenticated, async (req: any, res) => {
     try {
@@ -229,6 +868,282 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Analytics routes
+  app.get("/api/analytics/focus", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { from, to } = parseAnalyticsRange(req.query, await userToday(userId));
+      const data = await storage.getFocusTimeAnalytics(userId, from, to);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching focus time analytics:", error);
+      res.status(400).json({ message: "Failed to fetch focus time analytics" });
+    }
+  });
+
+  app.get("/api/analytics/completion", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { from, to } = parseAnalyticsRange(req.query, await userToday(userId));
+      const data = await storage.getCompletionByImpact(userId, from, to);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching completion analytics:", error);
+      res.status(400).json({ message: "Failed to fetch completion analytics" });
+    }
+  });
+
+  app.get("/api/analytics/energy", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { from, to } = parseAnalyticsRange(req.query, await userToday(userId));
+      const data = await storage.getEnergyTrend(userId, from, to);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching energy trend:", error);
+      res.status(400).json({ message: "Failed to fetch energy trend" });
+    }
+  });
+
+  app.get("/api/analytics/quest-progress", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { from, to } = parseAnalyticsRange(req.query, await userToday(userId));
+      const data = await storage.getQuestProgressTimelines(userId, from, to);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching quest progress analytics:", error);
+      res.status(400).json({ message: "Failed to fetch quest progress analytics" });
+    }
+  });
+
+  // Quarterly review routes
+  app.get("/api/quarterly-reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const reviews = await storage.getQuarterlyReviews(userId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching quarterly reviews:", error);
+      res.status(500).json({ message: "Failed to fetch quarterly reviews" });
+    }
+  });
+
+  // Every quest still open at the end of the quarter, including earlier stragglers, gets an outcome
+  app.post("/api/quarterly-reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = quarterlyReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid quarterly review" });
+      }
+      const review = parsed.data;
+      const period = quarterOf(review.startDate);
+      if (period.start !== review.startDate) {
+        return res.status(400).json({ message: "startDate must be the first day of a quarter" });
+      }
+      const today = await userToday(userId);
+      if (period.start > today) {
+        return res.status(400).json({ message: "You can't review a quarter that hasn't started" });
+      }
+
+      const quests = await storage.getQuarterlyQuests(userId);
+      const due = quests.filter(quest => isActiveQuest(quest) && quest.endDate <= period.end);
+      const reviewed = new Set(review.outcomes.map(outcome => outcome.questId));
+      if (reviewed.size !== review.outcomes.length || due.length !== reviewed.size || due.some(quest => !reviewed.has(quest.id))) {
+        return res.status(400).json({ message: "Give every quest ending this quarter exactly one outcome" });
+      }
+
+      // Carried-over quests continue in the quarter after this one, or the current one for late reviews
+      const following = nextQuarter(period.start);
+      const carryOverTo = following.end < today ? quarterOf(today) : following;
+      const created = await storage.createQuarterlyReview(userId, review, period, carryOverTo);
+      if (!created) {
+        return res.status(409).json({ message: "You've already reviewed this quarter" });
+      }
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error saving quarterly review:", error);
+      res.status(500).json({ message: "Failed to save quarterly review" });
+    }
+  });
+
+  // Annual review routes
+  app.get("/api/annual-reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const reviews = await storage.getAnnualReviews(userId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching annual reviews:", error);
+      res.status(500).json({ message: "Failed to fetch annual reviews" });
+    }
+  });
+
+  // What the review wizard looks back on, before anything is saved
+  app.get("/api/annual-reviews/summary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const year = parseReviewYear(req.query.year);
+      if (year === null) {
+        return res.status(400).json({ message: "year must be a calendar year" });
+      }
+      const summary = await storage.getAnnualReviewSummary(userId, year);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error building annual review summary:", error);
+      res.status(500).json({ message: "Failed to gather your year" });
+    }
+  });
+
+  app.get("/api/annual-reviews/:year", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const year = parseReviewYear(req.params.year);
+      const review = year !== null ? await storage.getAnnualReview(userId, year) : undefined;
+      if (!review) {
+        return res.status(404).json({ message: "Annual review not found" });
+      }
+      res.json(review);
+    } catch (error) {
+      console.error("Error fetching annual review:", error);
+      res.status(500).json({ message: "Failed to fetch annual review" });
+    }
+  });
+
+  app.post("/api/annual-reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = annualReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid annual review" });
+      }
+      const { year, reflection, coreValues, threeYearVision, whyEngine } = parsed.data;
+      if (year > Number((await userToday(userId)).slice(0, 4))) {
+        return res.status(400).json({ message: "You can't review a year that hasn't started" });
+      }
+
+      const summary = await storage.getAnnualReviewSummary(userId, year);
+      const review = await storage.createAnnualReview({
+        userId,
+        year,
+        summary,
+        reflection: reflection || null,
+        coreValues,
+        threeYearVision,
+        whyEngine,
+      });
+      if (!review) {
+        return res.status(409).json({ message: `You've already reviewed ${year}` });
+      }
+      res.status(201).json(review);
+    } catch (error) {
+      console.error("Error saving annual review:", error);
+      res.status(500).json({ message: "Failed to save annual review" });
+    }
+  });
+
+  // Notification routes
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const feed = await storage.getNotifications(userId, NOTIFICATION_FEED_LIMIT);
+      res.json(feed);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.markAllNotificationsRead(userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  // Export route
+  app.get("/api/export", isAuthenticated, async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const parsed = z.enum(exportFormats).safeParse(req.query.format ?? "json");
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Format must be json, csv or markdown" });
+    }
+
+    try {
+      const data = await storage.getUserExport(userId);
+      const archive = createExportArchive(data, parsed.data);
+      archive.on("error", (error) => {
+        console.error("Error writing export archive:", error);
+        res.destroy(error);
+      });
+
+      res.attachment(`inmotion-export-${parsed.data}-${data.exportedAt.slice(0, 10)}.zip`);
+      archive.pipe(res);
+      await archive.finalize();
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to export data" });
+      }
+    }
+  });
+
+  // Import route; the file is sent as the raw request body
+  app.post(
+    "/api/import",
+    isAuthenticated,
+    express.raw({ type: () => true, limit: IMPORT_MAX_BYTES }),
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const dryRun = req.query.dryRun === "true";
+        const upload = detectImport(req.body);
+        const existing = await storage.getUserExport(userId);
+        const plan = upload.source === "inmotion"
+          ? planBundleImport(userId, upload.bundle, existing, new Set(await storage.getOwnedObjectPaths(userId)))
+          : planCsvImport(userId, upload.text, existing, await userToday(userId));
+        const report: ImportReport = { ...plan.report, dryRun };
+        if (!dryRun) {
+          // Rows the database already had are reported as skipped rather than created
+          const inserted = await storage.importRecords(userId, plan.records);
+          for (const [entity, planned] of Object.entries(plan.report.created)) {
+            const missed = planned - (inserted[entity] ?? 0);
+            if (missed > 0) {
+              report.skipped = { ...report.skipped, [entity]: (report.skipped[entity] ?? 0) + missed };
+            }
+          }
+          report.created = inserted;
+        }
+        res.json(report);
+      } catch (error) {
+        console.error("Error importing data:", error);
+        if (error instanceof ImportFormatError || error instanceof SyntaxError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "Failed to import data" });
+      }
+    },
+  );
+
   // Error logging route
   app.post("/api/error-logs", async (req: any, res) => {
     try {
@@ -242,14 +1157,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Object Storage routes for image uploads
-  const objectStorageService = new ObjectStorageService();
+  objectStorageService.registerRoutes(app);
 
-  // Get upload URL for image
+  // Get upload URL for image. The request is recorded as an upload intent so the object has
+  // an owner, type and size limit before it exists.
   app.post("/api/objects/upload", isAuthenticated, async (req: any, res) => {
     try {
-      console.log('Getting upload URL for user:', req.user?.claims?.sub);
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-      console.log('Generated upload URL successfully');
+      const userId = req.user.claims.sub;
+      const parsed = uploadRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Use a JPG, PNG, WebP, GIF or AVIF image" });
+      }
+      const { contentType, size } = parsed.data;
+      if (size > IMAGE_MAX_BYTES) {
+        return res.status(413).json({ message: `Images can be at most ${IMAGE_MAX_BYTES / 1024 / 1024}MB` });
+      }
+      const quotaBytes = storageQuotaBytes();
+      if ((await storage.getStorageUsedBytes(userId)) + size > quotaBytes) {
+        return res.status(413).json({
+          message: `You've used your ${Math.round(quotaBytes / 1024 / 1024)}MB of image storage. Remove some images to make room.`,
+        });
+      }
+
+      const { uploadURL, objectPath } = await objectStorageService.getObjectEntityUploadURL(
+        { contentType, maxBytes: size },
+        UPLOAD_URL_TTL_SEC,
+      );
+      await storage.createUploadIntent({
+        userId,
+        objectPath,
+        contentType,
+        maxBytes: size,
+        expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SEC * 1000),
+      });
       res.json({ uploadURL });
     } catch (error) {
       console.error("Error getting upload URL:", error);
@@ -257,30 +1197,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update server with uploaded image info
+  app.get("/api/objects/usage", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const usage: StorageUsage = {
+        usedBytes: await storage.getStorageUsedBytes(userId),
+        quotaBytes: storageQuotaBytes(),
+      };
+      res.json(usage);
+    } catch (error) {
+      console.error("Error fetching storage usage:", error);
+      res.status(500).json({ message: "Failed to fetch storage usage" });
+    }
+  });
+
+  // Confirm an upload: check it against its intent, record the uploader as owner (new uploads
+  // start out private), then clean up the image and make its smaller variants
   app.put("/api/vision-images", isAuthenticated, async (req: any, res) => {
     try {
-      console.log('Processing uploaded image info:', req.body);
+      const userId = req.user.claims.sub;
       const { imageURL } = req.body;
       if (!imageURL) {
-        console.log('Missing imageURL in request');
         return res.status(400).json({ error: "imageURL is required" });
       }
 
       const objectPath = objectStorageService.normalizeObjectEntityPath(imageURL);
-      console.log('Generated object path:', objectPath);
+      if (objectPath.startsWith("/objects/")) {
+        const intent = await storage.getUploadIntent(objectPath);
+        if (!intent || intent.userId !== userId) {
+          return res.status(403).json({ error: "This upload wasn't started from your account" });
+        }
+        // Confirming twice is harmless
+        if (!intent.confirmedAt) {
+          if (!canConfirmUpload(intent)) {
+            return res.status(400).json({ error: "This upload has expired. Please upload the image again." });
+          }
+          const file = await objectStorageService.getObjectEntityFile(objectPath);
+          if (file.metadata.size > intent.maxBytes || file.metadata.contentType !== intent.contentType) {
+            await objectStorageService.deleteObjectEntity(objectPath);
+            return res.status(400).json({ error: "The uploaded file doesn't match the one requested" });
+          }
+
+          await storage.claimObject(objectPath, userId);
+          const { variants, sizeBytes } = await processUploadedImage(objectStorageService, objectPath);
+          await storage.setProcessedImage(objectPath, variants, sizeBytes);
+          await storage.confirmUploadIntent(objectPath);
+        }
+      }
       res.json({ objectPath });
     } catch (error) {
       console.error("Error processing image:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(400).json({ error: "The uploaded image could not be found" });
+      }
+      if (error instanceof ImageValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Internal server error", message: (error as Error).message });
     }
   });
 
-  // Serve uploaded images
+  app.get("/api/objects/sharing", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const objectPath = typeof req.query.objectPath === "string" ? req.query.objectPath : "";
+      const sharing = await storage.getObjectSharing(objectPath, userId);
+      if (!sharing) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      res.json(sharing);
+    } catch (error) {
+      console.error("Error fetching image sharing:", error);
+      res.status(500).json({ message: "Failed to fetch image sharing" });
+    }
+  });
+
+  app.patch("/api/objects/visibility", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { objectPath, visibility } = objectVisibilitySchema.parse(req.body);
+      const acl = await storage.setObjectVisibility(objectPath, userId, visibility);
+      if (!acl) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      res.json(acl);
+    } catch (error) {
+      console.error("Error updating image visibility:", error);
+      res.status(400).json({ message: "Invalid visibility data" });
+    }
+  });
+
+  app.post("/api/objects/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { objectPath, expiresInHours } = objectShareLinkSchema.parse(req.body);
+      const acl = await storage.getObjectAcl(objectPath);
+      if (!acl || acl.userId !== userId) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (acl.visibility !== "public") {
+        return res.status(400).json({ message: "Make the image public before sharing it" });
+      }
+
+      const token = randomBytes(SHARE_TOKEN_BYTES).toString("base64url");
+      const expiresAt = new Date(Date.now() + expiresInHours * 60 * 60 * 1000);
+      const link = await storage.createShareLink(objectPath, hashShareToken(token), expiresAt);
+      const created: CreatedShareLink = {
+        id: link.id,
+        url: `${req.protocol}://${req.get("host")}${objectPath}?variant=display&share=${token}`,
+        expiresAt: link.expiresAt.toISOString(),
+      };
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(400).json({ message: "Invalid share link data" });
+    }
+  });
+
+  app.delete("/api/objects/share-links/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteShareLink(req.params.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // Serve uploaded images: owners always, everyone else only through a live share link to a
+  // public image. Anything else is a 404 so object paths can't be probed. ?variant= picks
+  // thumb (the default), display or original; unprocessed images only have the original.
   app.get("/objects/:objectPath(*)", async (req: any, res) => {
     try {
-      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
-      objectStorageService.downloadObject(objectFile, res);
+      const requested = z.enum(imageVariants).catch("thumb").parse(req.query.variant);
+      const acl = await storage.getObjectAcl(req.path);
+      if (!acl) {
+        return res.sendStatus(404);
+      }
+      const variant = acl.variants?.includes(requested) ? requested : "original";
+
+      let cacheTtlSec = OBJECT_CACHE_TTL_SEC;
+      const isOwner = req.isAuthenticated() && req.user?.claims?.sub === acl.userId;
+      if (!isOwner) {
+        const token = typeof req.query.share === "string" ? req.query.share : "";
+        const link = acl.visibility === "public" && token
+          ? await storage.getActiveShareLink(acl.objectPath, hashShareToken(token))
+          : undefined;
+        if (!link) {
+          return res.sendStatus(404);
+        }
+        // Don't let a cached copy outlive the link
+        cacheTtlSec = Math.min(cacheTtlSec, Math.floor((link.expiresAt.getTime() - Date.now()) / 1000));
+      }
+
+      const objectFile = await objectStorageService.getObjectEntityFile(req.path, variant);
+      objectStorageService.downloadObject(objectFile, res, cacheTtlSec);
     } catch (error) {
       console.error("Error serving object:", error);
       if (error instanceof ObjectNotFoundError) {
@@ -293,3 +1368,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   return httpServer;
 }
+
+// Most recent notifications returned to the bell dropdown
+const NOTIFICATION_FEED_LIMIT = 30;
+
+const SHARE_TOKEN_BYTES = 24;
+const OBJECT_CACHE_TTL_SEC = 3600;
+
+const revisionNumber = z.coerce.number().int().positive();
+const reviewYear = z.coerce.number().int().min(2000).max(2100);
+
+// Share tokens are stored hashed, so a database leak doesn't hand out working links
+function hashShareToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The current calendar date in the user's time zone
+async function userToday(userId: string): Promise<string> {
+  const { timeZone } = await storage.getUserSettings(userId);
+  return dateInTimeZone(new Date(), timeZone);
+}
+
+// Vision cards can only show uploaded images their owner uploaded; other URLs aren't served by us
+async function canUseImage(imageUrl: string | null | undefined, userId: string): Promise<boolean> {
+  if (!imageUrl?.startsWith("/objects/")) {
+    return true;
+  }
+  const acl = await storage.getObjectAcl(imageUrl);
+  return acl?.userId === userId;
+}
+
+// Analytics default to the 30 days ending on the user's today and are capped at a little over a year
+function parseAnalyticsRange(query: unknown, today: string): { from: string; to: string } {
+  const { from, to } = z.object({ from: isoDateSchema.optional(), to: isoDateSchema.optional() }).parse(query);
+  const end = new Date(`${to ?? today}T00:00:00Z`);
+  const start = from ? new Date(`${from}T00:00:00Z`) : new Date(end.getTime() - 29 * 86_400_000);
+  if (start > end || end.getTime() - start.getTime() > 400 * 86_400_000) {
+    throw new Error("Invalid analytics range");
+  }
+  return { from: start.toISOString().slice(0, 10), to: end.toISOString().slice(0, 10) };
+}
+
+// A YYYY-MM-DD query parameter: undefined when it's left out, null when it's malformed
+function parseQueryDate(value: unknown): string | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = isoDateSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+function parseRevision(value: unknown): number | null {
+  const parsed = revisionNumber.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+function parseReviewYear(value: unknown): number | null {
+  const parsed = reviewYear.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
@@ -0,0 +1,118 @@
+import {
+  S3Client,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { Readable } from "stream";
+import {
+  ObjectNotFoundError,
+  type ObjectMetadata,
+  type StorageDriver,
+  type UploadConstraints,
+} from "./objectStorage";
+
+// Amazon S3 or anything speaking its API, such as MinIO. Set S3_BUCKET, plus S3_ENDPOINT for
+// non-AWS services. Credentials come from S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY, or the
+// usual AWS credential chain when those are unset.
+export function s3StorageDriver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET must be set to use OBJECT_STORAGE_DRIVER=s3");
+  }
+  const endpoint = process.env.S3_ENDPOINT;
+  // MinIO and most self-hosted services want /<bucket>/<key> rather than a bucket subdomain
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+    ? process.env.S3_FORCE_PATH_STYLE === "true"
+    : Boolean(endpoint);
+  const prefix = process.env.S3_PREFIX ? `${process.env.S3_PREFIX.replace(/\/+$/, "")}/` : "";
+
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  const client = new S3Client({
+    region: process.env.S3_REGION ?? "us-east-1",
+    endpoint,
+    forcePathStyle,
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  });
+
+  const objectKey = (key: string) => `${prefix}${key}`;
+
+  return {
+    name: "s3",
+
+    // The content type is signed into the URL; presigned PUTs can't cap the size, so that is
+    // checked on confirmation
+    async getUploadURL(key: string, ttlSec: number, { contentType }: UploadConstraints): Promise<string> {
+      const command = new PutObjectCommand({ Bucket: bucket, Key: objectKey(key), ContentType: contentType });
+      return getSignedUrl(client, command, {
+        expiresIn: ttlSec,
+        signableHeaders: new Set(["content-type"]),
+      });
+    },
+
+    keyFromURL(url: string): string | null {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        return null;
+      }
+
+      let objectPath = decodeURIComponent(parsed.pathname);
+      if (forcePathStyle) {
+        if ((endpoint && parsed.host !== new URL(endpoint).host) || !objectPath.startsWith(`/${bucket}/`)) {
+          return null;
+        }
+        objectPath = objectPath.slice(bucket.length + 1);
+      } else if (!parsed.hostname.startsWith(`${bucket}.`)) {
+        return null;
+      }
+
+      const keyWithPrefix = objectPath.slice(1);
+      if (!keyWithPrefix.startsWith(prefix)) {
+        return null;
+      }
+      return keyWithPrefix.slice(prefix.length) || null;
+    },
+
+    async getMetadata(key: string): Promise<ObjectMetadata> {
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return { contentType: head.ContentType, size: head.ContentLength ?? 0 };
+      } catch (error) {
+        throw isMissing(error) ? new ObjectNotFoundError() : error;
+      }
+    },
+
+    async createReadStream(key: string): Promise<Readable> {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return object.Body as Readable;
+      } catch (error) {
+        throw isMissing(error) ? new ObjectNotFoundError() : error;
+      }
+    },
+
+    async write(key: string, body: Buffer, contentType: string): Promise<void> {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: objectKey(key),
+        Body: body,
+        ContentType: contentType,
+      }));
+    },
+
+    async delete(key: string): Promise<void> {
+      // S3 reports success for keys that don't exist
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+    },
+  };
+}
+
+function isMissing(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === "NotFound" || name === "NoSuchKey" || $metadata?.httpStatusCode === 404;
+}
@@ -1,70 +1,273 @@
 import { 
+  sessions,
   users, 
+  userCredentials,
   visionPlans,
+  visionPlanRevisions,
+  visionCards,
+  visionCardQuests,
   quarterlyQuests,
+  questKeyResults,
+  questMilestones,
+  questProgressHistory,
   weeklyPlans,
   dailyTasks,
+  recurringTasks,
+  habits,
+  habitCheckIns,
   pomodoroSessions,
+  userSettings,
+  pomodoroInterruptions,
   dailyReflections,
+  quarterlyReviews,
+  annualReviews,
+  notifications,
+  objectAcls,
+  objectShareLinks,
+  uploadIntents,
   errorLogs,
   type User, 
   type UpsertUser,
   type VisionPlan,
   type InsertVisionPlan,
+  type VisionPlanRevision,
+  type VisionCard,
+  type InsertVisionCard,
+  type VisionCardWithQuests,
   type QuarterlyQuest,
   type InsertQuarterlyQuest,
+  type QuestStatus,
+  type QuestKeyResult,
+  type InsertQuestKeyResult,
+  type QuestMilestone,
+  type InsertQuestMilestone,
+  type QuestProgressSnapshot,
   type WeeklyPlan,
   type InsertWeeklyPlan,
+  type WeeklyPriority,
   type DailyTask,
   type InsertDailyTask,
+  type TaskRollover,
+  type RecurringTask,
+  type InsertRecurringTask,
+  type Habit,
+  type InsertHabit,
+  type HabitWithCheckIns,
   type PomodoroSession,
   type InsertPomodoroSession,
+  type PomodoroStart,
+  type PomodoroStats,
+  type FocusQuality,
+  type FocusTimeAnalytics,
+  type CompletionByImpact,
+  type EnergyTrendPoint,
+  type QuestProgressTimeline,
+  type PomodoroInterruption,
+  type InsertPomodoroInterruption,
+  type UserSettings,
+  type InsertUserSettings,
   type DailyReflection,
+  type QuarterlyReview,
+  type QuarterlyReviewInput,
+  type QuarterlyReviewOutcome,
+  type AnnualReview,
+  type InsertAnnualReview,
+  type AnnualReviewSummary,
   type InsertDailyReflection,
+  type Notification,
+  type InsertNotification,
+  type NotificationFeed,
+  type ObjectAcl,
+  type ObjectVisibility,
+  type ObjectShareLink,
+  type ObjectSharing,
+  type ImageVariant,
+  type UploadIntent,
+  type InsertUploadIntent,
+  type UserExport,
   type ErrorLog,
   type InsertErrorLog
 } from "@shared/schema";
+import { pomodoroElapsedSeconds } from "@shared/pomodoro";
+import { dateInTimeZone } from "@shared/dates";
+import { formatQuestPeriod, isActiveQuest, suggestedQuestOutcome } from "@shared/quests";
 import { db } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, ne, and, or, sql, inArray, asc, desc, lte, gte, isNull, type InferInsertModel } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Rows to insert for an import, already remapped to fresh IDs and the importing user
+export type ImportRecords = {
+  visionPlans: InferInsertModel<typeof visionPlans>[];
+  visionPlanRevisions: InferInsertModel<typeof visionPlanRevisions>[];
+  quarterlyQuests: InferInsertModel<typeof quarterlyQuests>[];
+  visionCards: InferInsertModel<typeof visionCards>[];
+  visionCardQuests: InferInsertModel<typeof visionCardQuests>[];
+  questKeyResults: InferInsertModel<typeof questKeyResults>[];
+  questMilestones: InferInsertModel<typeof questMilestones>[];
+  questProgressHistory: InferInsertModel<typeof questProgressHistory>[];
+  weeklyPlans: InferInsertModel<typeof weeklyPlans>[];
+  recurringTasks: InferInsertModel<typeof recurringTasks>[];
+  dailyTasks: InferInsertModel<typeof dailyTasks>[];
+  habits: InferInsertModel<typeof habits>[];
+  habitCheckIns: InferInsertModel<typeof habitCheckIns>[];
+  pomodoroSessions: InferInsertModel<typeof pomodoroSessions>[];
+  pomodoroInterruptions: InferInsertModel<typeof pomodoroInterruptions>[];
+  dailyReflections: InferInsertModel<typeof dailyReflections>[];
+  quarterlyReviews: InferInsertModel<typeof quarterlyReviews>[];
+  annualReviews: InferInsertModel<typeof annualReviews>[];
+};
 
 // Storage interface
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  deleteUser(id: string): Promise<void>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Local credential methods
+  getPasswordHash(userId: string): Promise<string | undefined>;
+  createLocalUser(user: UpsertUser, passwordHash: string): Promise<User>;
   
   // Vision plan methods
   getVisionPlan(userId: string): Promise<VisionPlan | undefined>;
-  upsertVisionPlan(visionPlan: InsertVisionPlan): Promise<VisionPlan>;
+  upsertVisionPlan(visionPlan: InsertVisionPlan, restoredFrom?: number): Promise<VisionPlan>;
+  getVisionPlanRevisions(userId: string): Promise<VisionPlanRevision[]>;
+  getVisionPlanRevision(userId: string, revision: number): Promise<VisionPlanRevision | undefined>;
+  restoreVisionPlanRevision(userId: string, revision: number): Promise<VisionPlan | undefined>;
+  
+  // Vision card methods
+  getVisionCards(userId: string): Promise<VisionCardWithQuests[]>;
+  createVisionCard(card: InsertVisionCard): Promise<VisionCard>;
+  updateVisionCard(cardId: string, userId: string, updates: Partial<VisionCard>): Promise<VisionCard>;
+  deleteVisionCard(cardId: string, userId: string): Promise<void>;
+  setVisionCardQuests(cardId: string, userId: string, questIds: string[]): Promise<string[]>;
+  
+  // Object ACL methods
+  getObjectAcl(objectPath: string): Promise<ObjectAcl | undefined>;
+  claimObject(objectPath: string, userId: string): Promise<ObjectAcl>;
+  getOwnedObjectPaths(userId: string): Promise<string[]>;
+  setProcessedImage(objectPath: string, variants: ImageVariant[], sizeBytes: number): Promise<void>;
+  getObjectSharing(objectPath: string, userId: string): Promise<ObjectSharing | undefined>;
+  setObjectVisibility(objectPath: string, userId: string, visibility: ObjectVisibility): Promise<ObjectAcl | undefined>;
+  createShareLink(objectPath: string, tokenHash: string, expiresAt: Date): Promise<ObjectShareLink>;
+  getActiveShareLink(objectPath: string, tokenHash: string): Promise<ObjectShareLink | undefined>;
+  deleteShareLink(linkId: string, userId: string): Promise<boolean>;
+  
+  // Upload intent methods
+  createUploadIntent(intent: InsertUploadIntent): Promise<UploadIntent>;
+  getUploadIntent(objectPath: string): Promise<UploadIntent | undefined>;
+  confirmUploadIntent(objectPath: string): Promise<void>;
+  getStorageUsedBytes(userId: string): Promise<number>;
+  getExpiredUploadIntents(expiredBefore: Date): Promise<UploadIntent[]>;
+  deleteUploadIntent(intentId: string): Promise<void>;
   
   // Quarterly quest methods
   getQuarterlyQuests(userId: string): Promise<QuarterlyQuest[]>;
+  getQuarterlyQuest(questId: string, userId: string): Promise<QuarterlyQuest | undefined>;
   createQuarterlyQuest(quest: InsertQuarterlyQuest): Promise<QuarterlyQuest>;
   updateQuarterlyQuest(questId: string, userId: string, updates: Partial<QuarterlyQuest>): Promise<QuarterlyQuest>;
+  recalculateQuestProgress(questId: string, userId: string): Promise<QuarterlyQuest | undefined>;
+  getQuestProgressHistory(questId: string, userId: string): Promise<QuestProgressSnapshot[]>;
+  
+  // Quest key result methods
+  getQuestKeyResults(questId: string, userId: string): Promise<QuestKeyResult[]>;
+  createQuestKeyResult(keyResult: InsertQuestKeyResult): Promise<QuestKeyResult>;
+  updateQuestKeyResult(keyResultId: string, userId: string, updates: Partial<QuestKeyResult>): Promise<QuestKeyResult | undefined>;
+  deleteQuestKeyResult(keyResultId: string, userId: string): Promise<void>;
+  
+  // Quest milestone methods
+  getQuestMilestones(questId: string, userId: string): Promise<QuestMilestone[]>;
+  createQuestMilestone(milestone: InsertQuestMilestone): Promise<QuestMilestone>;
+  updateQuestMilestone(milestoneId: string, userId: string, updates: Partial<QuestMilestone>): Promise<QuestMilestone | undefined>;
+  deleteQuestMilestone(milestoneId: string, userId: string): Promise<void>;
   
   // Weekly plan methods
   getWeeklyPlans(userId: string, weekStart?: string): Promise<WeeklyPlan[]>;
+  getWeeklyPlan(planId: string, userId: string): Promise<WeeklyPlan | undefined>;
   createWeeklyPlan(plan: InsertWeeklyPlan): Promise<WeeklyPlan>;
-  updateWeeklyPlan(planId: string, userId: string, updates: Partial<WeeklyPlan>): Promise<WeeklyPlan>;
+  updateWeeklyPlan(planId: string, userId: string, updates: Partial<InsertWeeklyPlan>): Promise<WeeklyPlan>;
+  recalculateWeeklyPlanProgress(planId: string, userId: string): Promise<WeeklyPlan | undefined>;
   
   // Daily task methods
   getDailyTasks(userId: string, date?: string): Promise<DailyTask[]>;
   createDailyTask(task: InsertDailyTask): Promise<DailyTask>;
-  updateDailyTask(taskId: string, userId: string, updates: Partial<DailyTask>): Promise<DailyTask>;
+  updateDailyTask(taskId: string, userId: string, updates: Partial<InsertDailyTask>): Promise<DailyTask>;
   deleteDailyTask(taskId: string, userId: string): Promise<void>;
+  getRolloverTasks(userId: string, date: string): Promise<DailyTask[]>;
+  rolloverDailyTasks(userId: string, rollover: TaskRollover): Promise<DailyTask[]>;
+  
+  // Recurring task methods
+  getRecurringTasks(userId: string): Promise<RecurringTask[]>;
+  createRecurringTask(template: InsertRecurringTask): Promise<RecurringTask>;
+  updateRecurringTask(templateId: string, userId: string, updates: Partial<RecurringTask>): Promise<RecurringTask | undefined>;
+  deleteRecurringTask(templateId: string, userId: string): Promise<void>;
+  materializeRecurringTasks(userId: string, date: string): Promise<void>;
+
+  // Habit methods
+  getHabits(userId: string, today: string): Promise<HabitWithCheckIns[]>;
+  createHabit(habit: InsertHabit): Promise<Habit>;
+  updateHabit(habitId: string, userId: string, updates: Partial<Habit>): Promise<Habit | undefined>;
+  deleteHabit(habitId: string, userId: string): Promise<void>;
+  checkInHabit(habitId: string, userId: string, date: string): Promise<boolean>;
+  removeHabitCheckIn(habitId: string, userId: string, date: string): Promise<void>;
+  getQuestHabitAdherence(questId: string, userId: string, today: string): Promise<number | null>;
   
   // Pomodoro session methods
   createPomodoroSession(session: InsertPomodoroSession): Promise<PomodoroSession>;
-  getPomodoroStats(userId: string, date?: string): Promise<{
-    totalFocusTime: number;
-    completedPomodoros: number;
-    averageSessionLength: number;
-  }>;
+  getPomodoroStats(userId: string, date?: string): Promise<PomodoroStats>;
+  addPomodoroInterruption(interruption: InsertPomodoroInterruption): Promise<PomodoroInterruption | undefined>;
+  ratePomodoroSession(sessionId: string, userId: string, focusRating: number): Promise<PomodoroSession | undefined>;
   
+  getActivePomodoroSession(userId: string): Promise<PomodoroSession | undefined>;
+  startPomodoroSession(userId: string, start: PomodoroStart): Promise<PomodoroSession>;
+  pausePomodoroSession(sessionId: string, userId: string): Promise<PomodoroSession | undefined>;
+  resumePomodoroSession(sessionId: string, userId: string): Promise<PomodoroSession | undefined>;
+  stopPomodoroSession(sessionId: string, userId: string): Promise<PomodoroSession | undefined>;
+
+  // User settings methods
+  getUserSettings(userId: string): Promise<UserSettings>;
+  updateUserSettings(userId: string, updates: Partial<InsertUserSettings>): Promise<UserSettings>;
+
   // Daily reflection methods
   getDailyReflection(userId: string, date: string): Promise<DailyReflection | undefined>;
   upsertDailyReflection(reflection: InsertDailyReflection): Promise<DailyReflection>;
   
+  // Analytics methods
+  getFocusTimeAnalytics(userId: string, from: string, to: string): Promise<FocusTimeAnalytics>;
+  getCompletionByImpact(userId: string, from: string, to: string): Promise<CompletionByImpact[]>;
+  getEnergyTrend(userId: string, from: string, to: string): Promise<EnergyTrendPoint[]>;
+  getQuestProgressTimelines(userId: string, from: string, to: string): Promise<QuestProgressTimeline[]>;
+
+  // Quarterly review methods
+  getQuarterlyReviews(userId: string): Promise<QuarterlyReview[]>;
+  createQuarterlyReview(
+    userId: string,
+    review: QuarterlyReviewInput,
+    period: { start: string; end: string },
+    carryOverTo: { start: string; end: string },
+  ): Promise<QuarterlyReview | undefined>;
+
+  // Annual review methods
+  getAnnualReviewSummary(userId: string, year: number): Promise<AnnualReviewSummary>;
+  getAnnualReviews(userId: string): Promise<AnnualReview[]>;
+  getAnnualReview(userId: string, year: number): Promise<AnnualReview | undefined>;
+  createAnnualReview(review: InsertAnnualReview): Promise<AnnualReview | undefined>;
+
+  // Notification methods
+  getNotifications(userId: string, limit: number): Promise<NotificationFeed>;
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  markNotificationRead(notificationId: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  getReminderRecipients(): Promise<{ userId: string; timeZone: string; weekStartsOn: number; joinedAt: Date | null }[]>;
+  generateReminders(userId: string, today: string, weekStartsOn: number, joinedOn: string | null): Promise<Notification[]>;
+
+  // Export and import methods
+  getUserExport(userId: string): Promise<UserExport>;
+  importRecords(userId: string, records: ImportRecords): Promise<Record<string, number>>;
+
   // Error logging methods
   createErrorLog(errorLog: InsertErrorLog): Promise<ErrorLog>;
 }
@@ -95,6 +298,43 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Everything else cascades from the user row. Error logs only null out their user, so they
+  // go first, and login sessions live in JSON with no foreign key at all.
+  async deleteUser(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(errorLogs).where(eq(errorLogs.userId, id));
+      await tx
+        .delete(sessions)
+        .where(sql`${sessions.sess} -> 'passport' -> 'user' -> 'claims' ->> 'sub' = ${id}`);
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`);
+    return user || undefined;
+  }
+
+  // Local credential methods
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    const [credentials] = await db
+      .select()
+      .from(userCredentials)
+      .where(eq(userCredentials.userId, userId));
+    return credentials?.passwordHash;
+  }
+
+  async createLocalUser(user: UpsertUser, passwordHash: string): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(users).values(user).returning();
+      await tx.insert(userCredentials).values({ userId: created.id, passwordHash });
+      return created;
+    });
+  }
+
   // Vision plan methods
   async getVisionPlan(userId: string): Promise<VisionPlan | undefined> {
     const [plan] = await db
@@ -104,26 +344,322 @@ export class DatabaseStorage implements IStorage {
     return plan || undefined;
   }
 
-  async upsertVisionPlan(visionPlan: InsertVisionPlan): Promise<VisionPlan> {
-    const existing = await this.getVisionPlan(visionPlan.userId);
-    
+  // Saves the plan and appends it as the next revision. Saves for one user are serialized so
+  // revision numbers stay sequential.
+  async upsertVisionPlan(visionPlan: InsertVisionPlan, restoredFrom?: number): Promise<VisionPlan> {
+    return await db.transaction((tx) => this.saveVisionPlan(tx, visionPlan, restoredFrom));
+  }
+
+  private async saveVisionPlan(tx: Transaction, visionPlan: InsertVisionPlan, restoredFrom?: number): Promise<VisionPlan> {
+    const { userId } = visionPlan;
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${"vision_plan:" + userId}))`);
+
+    const [existing] = await tx
+      .select()
+      .from(visionPlans)
+      .where(eq(visionPlans.userId, userId));
+    const [latest] = await tx
+      .select({ revision: visionPlanRevisions.revision })
+      .from(visionPlanRevisions)
+      .where(eq(visionPlanRevisions.userId, userId))
+      .orderBy(desc(visionPlanRevisions.revision))
+      .limit(1);
+
+    let revision = latest?.revision ?? 0;
+    // Plans saved before revisions existed keep their current text as the first revision
+    if (existing && !latest) {
+      revision = 1;
+      await tx.insert(visionPlanRevisions).values({
+        userId,
+        revision,
+        coreValues: existing.coreValues,
+        threeYearVision: existing.threeYearVision,
+        whyEngine: existing.whyEngine,
+        createdAt: existing.updatedAt ?? existing.createdAt ?? undefined,
+      });
+    }
+
+    let saved: VisionPlan;
     if (existing) {
-      const [updated] = await db
+      [saved] = await tx
         .update(visionPlans)
         .set({
           ...visionPlan,
           updatedAt: sql`now()`,
         })
-        .where(eq(visionPlans.userId, visionPlan.userId))
+        .where(eq(visionPlans.userId, userId))
         .returning();
-      return updated;
     } else {
-      const [created] = await db
+      [saved] = await tx
         .insert(visionPlans)
         .values(visionPlan)
         .returning();
-      return created;
     }
+
+    await tx.insert(visionPlanRevisions).values({
+      userId,
+      revision: revision + 1,
+      coreValues: saved.coreValues,
+      threeYearVision: saved.threeYearVision,
+      whyEngine: saved.whyEngine,
+      restoredFrom: restoredFrom ?? null,
+    });
+    return saved;
+  }
+
+  async getVisionPlanRevisions(userId: string): Promise<VisionPlanRevision[]> {
+    return await db
+      .select()
+      .from(visionPlanRevisions)
+      .where(eq(visionPlanRevisions.userId, userId))
+      .orderBy(desc(visionPlanRevisions.revision));
+  }
+
+  async getVisionPlanRevision(userId: string, revision: number): Promise<VisionPlanRevision | undefined> {
+    const [found] = await db
+      .select()
+      .from(visionPlanRevisions)
+      .where(and(eq(visionPlanRevisions.userId, userId), eq(visionPlanRevisions.revision, revision)));
+    return found || undefined;
+  }
+
+  async restoreVisionPlanRevision(userId: string, revision: number): Promise<VisionPlan | undefined> {
+    const found = await this.getVisionPlanRevision(userId, revision);
+    if (!found) {
+      return undefined;
+    }
+    return await this.upsertVisionPlan(
+      {
+        userId,
+        coreValues: found.coreValues,
+        threeYearVision: found.threeYearVision,
+        whyEngine: found.whyEngine,
+      },
+      revision,
+    );
+  }
+
+  // Vision card methods
+  async getVisionCards(userId: string): Promise<VisionCardWithQuests[]> {
+    const cards = await db
+      .select()
+      .from(visionCards)
+      .where(eq(visionCards.userId, userId))
+      .orderBy(visionCards.createdAt);
+    if (cards.length === 0) {
+      return [];
+    }
+
+    const links = await db
+      .select()
+      .from(visionCardQuests)
+      .where(inArray(visionCardQuests.visionCardId, cards.map(card => card.id)));
+
+    return cards.map(card => ({
+      ...card,
+      questIds: links
+        .filter(link => link.visionCardId === card.id)
+        .map(link => link.quarterlyQuestId),
+    }));
+  }
+
+  async createVisionCard(card: InsertVisionCard): Promise<VisionCard> {
+    const [created] = await db
+      .insert(visionCards)
+      .values(card)
+      .returning();
+    return created;
+  }
+
+  async updateVisionCard(cardId: string, userId: string, updates: Partial<VisionCard>): Promise<VisionCard> {
+    const [updated] = await db
+      .update(visionCards)
+      .set({
+        ...updates,
+        updatedAt: sql`now()`,
+      })
+      .where(and(eq(visionCards.id, cardId), eq(visionCards.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteVisionCard(cardId: string, userId: string): Promise<void> {
+    await db
+      .delete(visionCards)
+      .where(and(eq(visionCards.id, cardId), eq(visionCards.userId, userId)));
+  }
+
+  async setVisionCardQuests(cardId: string, userId: string, questIds: string[]): Promise<string[]> {
+    const [card] = await db
+      .select({ id: visionCards.id })
+      .from(visionCards)
+      .where(and(eq(visionCards.id, cardId), eq(visionCards.userId, userId)));
+    if (!card) {
+      return [];
+    }
+
+    // Only link quests the user actually owns
+    const ownedQuests = questIds.length
+      ? await db
+          .select({ id: quarterlyQuests.id })
+          .from(quarterlyQuests)
+          .where(and(eq(quarterlyQuests.userId, userId), inArray(quarterlyQuests.id, questIds)))
+      : [];
+
+    await db.delete(visionCardQuests).where(eq(visionCardQuests.visionCardId, cardId));
+    if (ownedQuests.length > 0) {
+      await db
+        .insert(visionCardQuests)
+        .values(ownedQuests.map(quest => ({ visionCardId: cardId, quarterlyQuestId: quest.id })));
+    }
+    return ownedQuests.map(quest => quest.id);
+  }
+
+  // Object ACL methods
+  async getObjectAcl(objectPath: string): Promise<ObjectAcl | undefined> {
+    const [acl] = await db.select().from(objectAcls).where(eq(objectAcls.objectPath, objectPath));
+    return acl;
+  }
+
+  // The first claim wins; the returned ACL shows the actual owner
+  async claimObject(objectPath: string, userId: string): Promise<ObjectAcl> {
+    await db.insert(objectAcls).values({ objectPath, userId }).onConflictDoNothing();
+    const [acl] = await db.select().from(objectAcls).where(eq(objectAcls.objectPath, objectPath));
+    return acl;
+  }
+
+  // Includes uploads the user started but never confirmed
+  async getOwnedObjectPaths(userId: string): Promise<string[]> {
+    const owned = await db
+      .select({ objectPath: objectAcls.objectPath })
+      .from(objectAcls)
+      .where(eq(objectAcls.userId, userId));
+    const pending = await db
+      .select({ objectPath: uploadIntents.objectPath })
+      .from(uploadIntents)
+      .where(and(eq(uploadIntents.userId, userId), isNull(uploadIntents.confirmedAt)));
+    return Array.from(new Set([...owned, ...pending].map(row => row.objectPath)));
+  }
+
+  async setProcessedImage(objectPath: string, variants: ImageVariant[], sizeBytes: number): Promise<void> {
+    await db
+      .update(objectAcls)
+      .set({ variants, sizeBytes, updatedAt: sql`now()` })
+      .where(eq(objectAcls.objectPath, objectPath));
+  }
+
+  async getObjectSharing(objectPath: string, userId: string): Promise<ObjectSharing | undefined> {
+    const acl = await this.getObjectAcl(objectPath);
+    if (!acl || acl.userId !== userId) {
+      return undefined;
+    }
+    const shareLinks = await db
+      .select({ id: objectShareLinks.id, expiresAt: objectShareLinks.expiresAt, createdAt: objectShareLinks.createdAt })
+      .from(objectShareLinks)
+      .where(and(eq(objectShareLinks.objectPath, objectPath), gte(objectShareLinks.expiresAt, sql`now()`)))
+      .orderBy(asc(objectShareLinks.expiresAt));
+    return { objectPath, visibility: acl.visibility as ObjectVisibility, shareLinks };
+  }
+
+  // Making an object private also revokes its share links
+  async setObjectVisibility(objectPath: string, userId: string, visibility: ObjectVisibility): Promise<ObjectAcl | undefined> {
+    const acl = await this.getObjectAcl(objectPath);
+    if (!acl || acl.userId !== userId) {
+      return undefined;
+    }
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(objectAcls)
+        .set({ visibility, updatedAt: sql`now()` })
+        .where(eq(objectAcls.objectPath, objectPath))
+        .returning();
+      if (visibility === "private") {
+        await tx.delete(objectShareLinks).where(eq(objectShareLinks.objectPath, objectPath));
+      }
+      return updated;
+    });
+  }
+
+  async createShareLink(objectPath: string, tokenHash: string, expiresAt: Date): Promise<ObjectShareLink> {
+    const [link] = await db
+      .insert(objectShareLinks)
+      .values({ objectPath, tokenHash, expiresAt })
+      .returning();
+    return link;
+  }
+
+  async getActiveShareLink(objectPath: string, tokenHash: string): Promise<ObjectShareLink | undefined> {
+    const [link] = await db
+      .select()
+      .from(objectShareLinks)
+      .where(and(
+        eq(objectShareLinks.objectPath, objectPath),
+        eq(objectShareLinks.tokenHash, tokenHash),
+        gte(objectShareLinks.expiresAt, sql`now()`),
+      ));
+    return link || undefined;
+  }
+
+  async deleteShareLink(linkId: string, userId: string): Promise<boolean> {
+    const ownedPaths = db
+      .select({ objectPath: objectAcls.objectPath })
+      .from(objectAcls)
+      .where(eq(objectAcls.userId, userId));
+    const deleted = await db
+      .delete(objectShareLinks)
+      .where(and(eq(objectShareLinks.id, linkId), inArray(objectShareLinks.objectPath, ownedPaths)))
+      .returning({ id: objectShareLinks.id });
+    return deleted.length > 0;
+  }
+
+  // Upload intent methods
+  async createUploadIntent(intent: InsertUploadIntent): Promise<UploadIntent> {
+    const [created] = await db.insert(uploadIntents).values(intent).returning();
+    return created;
+  }
+
+  async getUploadIntent(objectPath: string): Promise<UploadIntent | undefined> {
+    const [intent] = await db
+      .select()
+      .from(uploadIntents)
+      .where(eq(uploadIntents.objectPath, objectPath));
+    return intent || undefined;
+  }
+
+  async confirmUploadIntent(objectPath: string): Promise<void> {
+    await db
+      .update(uploadIntents)
+      .set({ confirmedAt: sql`now()` })
+      .where(eq(uploadIntents.objectPath, objectPath));
+  }
+
+  // Stored images plus the full allowance of uploads still in flight, so a burst of upload
+  // requests can't overshoot the quota
+  async getStorageUsedBytes(userId: string): Promise<number> {
+    const [stored] = await db
+      .select({ bytes: sql<number>`coalesce(sum(${objectAcls.sizeBytes}), 0)::bigint` })
+      .from(objectAcls)
+      .where(eq(objectAcls.userId, userId));
+    const [pending] = await db
+      .select({ bytes: sql<number>`coalesce(sum(${uploadIntents.maxBytes}), 0)::bigint` })
+      .from(uploadIntents)
+      .where(and(
+        eq(uploadIntents.userId, userId),
+        isNull(uploadIntents.confirmedAt),
+        gte(uploadIntents.expiresAt, sql`now()`),
+      ));
+    return Number(stored.bytes) + Number(pending.bytes);
+  }
+
+  async getExpiredUploadIntents(expiredBefore: Date): Promise<UploadIntent[]> {
+    return await db
+      .select()
+      .from(uploadIntents)
+      .where(and(isNull(uploadIntents.confirmedAt), lte(uploadIntents.expiresAt, expiredBefore)));
+  }
+
+  async deleteUploadIntent(intentId: string): Promise<void> {
+    await db.delete(uploadIntents).where(eq(uploadIntents.id, intentId));
   }
 
   // Quarterly quest methods
@@ -134,15 +670,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(quarterlyQuests.userId, userId));
   }
 
+  async getQuarterlyQuest(questId: string, userId: string): Promise<QuarterlyQuest | undefined> {
+    const [quest] = await db
+      .select()
+      .from(quarterlyQuests)
+      .where(and(eq(quarterlyQuests.id, questId), eq(quarterlyQuests.userId, userId)));
+    return quest || undefined;
+  }
+
   async createQuarterlyQuest(quest: InsertQuarterlyQuest): Promise<QuarterlyQuest> {
     const [created] = await db
       .insert(quarterlyQuests)
       .values(quest)
       .returning();
+    await this.recordQuestProgress(created.id, created.progress ?? 0);
     return created;
   }
 
   async updateQuarterlyQuest(questId: string, userId: string, updates: Partial<QuarterlyQuest>): Promise<QuarterlyQuest> {
+    const previous = await this.getQuarterlyQuest(questId, userId);
     const [updated] = await db
       .update(quarterlyQuests)
       .set({
@@ -151,9 +697,186 @@ export class DatabaseStorage implements IStorage {
       })
       .where(and(eq(quarterlyQuests.id, questId), eq(quarterlyQuests.userId, userId)))
       .returning();
+    if (!updated) {
+      return updated;
+    }
+
+    // Quests with key results or milestones derive their progress from them,
+    // so a hand-typed value is overwritten by the computed one.
+    const recalculated = await this.recalculateQuestProgress(questId, userId);
+    if (recalculated) {
+      return recalculated;
+    }
+    if (updated.progress !== previous?.progress) {
+      await this.recordQuestProgress(questId, updated.progress ?? 0);
+    }
+    return updated;
+  }
+
+  async recalculateQuestProgress(questId: string, userId: string): Promise<QuarterlyQuest | undefined> {
+    const quest = await this.getQuarterlyQuest(questId, userId);
+    if (!quest) {
+      return undefined;
+    }
+    const [keyResults, milestones] = await Promise.all([
+      this.getQuestKeyResults(questId, userId),
+      this.getQuestMilestones(questId, userId),
+    ]);
+    const measures = [...keyResults, ...milestones];
+
+    // Measurable outcomes take precedence; without them the quest rolls up
+    // the execution of its weekly plans across the weeks it runs.
+    let progress: number;
+    if (measures.length > 0) {
+      progress = Math.round(
+        measures.reduce((sum, measure) => sum + measureProgress(measure), 0) / measures.length
+      );
+    } else {
+      const plans = await db
+        .select({ progress: weeklyPlans.progress })
+        .from(weeklyPlans)
+        .where(and(eq(weeklyPlans.quarterlyQuestId, questId), eq(weeklyPlans.userId, userId)));
+      if (plans.length === 0) {
+        return undefined;
+      }
+      const weeklyTotal = plans.reduce((sum, plan) => sum + (plan.progress ?? 0), 0);
+      const weeks = Math.max(1, Math.ceil((daysBetween(quest.startDate, quest.endDate) + 1) / 7));
+      progress = Math.min(100, Math.round(weeklyTotal / weeks));
+    }
+
+    if (quest.progress === progress) {
+      return quest;
+    }
+
+    const [updated] = await db
+      .update(quarterlyQuests)
+      .set({ progress, updatedAt: sql`now()` })
+      .where(and(eq(quarterlyQuests.id, questId), eq(quarterlyQuests.userId, userId)))
+      .returning();
+    await this.recordQuestProgress(questId, progress);
+    return updated;
+  }
+
+  async getQuestProgressHistory(questId: string, userId: string): Promise<QuestProgressSnapshot[]> {
+    const quest = await this.getQuarterlyQuest(questId, userId);
+    if (!quest) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(questProgressHistory)
+      .where(eq(questProgressHistory.quarterlyQuestId, questId))
+      .orderBy(asc(questProgressHistory.recordedAt));
+  }
+
+  private async recordQuestProgress(questId: string, progress: number): Promise<void> {
+    await db
+      .insert(questProgressHistory)
+      .values({ quarterlyQuestId: questId, progress });
+  }
+
+  // Quest key result methods
+  async getQuestKeyResults(questId: string, userId: string): Promise<QuestKeyResult[]> {
+    return await db
+      .select()
+      .from(questKeyResults)
+      .where(and(eq(questKeyResults.quarterlyQuestId, questId), eq(questKeyResults.userId, userId)))
+      .orderBy(asc(questKeyResults.createdAt));
+  }
+
+  async createQuestKeyResult(keyResult: InsertQuestKeyResult): Promise<QuestKeyResult> {
+    const [created] = await db
+      .insert(questKeyResults)
+      .values(keyResult)
+      .returning();
+    await this.recalculateQuestProgress(created.quarterlyQuestId, created.userId);
+    return created;
+  }
+
+  async updateQuestKeyResult(keyResultId: string, userId: string, updates: Partial<QuestKeyResult>): Promise<QuestKeyResult | undefined> {
+    const [updated] = await db
+      .update(questKeyResults)
+      .set({
+        ...updates,
+        updatedAt: sql`now()`,
+      })
+      .where(and(eq(questKeyResults.id, keyResultId), eq(questKeyResults.userId, userId)))
+      .returning();
+    if (updated) {
+      await this.recalculateQuestProgress(updated.quarterlyQuestId, userId);
+    }
+    return updated;
+  }
+
+  async deleteQuestKeyResult(keyResultId: string, userId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(questKeyResults)
+      .where(and(eq(questKeyResults.id, keyResultId), eq(questKeyResults.userId, userId)))
+      .returning();
+    if (deleted) {
+      await this.recalculateQuestProgress(deleted.quarterlyQuestId, userId);
+    }
+  }
+
+  // Quest milestone methods
+  async getQuestMilestones(questId: string, userId: string): Promise<QuestMilestone[]> {
+    return await db
+      .select()
+      .from(questMilestones)
+      .where(and(eq(questMilestones.quarterlyQuestId, questId), eq(questMilestones.userId, userId)))
+      .orderBy(asc(questMilestones.dueDate));
+  }
+
+  async createQuestMilestone(milestone: InsertQuestMilestone): Promise<QuestMilestone> {
+    const isReached = (milestone.currentValue ?? 0) >= (milestone.targetValue ?? 1);
+    const [created] = await db
+      .insert(questMilestones)
+      .values({
+        ...milestone,
+        completedAt: isReached ? sql`now()` : null,
+      })
+      .returning();
+    await this.recalculateQuestProgress(created.quarterlyQuestId, created.userId);
+    return created;
+  }
+
+  async updateQuestMilestone(milestoneId: string, userId: string, updates: Partial<QuestMilestone>): Promise<QuestMilestone | undefined> {
+    let [updated] = await db
+      .update(questMilestones)
+      .set({
+        ...updates,
+        updatedAt: sql`now()`,
+      })
+      .where(and(eq(questMilestones.id, milestoneId), eq(questMilestones.userId, userId)))
+      .returning();
+    if (!updated) {
+      return undefined;
+    }
+
+    // Handle completion timestamp
+    const isReached = updated.currentValue >= updated.targetValue;
+    if (isReached !== !!updated.completedAt) {
+      [updated] = await db
+        .update(questMilestones)
+        .set({ completedAt: isReached ? sql`now()` : null })
+        .where(eq(questMilestones.id, milestoneId))
+        .returning();
+    }
+
+    await this.recalculateQuestProgress(updated.quarterlyQuestId, userId);
     return updated;
   }
 
+  async deleteQuestMilestone(milestoneId: string, userId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(questMilestones)
+      .where(and(eq(questMilestones.id, milestoneId), eq(questMilestones.userId, userId)))
+      .returning();
+    if (deleted) {
+      await this.recalculateQuestProgress(deleted.quarterlyQuestId, userId);
+    }
+  }
+
   // Weekly plan methods
   async getWeeklyPlans(userId: string, weekStart?: string): Promise<WeeklyPlan[]> {
     if (weekStart) {
@@ -169,15 +892,27 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getWeeklyPlan(planId: string, userId: string): Promise<WeeklyPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(weeklyPlans)
+      .where(and(eq(weeklyPlans.id, planId), eq(weeklyPlans.userId, userId)));
+    return plan || undefined;
+  }
+
   async createWeeklyPlan(plan: InsertWeeklyPlan): Promise<WeeklyPlan> {
     const [created] = await db
       .insert(weeklyPlans)
       .values(plan)
       .returning();
-    return created;
+    return (await this.recalculateWeeklyPlanProgress(created.id, created.userId)) ?? created;
   }
 
-  async updateWeeklyPlan(planId: string, userId: string, updates: Partial<WeeklyPlan>): Promise<WeeklyPlan> {
+  async updateWeeklyPlan(planId: string, userId: string, updates: Partial<InsertWeeklyPlan>): Promise<WeeklyPlan> {
+    const [previous] = await db
+      .select({ quarterlyQuestId: weeklyPlans.quarterlyQuestId })
+      .from(weeklyPlans)
+      .where(and(eq(weeklyPlans.id, planId), eq(weeklyPlans.userId, userId)));
     const [updated] = await db
       .update(weeklyPlans)
       .set({
@@ -186,7 +921,59 @@ export class DatabaseStorage implements IStorage {
       })
       .where(and(eq(weeklyPlans.id, planId), eq(weeklyPlans.userId, userId)))
       .returning();
-    return updated;
+    if (!updated) {
+      return updated;
+    }
+
+    // A plan moved to another quest no longer counts toward the old one
+    if (previous?.quarterlyQuestId && previous.quarterlyQuestId !== updated.quarterlyQuestId) {
+      await this.recalculateQuestProgress(previous.quarterlyQuestId, userId);
+    }
+    return (await this.recalculateWeeklyPlanProgress(planId, userId)) ?? updated;
+  }
+
+  async recalculateWeeklyPlanProgress(planId: string, userId: string): Promise<WeeklyPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(weeklyPlans)
+      .where(and(eq(weeklyPlans.id, planId), eq(weeklyPlans.userId, userId)));
+    if (!plan) {
+      return undefined;
+    }
+
+    const tasks = await db
+      .select({ priorityIndex: dailyTasks.priorityIndex, isCompleted: dailyTasks.isCompleted })
+      .from(dailyTasks)
+      .where(and(eq(dailyTasks.weeklyPlanId, planId), eq(dailyTasks.userId, userId)));
+
+    // A checked-off priority counts as done; otherwise it is as far along
+    // as the daily tasks attached to it.
+    const priorities = (Array.isArray(plan.priorities) ? plan.priorities : []) as WeeklyPriority[];
+    const scores = priorities
+      .map((priority, index) => ({ priority, index }))
+      .filter(({ priority }) => priority?.title?.trim())
+      .map(({ priority, index }) => {
+        if (priority.isCompleted) return 100;
+        const priorityTasks = tasks.filter(task => task.priorityIndex === index);
+        if (priorityTasks.length === 0) return 0;
+        return (priorityTasks.filter(task => task.isCompleted).length / priorityTasks.length) * 100;
+      });
+    const progress = scores.length > 0
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : 0;
+
+    let result = plan;
+    if (progress !== plan.progress) {
+      [result] = await db
+        .update(weeklyPlans)
+        .set({ progress, updatedAt: sql`now()` })
+        .where(eq(weeklyPlans.id, planId))
+        .returning();
+    }
+    if (result.quarterlyQuestId) {
+      await this.recalculateQuestProgress(result.quarterlyQuestId, userId);
+    }
+    return result;
   }
 
   // Daily task methods
@@ -209,36 +996,345 @@ export class DatabaseStorage implements IStorage {
       .insert(dailyTasks)
       .values(task)
       .returning();
+    if (created.weeklyPlanId) {
+      await this.recalculateWeeklyPlanProgress(created.weeklyPlanId, created.userId);
+    }
     return created;
   }
 
-  async updateDailyTask(taskId: string, userId: string, updates: Partial<DailyTask>): Promise<DailyTask> {
-    const updateData: any = {
-      ...updates,
-      updatedAt: sql`now()`,
-    };
-    
-    // Handle completion timestamp
-    if (updates.isCompleted !== undefined) {
-      updateData.completedAt = updates.isCompleted ? sql`now()` : null;
-    }
-    
+  async updateDailyTask(taskId: string, userId: string, updates: Partial<InsertDailyTask>): Promise<DailyTask> {
+    const [previous] = await db
+      .select({ weeklyPlanId: dailyTasks.weeklyPlanId })
+      .from(dailyTasks)
+      .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)));
+
     const [updated] = await db
       .update(dailyTasks)
-      .set(updateData)
+      .set({
+        ...updates,
+        // Handle completion timestamp
+        ...(updates.isCompleted !== undefined ? { completedAt: updates.isCompleted ? sql`now()` : null } : {}),
+        updatedAt: sql`now()`,
+      })
       .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)))
       .returning();
+    if (!updated) {
+      return updated;
+    }
+
+    // Roll completion up through the weekly plan into its quest
+    const affectedPlanIds = new Set([previous?.weeklyPlanId, updated.weeklyPlanId]);
+    for (const planId of Array.from(affectedPlanIds)) {
+      if (planId) {
+        await this.recalculateWeeklyPlanProgress(planId, userId);
+      }
+    }
     return updated;
   }
 
   async deleteDailyTask(taskId: string, userId: string): Promise<void> {
-    await db
+    const [deleted] = await db
       .delete(dailyTasks)
-      .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)));
-  }
+      .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)))
+      .returning();
+    if (deleted?.weeklyPlanId) {
+      await this.recalculateWeeklyPlanProgress(deleted.weeklyPlanId, userId);
+    }
 
-  // Pomodoro session methods
-  async createPomodoroSession(session: InsertPomodoroSession): Promise<PomodoroSession> {
+    // Deleting an occurrence skips it, so it is not materialized again
+    if (deleted?.recurringTaskId && deleted.recurrenceDate) {
+      await db
+        .update(recurringTasks)
+        .set({
+          skippedDates: sql`array_append(coalesce(${recurringTasks.skippedDates}, '{}'), ${deleted.recurrenceDate}::date)`,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(recurringTasks.id, deleted.recurringTaskId));
+    }
+  }
+
+  async getRolloverTasks(userId: string, date: string): Promise<DailyTask[]> {
+    return await db
+      .select()
+      .from(dailyTasks)
+      .where(and(
+        eq(dailyTasks.userId, userId),
+        eq(dailyTasks.isCompleted, false),
+        sql`${dailyTasks.date} = ${date}::date - 1`,
+      ));
+  }
+
+  async rolloverDailyTasks(userId: string, rollover: TaskRollover): Promise<DailyTask[]> {
+    const moved: DailyTask[] = [];
+    for (const { taskId, action, date } of rollover.actions) {
+      const target = action === "reschedule" && date ? date : rollover.date;
+      // A recurring occurrence isn't moved onto a day its rule already covers; that day's
+      // occurrence takes its place instead of leaving a duplicate
+      if (action === "drop" || await this.hasRecurringOccurrenceOn(taskId, userId, target)) {
+        await this.deleteDailyTask(taskId, userId);
+        continue;
+      }
+
+      const [updated] = await db
+        .update(dailyTasks)
+        .set({
+          date: target,
+          deferCount: sql`${dailyTasks.deferCount} + 1`,
+          updatedAt: sql`now()`,
+        })
+        .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)))
+        .returning();
+      if (updated) {
+        moved.push(updated);
+      }
+    }
+    return moved;
+  }
+
+  private async hasRecurringOccurrenceOn(taskId: string, userId: string, date: string): Promise<boolean> {
+    const [task] = await db
+      .select()
+      .from(dailyTasks)
+      .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)));
+    // Back on its own day it is that day's occurrence
+    if (!task?.recurringTaskId || task.recurrenceDate === date) {
+      return false;
+    }
+
+    const [existing] = await db
+      .select({ id: dailyTasks.id })
+      .from(dailyTasks)
+      .where(and(
+        eq(dailyTasks.recurringTaskId, task.recurringTaskId),
+        eq(dailyTasks.date, date),
+        ne(dailyTasks.id, task.id),
+      ));
+    if (existing) {
+      return true;
+    }
+
+    const [template] = await db
+      .select()
+      .from(recurringTasks)
+      .where(eq(recurringTasks.id, task.recurringTaskId));
+    return !!template &&
+      template.startDate <= date &&
+      (!template.endDate || template.endDate >= date) &&
+      occursOn(template, date) &&
+      !template.skippedDates?.includes(date);
+  }
+
+  // Recurring task methods
+  async getRecurringTasks(userId: string): Promise<RecurringTask[]> {
+    return await db
+      .select()
+      .from(recurringTasks)
+      .where(eq(recurringTasks.userId, userId))
+      .orderBy(asc(recurringTasks.createdAt));
+  }
+
+  async createRecurringTask(template: InsertRecurringTask): Promise<RecurringTask> {
+    const [created] = await db
+      .insert(recurringTasks)
+      .values(template)
+      .returning();
+    return created;
+  }
+
+  async updateRecurringTask(templateId: string, userId: string, updates: Partial<RecurringTask>): Promise<RecurringTask | undefined> {
+    const [updated] = await db
+      .update(recurringTasks)
+      .set({
+        ...updates,
+        updatedAt: sql`now()`,
+      })
+      .where(and(eq(recurringTasks.id, templateId), eq(recurringTasks.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteRecurringTask(templateId: string, userId: string): Promise<void> {
+    await db
+      .delete(recurringTasks)
+      .where(and(eq(recurringTasks.id, templateId), eq(recurringTasks.userId, userId)));
+  }
+
+  async materializeRecurringTasks(userId: string, date: string): Promise<void> {
+    const templates = await db
+      .select()
+      .from(recurringTasks)
+      .where(and(
+        eq(recurringTasks.userId, userId),
+        lte(recurringTasks.startDate, date),
+        or(isNull(recurringTasks.endDate), gte(recurringTasks.endDate, date)),
+      ));
+
+    const due = templates.filter(template =>
+      occursOn(template, date) && !template.skippedDates?.includes(date)
+    );
+    if (due.length === 0) {
+      return;
+    }
+
+    // The unique (recurringTaskId, recurrenceDate) index keeps an occurrence
+    // from being created twice, even after it was edited or moved.
+    await db
+      .insert(dailyTasks)
+      .values(due.map(template => ({
+        userId,
+        title: template.title,
+        description: template.description,
+        impact: template.impact,
+        date,
+        recurringTaskId: template.id,
+        recurrenceDate: date,
+      })))
+      .onConflictDoNothing();
+  }
+
+  // Habit methods
+  async getHabits(userId: string, today: string): Promise<HabitWithCheckIns[]> {
+    const userHabits = await db
+      .select()
+      .from(habits)
+      .where(eq(habits.userId, userId))
+      .orderBy(asc(habits.createdAt));
+    if (userHabits.length === 0) {
+      return [];
+    }
+
+    const settings = await this.getUserSettings(userId);
+    const since = shiftDate(today, -HABIT_HISTORY_DAYS);
+    const checkIns = await db
+      .select({ habitId: habitCheckIns.habitId, date: habitCheckIns.date })
+      .from(habitCheckIns)
+      .where(and(
+        eq(habitCheckIns.userId, userId),
+        gte(habitCheckIns.date, since),
+        lte(habitCheckIns.date, today),
+      ));
+
+    // Streaks can run longer than the history window, so they come from weekly counts over all check-ins.
+    // The week start day is inlined so the grouped expression matches the selected one.
+    const offset = sql.raw(String(Number(settings.weekStartsOn)));
+    const weekStart = sql<string>`(${habitCheckIns.date} - ((extract(dow from ${habitCheckIns.date})::int - ${offset} + 7) % 7))::text`;
+    const weeks = await db
+      .select({ habitId: habitCheckIns.habitId, weekStart, count: sql<number>`count(*)::int` })
+      .from(habitCheckIns)
+      .where(and(eq(habitCheckIns.userId, userId), lte(habitCheckIns.date, today)))
+      .groupBy(habitCheckIns.habitId, weekStart);
+
+    return userHabits.map(habit => {
+      const dates = checkIns
+        .filter(checkIn => checkIn.habitId === habit.id)
+        .map(checkIn => checkIn.date)
+        .sort();
+      const weekCounts = new Map(weeks
+        .filter(week => week.habitId === habit.id)
+        .map(week => [week.weekStart, week.count]));
+      return { ...habit, checkIns: dates, streak: habitStreak(weekCounts, habit.targetPerWeek, today, settings.weekStartsOn) };
+    });
+  }
+
+  async createHabit(habit: InsertHabit): Promise<Habit> {
+    const [created] = await db
+      .insert(habits)
+      .values(habit)
+      .returning();
+    return created;
+  }
+
+  async updateHabit(habitId: string, userId: string, updates: Partial<Habit>): Promise<Habit | undefined> {
+    const [updated] = await db
+      .update(habits)
+      .set({
+        ...updates,
+        updatedAt: sql`now()`,
+      })
+      .where(and(eq(habits.id, habitId), eq(habits.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteHabit(habitId: string, userId: string): Promise<void> {
+    await db
+      .delete(habits)
+      .where(and(eq(habits.id, habitId), eq(habits.userId, userId)));
+  }
+
+  async checkInHabit(habitId: string, userId: string, date: string): Promise<boolean> {
+    const [habit] = await db
+      .select({ id: habits.id })
+      .from(habits)
+      .where(and(eq(habits.id, habitId), eq(habits.userId, userId)));
+    if (!habit) {
+      return false;
+    }
+
+    await db
+      .insert(habitCheckIns)
+      .values({ habitId, userId, date })
+      .onConflictDoNothing();
+    return true;
+  }
+
+  async removeHabitCheckIn(habitId: string, userId: string, date: string): Promise<void> {
+    await db
+      .delete(habitCheckIns)
+      .where(and(
+        eq(habitCheckIns.habitId, habitId),
+        eq(habitCheckIns.userId, userId),
+        eq(habitCheckIns.date, date),
+      ));
+  }
+
+  async getQuestHabitAdherence(questId: string, userId: string, today: string): Promise<number | null> {
+    const quest = await this.getQuarterlyQuest(questId, userId);
+    if (!quest) {
+      return null;
+    }
+
+    const questHabits = await db
+      .select()
+      .from(habits)
+      .where(and(eq(habits.quarterlyQuestId, questId), eq(habits.userId, userId)));
+    if (questHabits.length === 0) {
+      return null;
+    }
+
+    const { startDate: start, endDate: end } = quest;
+    const windowEnd = today < end ? today : end;
+    if (windowEnd < start) {
+      return null;
+    }
+
+    const checkIns = await db
+      .select({ habitId: habitCheckIns.habitId })
+      .from(habitCheckIns)
+      .where(and(
+        inArray(habitCheckIns.habitId, questHabits.map(habit => habit.id)),
+        gte(habitCheckIns.date, start),
+        lte(habitCheckIns.date, windowEnd),
+      ));
+
+    // Expected check-ins are prorated from when each habit started within the quest
+    const { timeZone } = await this.getUserSettings(userId);
+    let expected = 0;
+    for (const habit of questHabits) {
+      const createdOn = habit.createdAt ? dateInTimeZone(habit.createdAt, timeZone) : start;
+      const from = createdOn > start ? createdOn : start;
+      if (from <= windowEnd) {
+        expected += (habit.targetPerWeek * (daysBetween(from, windowEnd) + 1)) / 7;
+      }
+    }
+    if (expected === 0) {
+      return null;
+    }
+    return Math.min(100, Math.round((checkIns.length / expected) * 100));
+  }
+
+  // Pomodoro session methods
+  async createPomodoroSession(session: InsertPomodoroSession): Promise<PomodoroSession> {
     const [created] = await db
       .insert(pomodoroSessions)
       .values(session)
@@ -246,43 +1342,270 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getPomodoroStats(userId: string, date?: string): Promise<{
-    totalFocusTime: number;
-    completedPomodoros: number;
-    averageSessionLength: number;
-  }> {
-    let sessions;
-    
+  async getActivePomodoroSession(userId: string): Promise<PomodoroSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(pomodoroSessions)
+      .where(and(eq(pomodoroSessions.userId, userId), inArray(pomodoroSessions.status, ["running", "paused"])));
+    if (!session) {
+      return undefined;
+    }
+
+    // A session that ran out while no client was watching is finished now
+    if (session.status === "running" && pomodoroElapsedSeconds(session) >= (session.plannedDuration ?? 0)) {
+      await this.finishPomodoroSession(session);
+      return undefined;
+    }
+    return session;
+  }
+
+  async startPomodoroSession(userId: string, start: PomodoroStart): Promise<PomodoroSession> {
+    // Only one session runs at a time; whatever was active is closed out first
+    const active = await this.getActivePomodoroSession(userId);
+    if (active) {
+      await this.finishPomodoroSession(active);
+    }
+
+    const [created] = await db
+      .insert(pomodoroSessions)
+      .values({
+        userId,
+        taskId: start.taskId ?? null,
+        type: start.type,
+        plannedDuration: start.plannedDuration,
+        cycle: start.cycle ?? null,
+        status: "running",
+        startedAt: new Date(),
+        duration: 0,
+      })
+      .returning();
+    return created;
+  }
+
+  async pausePomodoroSession(sessionId: string, userId: string): Promise<PomodoroSession | undefined> {
+    const [paused] = await db
+      .update(pomodoroSessions)
+      .set({ status: "paused", pausedAt: new Date() })
+      .where(and(
+        eq(pomodoroSessions.id, sessionId),
+        eq(pomodoroSessions.userId, userId),
+        eq(pomodoroSessions.status, "running"),
+      ))
+      .returning();
+    return paused;
+  }
+
+  async resumePomodoroSession(sessionId: string, userId: string): Promise<PomodoroSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(pomodoroSessions)
+      .where(and(
+        eq(pomodoroSessions.id, sessionId),
+        eq(pomodoroSessions.userId, userId),
+        eq(pomodoroSessions.status, "paused"),
+      ));
+    if (!session?.pausedAt) {
+      return undefined;
+    }
+
+    const pausedFor = Math.floor((Date.now() - session.pausedAt.getTime()) / 1000);
+    const [resumed] = await db
+      .update(pomodoroSessions)
+      .set({
+        status: "running",
+        pausedSeconds: session.pausedSeconds + Math.max(0, pausedFor),
+        pausedAt: null,
+      })
+      .where(and(eq(pomodoroSessions.id, sessionId), eq(pomodoroSessions.status, "paused")))
+      .returning();
+    return resumed;
+  }
+
+  async stopPomodoroSession(sessionId: string, userId: string): Promise<PomodoroSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(pomodoroSessions)
+      .where(and(
+        eq(pomodoroSessions.id, sessionId),
+        eq(pomodoroSessions.userId, userId),
+        inArray(pomodoroSessions.status, ["running", "paused"]),
+      ));
+    if (!session) {
+      return undefined;
+    }
+    return await this.finishPomodoroSession(session);
+  }
+
+  // Closes an active session as completed if it ran its full length, otherwise as
+  // partial. Returns undefined when another request already closed it.
+  private async finishPomodoroSession(session: PomodoroSession): Promise<PomodoroSession | undefined> {
+    const now = new Date();
+    const planned = session.plannedDuration ?? 0;
+    const elapsed = pomodoroElapsedSeconds(session, now);
+    const isCompleted = elapsed >= planned - POMODORO_COMPLETION_TOLERANCE_SECONDS;
+
+    const [finished] = await db
+      .update(pomodoroSessions)
+      .set({
+        status: isCompleted ? "completed" : "partial",
+        duration: Math.min(elapsed, planned),
+        pausedAt: null,
+        completedAt: now,
+      })
+      .where(and(
+        eq(pomodoroSessions.id, session.id),
+        inArray(pomodoroSessions.status, ["running", "paused"]),
+      ))
+      .returning();
+
+    if (finished && isCompleted && finished.type === "work" && finished.taskId) {
+      await db
+        .update(dailyTasks)
+        .set({ pomodoroCount: sql`coalesce(${dailyTasks.pomodoroCount}, 0) + 1` })
+        .where(eq(dailyTasks.id, finished.taskId));
+    }
+    return finished;
+  }
+
+  async getPomodoroStats(userId: string, date?: string): Promise<PomodoroStats> {
+    const conditions = [
+      eq(pomodoroSessions.userId, userId),
+      inArray(pomodoroSessions.status, ["completed", "partial"]),
+    ];
     if (date) {
-      sessions = await db
-        .select({
-          duration: pomodoroSessions.duration,
-          type: pomodoroSessions.type,
-        })
-        .from(pomodoroSessions)
-        .where(and(eq(pomodoroSessions.userId, userId), sql`DATE(${pomodoroSessions.completedAt}) = ${date}`));
-    } else {
-      sessions = await db
-        .select({
-          duration: pomodoroSessions.duration,
-          type: pomodoroSessions.type,
-        })
-        .from(pomodoroSessions)
-        .where(eq(pomodoroSessions.userId, userId));
+      const { timeZone } = await this.getUserSettings(userId);
+      conditions.push(sql`${localDay(pomodoroSessions.completedAt, timeZone)} = ${date}`);
     }
+
+    const sessions = await db
+      .select({
+        id: pomodoroSessions.id,
+        duration: pomodoroSessions.duration,
+        type: pomodoroSessions.type,
+        status: pomodoroSessions.status,
+        focusRating: pomodoroSessions.focusRating,
+        taskId: pomodoroSessions.taskId,
+        taskTitle: dailyTasks.title,
+      })
+      .from(pomodoroSessions)
+      .leftJoin(dailyTasks, eq(pomodoroSessions.taskId, dailyTasks.id))
+      .where(and(...conditions));
+
+    // Partial sessions count toward focus time but not as finished pomodoros
     const workSessions = sessions.filter(s => s.type === 'work');
     
     const totalFocusTime = workSessions.reduce((sum, session) => sum + session.duration, 0);
-    const completedPomodoros = workSessions.length;
-    const averageSessionLength = completedPomodoros > 0 ? Math.round(totalFocusTime / completedPomodoros) : 0;
+    const completedPomodoros = workSessions.filter(s => s.status === 'completed').length;
+    const averageSessionLength = workSessions.length > 0 ? Math.round(totalFocusTime / workSessions.length) : 0;
+
+    const interruptionCounts = new Map<string, number>();
+    if (workSessions.length > 0) {
+      const rows = await db
+        .select({
+          sessionId: pomodoroInterruptions.sessionId,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(pomodoroInterruptions)
+        .where(inArray(pomodoroInterruptions.sessionId, workSessions.map(s => s.id)))
+        .groupBy(pomodoroInterruptions.sessionId);
+      rows.forEach(row => interruptionCounts.set(row.sessionId, row.count));
+    }
+
+    const focusQuality = (group: typeof workSessions): FocusQuality => {
+      const interruptions = group.reduce((sum, s) => sum + (interruptionCounts.get(s.id) ?? 0), 0);
+      const ratings = group.map(s => s.focusRating).filter((rating): rating is number => rating !== null);
+      return {
+        sessions: group.length,
+        interruptions,
+        interruptionRate: group.length > 0 ? Math.round((interruptions / group.length) * 100) / 100 : 0,
+        averageFocus: ratings.length > 0
+          ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10
+          : null,
+      };
+    };
+
+    const byTask = Array.from(new Set(workSessions.map(s => s.taskId).filter((id): id is string => !!id)))
+      .map(taskId => {
+        const group = workSessions.filter(s => s.taskId === taskId);
+        return { taskId, title: group[0].taskTitle ?? "", ...focusQuality(group) };
+      });
     
     return {
       totalFocusTime,
       completedPomodoros,
       averageSessionLength,
+      ...focusQuality(workSessions),
+      byTask,
     };
   }
 
+  async addPomodoroInterruption(interruption: InsertPomodoroInterruption): Promise<PomodoroInterruption | undefined> {
+    const [session] = await db
+      .select({ id: pomodoroSessions.id })
+      .from(pomodoroSessions)
+      .where(and(
+        eq(pomodoroSessions.id, interruption.sessionId),
+        eq(pomodoroSessions.userId, interruption.userId),
+        eq(pomodoroSessions.type, "work"),
+      ));
+    if (!session) {
+      return undefined;
+    }
+
+    const [created] = await db
+      .insert(pomodoroInterruptions)
+      .values(interruption)
+      .returning();
+    return created;
+  }
+
+  async ratePomodoroSession(sessionId: string, userId: string, focusRating: number): Promise<PomodoroSession | undefined> {
+    const [rated] = await db
+      .update(pomodoroSessions)
+      .set({ focusRating })
+      .where(and(
+        eq(pomodoroSessions.id, sessionId),
+        eq(pomodoroSessions.userId, userId),
+        eq(pomodoroSessions.type, "work"),
+      ))
+      .returning();
+    return rated;
+  }
+
+  // User settings methods
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    const [settings] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+    if (settings) {
+      return settings;
+    }
+
+    // Users who never changed a preference get the column defaults
+    const [created] = await db
+      .insert(userSettings)
+      .values({ userId })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? (await this.getUserSettings(userId));
+  }
+
+  async updateUserSettings(userId: string, updates: Partial<InsertUserSettings>): Promise<UserSettings> {
+    const [saved] = await db
+      .insert(userSettings)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: {
+          ...updates,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
   // Daily reflection methods
   async getDailyReflection(userId: string, date: string): Promise<DailyReflection | undefined> {
     const [reflection] = await db
@@ -314,6 +1637,638 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Analytics methods
+  async getFocusTimeAnalytics(userId: string, from: string, to: string): Promise<FocusTimeAnalytics> {
+    const { timeZone, weekStartsOn } = await this.getUserSettings(userId);
+    const day = sql<string>`to_char(${localDay(pomodoroSessions.completedAt, timeZone)}, 'YYYY-MM-DD')`;
+    const rows = await db
+      .select({
+        date: day,
+        focusSeconds: sql<number>`coalesce(sum(${pomodoroSessions.duration}), 0)::int`,
+        sessions: sql<number>`count(*)::int`,
+      })
+      .from(pomodoroSessions)
+      .where(and(
+        eq(pomodoroSessions.userId, userId),
+        eq(pomodoroSessions.type, "work"),
+        inArray(pomodoroSessions.status, ["completed", "partial"]),
+        sql`${localDay(pomodoroSessions.completedAt, timeZone)} between ${from} and ${to}`,
+      ))
+      .groupBy(day);
+
+    // Every day in the range is listed so charts show gaps as zero
+    const byDate = new Map(rows.map(row => [row.date, row]));
+    const daily: FocusTimeAnalytics["daily"] = [];
+    for (let date = from; date <= to; date = shiftDate(date, 1)) {
+      const row = byDate.get(date);
+      daily.push({ date, focusSeconds: row?.focusSeconds ?? 0, sessions: row?.sessions ?? 0 });
+    }
+
+    const weeks = new Map<string, { weekStart: string; focusSeconds: number; sessions: number }>();
+    for (const point of daily) {
+      const weekStart = startOfWeek(point.date, weekStartsOn);
+      const week = weeks.get(weekStart) ?? { weekStart, focusSeconds: 0, sessions: 0 };
+      week.focusSeconds += point.focusSeconds;
+      week.sessions += point.sessions;
+      weeks.set(weekStart, week);
+    }
+
+    return { daily, weekly: Array.from(weeks.values()) };
+  }
+
+  async getCompletionByImpact(userId: string, from: string, to: string): Promise<CompletionByImpact[]> {
+    const rows = await db
+      .select({
+        impact: dailyTasks.impact,
+        total: sql<number>`count(*)::int`,
+        completed: sql<number>`count(*) filter (where ${dailyTasks.isCompleted})::int`,
+      })
+      .from(dailyTasks)
+      .where(and(eq(dailyTasks.userId, userId), gte(dailyTasks.date, from), lte(dailyTasks.date, to)))
+      .groupBy(dailyTasks.impact);
+
+    return ["high", "medium", "low"].map(impact => {
+      const row = rows.find(r => r.impact === impact);
+      const total = row?.total ?? 0;
+      const completed = row?.completed ?? 0;
+      return { impact, total, completed, rate: total > 0 ? Math.round((completed / total) * 100) : 0 };
+    });
+  }
+
+  async getEnergyTrend(userId: string, from: string, to: string): Promise<EnergyTrendPoint[]> {
+    const rows = await db
+      .select({ date: dailyReflections.date, energyLevel: dailyReflections.energyLevel })
+      .from(dailyReflections)
+      .where(and(eq(dailyReflections.userId, userId), gte(dailyReflections.date, from), lte(dailyReflections.date, to)))
+      .orderBy(asc(dailyReflections.date));
+    return rows;
+  }
+
+  async getQuestProgressTimelines(userId: string, from: string, to: string): Promise<QuestProgressTimeline[]> {
+    const { timeZone } = await this.getUserSettings(userId);
+    const rows = await db
+      .select({
+        questId: quarterlyQuests.id,
+        title: quarterlyQuests.title,
+        progress: questProgressHistory.progress,
+        recordedAt: questProgressHistory.recordedAt,
+      })
+      .from(questProgressHistory)
+      .innerJoin(quarterlyQuests, eq(questProgressHistory.quarterlyQuestId, quarterlyQuests.id))
+      .where(and(
+        eq(quarterlyQuests.userId, userId),
+        sql`${localDay(questProgressHistory.recordedAt, timeZone)} between ${from} and ${to}`,
+      ))
+      .orderBy(asc(questProgressHistory.recordedAt));
+
+    // Keep the last snapshot of each day per quest
+    const timelines = new Map<string, QuestProgressTimeline>();
+    for (const row of rows) {
+      const timeline = timelines.get(row.questId) ?? { questId: row.questId, title: row.title, points: [] };
+      const date = dateInTimeZone(row.recordedAt, timeZone);
+      const last = timeline.points[timeline.points.length - 1];
+      if (last?.date === date) {
+        last.progress = row.progress;
+      } else {
+        timeline.points.push({ date, progress: row.progress });
+      }
+      timelines.set(row.questId, timeline);
+    }
+    return Array.from(timelines.values());
+  }
+
+  // Quarterly review methods
+  async getQuarterlyReviews(userId: string): Promise<QuarterlyReview[]> {
+    return await db
+      .select()
+      .from(quarterlyReviews)
+      .where(eq(quarterlyReviews.userId, userId))
+      .orderBy(desc(quarterlyReviews.startDate));
+  }
+
+  // Closes every quest the review covers with its outcome, and continues the unfinished ones the
+  // user chose to carry over as fresh quests. Returns undefined when the quarter was already reviewed.
+  async createQuarterlyReview(
+    userId: string,
+    review: QuarterlyReviewInput,
+    period: { start: string; end: string },
+    carryOverTo: { start: string; end: string },
+  ): Promise<QuarterlyReview | undefined> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(quarterlyReviews)
+        .values({
+          userId,
+          startDate: period.start,
+          endDate: period.end,
+          retrospective: review.retrospective || null,
+          lessonsLearned: review.lessonsLearned || null,
+          outcomes: [],
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!created) {
+        return undefined;
+      }
+
+      const quests = await tx
+        .select()
+        .from(quarterlyQuests)
+        .where(and(
+          eq(quarterlyQuests.userId, userId),
+          eq(quarterlyQuests.status, "active"),
+          inArray(quarterlyQuests.id, review.outcomes.map(outcome => outcome.questId)),
+        ));
+
+      const outcomes: QuarterlyReviewOutcome[] = [];
+      for (const { questId, status, carryOver } of review.outcomes) {
+        const quest = quests.find(q => q.id === questId);
+        if (!quest) {
+          continue;
+        }
+        await tx
+          .update(quarterlyQuests)
+          .set({ status, updatedAt: sql`now()` })
+          .where(eq(quarterlyQuests.id, quest.id));
+        const carriedOverTo = carryOver && status !== "achieved"
+          ? await this.carryQuestOver(tx, quest, carryOverTo)
+          : null;
+        outcomes.push({ questId: quest.id, title: quest.title, progress: quest.progress ?? 0, status, carriedOverTo });
+      }
+
+      const [saved] = await tx
+        .update(quarterlyReviews)
+        .set({ outcomes })
+        .where(eq(quarterlyReviews.id, created.id))
+        .returning();
+      return saved;
+    });
+  }
+
+  // A new quest for the next period with the same goal, plan and systems. Key results keep their
+  // current values, vision cards stay linked and the quest's habits move over; milestones were
+  // dated for the old period and stay with it. Returns the new quest's ID.
+  private async carryQuestOver(tx: Transaction, quest: QuarterlyQuest, period: { start: string; end: string }): Promise<string> {
+    const keyResults = await tx
+      .select()
+      .from(questKeyResults)
+      .where(eq(questKeyResults.quarterlyQuestId, quest.id));
+    const progress = keyResults.length
+      ? Math.round(keyResults.reduce((sum, keyResult) => sum + measureProgress(keyResult), 0) / keyResults.length)
+      : 0;
+
+    const [continued] = await tx
+      .insert(quarterlyQuests)
+      .values({
+        userId: quest.userId,
+        title: quest.title,
+        goal: quest.goal,
+        plan: quest.plan,
+        systems: quest.systems,
+        startDate: period.start,
+        endDate: period.end,
+        progress,
+      })
+      .returning();
+    await tx
+      .insert(questProgressHistory)
+      .values({ quarterlyQuestId: continued.id, progress });
+
+    if (keyResults.length > 0) {
+      await tx
+        .insert(questKeyResults)
+        .values(keyResults.map(({ userId, title, targetValue, currentValue, unit }) => ({
+          userId,
+          quarterlyQuestId: continued.id,
+          title,
+          targetValue,
+          currentValue,
+          unit,
+        })));
+    }
+
+    const cardLinks = await tx
+      .select()
+      .from(visionCardQuests)
+      .where(eq(visionCardQuests.quarterlyQuestId, quest.id));
+    if (cardLinks.length > 0) {
+      await tx
+        .insert(visionCardQuests)
+        .values(cardLinks.map(link => ({ visionCardId: link.visionCardId, quarterlyQuestId: continued.id })));
+    }
+
+    await tx
+      .update(habits)
+      .set({ quarterlyQuestId: continued.id, updatedAt: sql`now()` })
+      .where(and(eq(habits.quarterlyQuestId, quest.id), eq(habits.userId, quest.userId)));
+    return continued.id;
+  }
+
+  // Annual review methods
+  async getAnnualReviewSummary(userId: string, year: number): Promise<AnnualReviewSummary> {
+    const from = `${year}-01-01`;
+    const to = `${year}-12-31`;
+
+    const quests = await db
+      .select()
+      .from(quarterlyQuests)
+      .where(and(eq(quarterlyQuests.userId, userId), lte(quarterlyQuests.startDate, to), gte(quarterlyQuests.endDate, from)))
+      .orderBy(asc(quarterlyQuests.startDate), asc(quarterlyQuests.createdAt));
+    const keyResults = quests.length
+      ? await db
+          .select()
+          .from(questKeyResults)
+          .where(inArray(questKeyResults.quarterlyQuestId, quests.map(quest => quest.id)))
+          .orderBy(asc(questKeyResults.createdAt))
+      : [];
+
+    const [focus, completion, reflections] = await Promise.all([
+      this.getFocusTimeAnalytics(userId, from, to),
+      this.getCompletionByImpact(userId, from, to),
+      db
+        .select()
+        .from(dailyReflections)
+        .where(and(eq(dailyReflections.userId, userId), gte(dailyReflections.date, from), lte(dailyReflections.date, to)))
+        .orderBy(asc(dailyReflections.date)),
+    ]);
+
+    // One highlight per month: the most energized day, and the fuller entry when energy ties
+    const highlights = new Map<string, DailyReflection>();
+    for (const entry of reflections) {
+      if (!entry.reflection?.trim()) {
+        continue;
+      }
+      const month = entry.date.slice(0, 7);
+      const best = highlights.get(month);
+      const beatsBest = best && (
+        (entry.energyLevel ?? 0) - (best.energyLevel ?? 0) ||
+        (entry.reflection?.length ?? 0) - (best.reflection?.length ?? 0)
+      ) > 0;
+      if (!best || beatsBest) {
+        highlights.set(month, entry);
+      }
+    }
+
+    const energyLevels = reflections
+      .map(entry => entry.energyLevel)
+      .filter((level): level is number => level !== null);
+    const tasksTotal = completion.reduce((sum, row) => sum + row.total, 0);
+    const tasksCompleted = completion.reduce((sum, row) => sum + row.completed, 0);
+
+    return {
+      year,
+      quests: quests.map(quest => ({
+        id: quest.id,
+        title: quest.title,
+        quarter: formatQuestPeriod(quest.startDate, quest.endDate),
+        endDate: quest.endDate,
+        progress: quest.progress ?? 0,
+        status: quest.status as QuestStatus,
+        keyResults: keyResults
+          .filter(keyResult => keyResult.quarterlyQuestId === quest.id)
+          .map(({ title, currentValue, targetValue, unit }) => ({ title, currentValue, targetValue, unit })),
+      })),
+      reflectionHighlights: Array.from(highlights.values()).map(entry => ({
+        date: entry.date,
+        reflection: entry.reflection ?? "",
+        energyLevel: entry.energyLevel,
+      })),
+      totals: {
+        questsCompleted: quests.filter(quest => quest.status === "achieved").length,
+        focusSeconds: focus.daily.reduce((sum, day) => sum + day.focusSeconds, 0),
+        pomodoros: focus.daily.reduce((sum, day) => sum + day.sessions, 0),
+        tasksCompleted,
+        tasksTotal,
+        completionRate: tasksTotal > 0 ? Math.round((tasksCompleted / tasksTotal) * 100) : 0,
+        reflections: reflections.length,
+        averageEnergy: energyLevels.length
+          ? Math.round((energyLevels.reduce((sum, level) => sum + level, 0) / energyLevels.length) * 10) / 10
+          : null,
+      },
+    };
+  }
+
+  async getAnnualReviews(userId: string): Promise<AnnualReview[]> {
+    return await db
+      .select()
+      .from(annualReviews)
+      .where(eq(annualReviews.userId, userId))
+      .orderBy(desc(annualReviews.year));
+  }
+
+  async getAnnualReview(userId: string, year: number): Promise<AnnualReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(annualReviews)
+      .where(and(eq(annualReviews.userId, userId), eq(annualReviews.year, year)));
+    return review || undefined;
+  }
+
+  // Saving a review closes out the year: quests still open at its end are closed with the outcome
+  // their progress points to, and the Life Compass
+  // the user carried out of it becomes their current one (kept as a new revision).
+  // Returns undefined when the year has already been reviewed.
+  async createAnnualReview(review: InsertAnnualReview): Promise<AnnualReview | undefined> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(annualReviews)
+        .values(review)
+        .onConflictDoNothing()
+        .returning();
+      if (!created) {
+        return undefined;
+      }
+
+      const openQuests = await tx
+        .select()
+        .from(quarterlyQuests)
+        .where(and(
+          eq(quarterlyQuests.userId, review.userId),
+          eq(quarterlyQuests.status, "active"),
+          lte(quarterlyQuests.endDate, `${review.year}-12-31`),
+        ));
+      for (const quest of openQuests) {
+        await tx
+          .update(quarterlyQuests)
+          .set({ status: suggestedQuestOutcome(quest.progress ?? 0), updatedAt: sql`now()` })
+          .where(eq(quarterlyQuests.id, quest.id));
+      }
+      await this.saveVisionPlan(tx, {
+        userId: review.userId,
+        coreValues: review.coreValues,
+        threeYearVision: review.threeYearVision,
+        whyEngine: review.whyEngine,
+      });
+      return created;
+    });
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<NotificationFeed> {
+    const recent = await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+    const [{ unreadCount }] = await db
+      .select({ unreadCount: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return { notifications: recent, unreadCount };
+  }
+
+  // Returns undefined when a notification with the same dedupe key already exists
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const [created] = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async markNotificationRead(notificationId: string, userId: string): Promise<Notification | undefined> {
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: sql`now()` })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Users who have not turned reminders off; users without a settings row get the defaults
+  async getReminderRecipients(): Promise<{ userId: string; timeZone: string; weekStartsOn: number; joinedAt: Date | null }[]> {
+    return db
+      .select({
+        userId: users.id,
+        timeZone: sql<string>`coalesce(${userSettings.timeZone}, 'UTC')`,
+        weekStartsOn: sql<number>`coalesce(${userSettings.weekStartsOn}, 1)`,
+        joinedAt: users.createdAt,
+      })
+      .from(users)
+      .leftJoin(userSettings, eq(userSettings.userId, users.id))
+      .where(or(isNull(userSettings.userId), eq(userSettings.reminderNotifications, true)));
+  }
+
+  // Creates any reminders due for the user's local day; returns only the new ones
+  async generateReminders(userId: string, today: string, weekStartsOn: number, joinedOn: string | null): Promise<Notification[]> {
+    const candidates: InsertNotification[] = [];
+
+    const weekStart = startOfWeek(today, weekStartsOn);
+    const plans = await this.getWeeklyPlans(userId, weekStart);
+    if (plans.length === 0) {
+      candidates.push({
+        userId,
+        kind: "weekly_plan_missing",
+        title: "Plan your week",
+        message: "You haven't set a weekly plan for this week yet.",
+        link: "/weekly-planning",
+        dedupeKey: `weekly_plan_missing:${weekStart}`,
+      });
+    }
+
+    const yesterday = shiftDate(today, -1);
+    const reflection = await this.getDailyReflection(userId, yesterday);
+    if (!reflection && (!joinedOn || joinedOn <= yesterday)) {
+      candidates.push({
+        userId,
+        kind: "reflection_missing",
+        title: "Reflect on yesterday",
+        message: "You didn't write a reflection yesterday. Take a minute to look back.",
+        link: "/daily-tasks",
+        dedupeKey: `reflection_missing:${yesterday}`,
+      });
+    }
+
+    const quests = await this.getQuarterlyQuests(userId);
+    for (const quest of quests.filter(isActiveQuest)) {
+      const end = quest.endDate;
+      const daysLeft = daysBetween(today, end);
+      const progress = quest.progress ?? 0;
+      if (daysLeft >= 0 && daysLeft <= QUEST_REMINDER_DAYS && progress < QUEST_AT_RISK_PROGRESS) {
+        candidates.push({
+          userId,
+          kind: "quest_at_risk",
+          title: "Quest ending soon",
+          message: `"${quest.title}" ends in ${daysLeft} ${daysLeft === 1 ? "day" : "days"} and is ${progress}% complete.`,
+          link: "/quarterly-quests",
+          dedupeKey: `quest_at_risk:${quest.id}:${end}`,
+        });
+      }
+    }
+
+    const created: Notification[] = [];
+    for (const candidate of candidates) {
+      const notification = await this.createNotification(candidate);
+      if (notification) {
+        created.push(notification);
+      }
+    }
+    return created;
+  }
+
+  // Export and import methods
+  async getUserExport(userId: string): Promise<UserExport> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const userQuests = await db
+      .select()
+      .from(quarterlyQuests)
+      .where(eq(quarterlyQuests.userId, userId))
+      .orderBy(asc(quarterlyQuests.startDate), asc(quarterlyQuests.createdAt));
+    const questIds = userQuests.map(quest => quest.id);
+
+    return {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      user,
+      settings: await this.getUserSettings(userId),
+      visionPlan: (await this.getVisionPlan(userId)) ?? null,
+      visionPlanRevisions: await db
+        .select()
+        .from(visionPlanRevisions)
+        .where(eq(visionPlanRevisions.userId, userId))
+        .orderBy(asc(visionPlanRevisions.revision)),
+      visionCards: await this.getVisionCards(userId),
+      quarterlyQuests: userQuests,
+      questKeyResults: await db
+        .select()
+        .from(questKeyResults)
+        .where(eq(questKeyResults.userId, userId))
+        .orderBy(asc(questKeyResults.createdAt)),
+      questMilestones: await db
+        .select()
+        .from(questMilestones)
+        .where(eq(questMilestones.userId, userId))
+        .orderBy(asc(questMilestones.dueDate)),
+      questProgressHistory: questIds.length
+        ? await db
+            .select()
+            .from(questProgressHistory)
+            .where(inArray(questProgressHistory.quarterlyQuestId, questIds))
+            .orderBy(asc(questProgressHistory.recordedAt))
+        : [],
+      weeklyPlans: await db
+        .select()
+        .from(weeklyPlans)
+        .where(eq(weeklyPlans.userId, userId))
+        .orderBy(asc(weeklyPlans.weekStartDate)),
+      dailyTasks: await db
+        .select()
+        .from(dailyTasks)
+        .where(eq(dailyTasks.userId, userId))
+        .orderBy(asc(dailyTasks.date), asc(dailyTasks.createdAt)),
+      recurringTasks: await db
+        .select()
+        .from(recurringTasks)
+        .where(eq(recurringTasks.userId, userId))
+        .orderBy(asc(recurringTasks.createdAt)),
+      habits: await db
+        .select()
+        .from(habits)
+        .where(eq(habits.userId, userId))
+        .orderBy(asc(habits.createdAt)),
+      habitCheckIns: await db
+        .select()
+        .from(habitCheckIns)
+        .where(eq(habitCheckIns.userId, userId))
+        .orderBy(asc(habitCheckIns.date)),
+      pomodoroSessions: await db
+        .select()
+        .from(pomodoroSessions)
+        .where(eq(pomodoroSessions.userId, userId))
+        .orderBy(asc(pomodoroSessions.createdAt)),
+      pomodoroInterruptions: await db
+        .select()
+        .from(pomodoroInterruptions)
+        .where(eq(pomodoroInterruptions.userId, userId))
+        .orderBy(asc(pomodoroInterruptions.createdAt)),
+      dailyReflections: await db
+        .select()
+        .from(dailyReflections)
+        .where(eq(dailyReflections.userId, userId))
+        .orderBy(asc(dailyReflections.date)),
+      quarterlyReviews: await db
+        .select()
+        .from(quarterlyReviews)
+        .where(eq(quarterlyReviews.userId, userId))
+        .orderBy(asc(quarterlyReviews.startDate)),
+      annualReviews: await db
+        .select()
+        .from(annualReviews)
+        .where(eq(annualReviews.userId, userId))
+        .orderBy(asc(annualReviews.year)),
+    };
+  }
+
+  // Inserts parents before children in one transaction, so a failed import leaves nothing behind.
+  // Returns how many rows of each kind were inserted; rows that conflict with existing ones are not.
+  async importRecords(userId: string, records: ImportRecords): Promise<Record<string, number>> {
+    const inserted: Record<string, number> = {};
+    await db.transaction(async (tx) => {
+      const insertAll = async <T extends PgTable>(entity: keyof ImportRecords, table: T, rows: InferInsertModel<T>[]) => {
+        if (rows.length > 0) {
+          const created = await tx.insert(table).values(rows).onConflictDoNothing().returning();
+          if (created.length > 0) {
+            inserted[entity] = created.length;
+          }
+        }
+      };
+
+      await insertAll("visionPlans", visionPlans, records.visionPlans);
+      await insertAll("visionPlanRevisions", visionPlanRevisions, records.visionPlanRevisions);
+      await insertAll("quarterlyQuests", quarterlyQuests, records.quarterlyQuests);
+      await insertAll("visionCards", visionCards, records.visionCards);
+      await insertAll("visionCardQuests", visionCardQuests, records.visionCardQuests);
+      await insertAll("questKeyResults", questKeyResults, records.questKeyResults);
+      await insertAll("questMilestones", questMilestones, records.questMilestones);
+      await insertAll("questProgressHistory", questProgressHistory, records.questProgressHistory);
+      await insertAll("weeklyPlans", weeklyPlans, records.weeklyPlans);
+      await insertAll("recurringTasks", recurringTasks, records.recurringTasks);
+      await insertAll("dailyTasks", dailyTasks, records.dailyTasks);
+      await insertAll("habits", habits, records.habits);
+      await insertAll("habitCheckIns", habitCheckIns, records.habitCheckIns);
+      await insertAll("pomodoroSessions", pomodoroSessions, records.pomodoroSessions);
+      await insertAll("pomodoroInterruptions", pomodoroInterruptions, records.pomodoroInterruptions);
+      await insertAll("dailyReflections", dailyReflections, records.dailyReflections);
+      await insertAll("quarterlyReviews", quarterlyReviews, records.quarterlyReviews);
+      await insertAll("annualReviews", annualReviews, records.annualReviews);
+    });
+
+    // Imported plans, tasks and measures roll up like ones created in the app
+    const planIds = new Set([
+      ...records.weeklyPlans.map(plan => plan.id),
+      ...records.dailyTasks.map(task => task.weeklyPlanId),
+    ]);
+    const questIds = new Set([
+      ...records.quarterlyQuests.map(quest => quest.id),
+      ...records.questKeyResults.map(keyResult => keyResult.quarterlyQuestId),
+      ...records.questMilestones.map(milestone => milestone.quarterlyQuestId),
+    ]);
+    for (const planId of Array.from(planIds)) {
+      if (planId) {
+        await this.recalculateWeeklyPlanProgress(planId, userId);
+      }
+    }
+    for (const questId of Array.from(questIds)) {
+      if (questId) {
+        await this.recalculateQuestProgress(questId, userId);
+      }
+    }
+    return inserted;
+  }
+
   // Error logging methods
   async createErrorLog(errorLog: InsertErrorLog): Promise<ErrorLog> {
     const [result] = await db
@@ -324,4 +2279,90 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
+// Whether a recurring task template has an occurrence on the given date
+function occursOn(template: RecurringTask, date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`);
+  const start = new Date(`${template.startDate}T00:00:00Z`);
+  switch (template.frequency) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return day.getUTCDay() >= 1 && day.getUTCDay() <= 5;
+    case "weekly": {
+      const days = template.daysOfWeek?.length ? template.daysOfWeek : [start.getUTCDay()];
+      return days.includes(day.getUTCDay());
+    }
+    case "monthly": {
+      // Anchored on the start date's day, clamped to short months
+      const lastDayOfMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+      return day.getUTCDate() === Math.min(start.getUTCDate(), lastDayOfMonth);
+    }
+    default:
+      return false;
+  }
+}
+
+// Share of a key result or milestone that has been reached, 0-100
+function measureProgress({ currentValue, targetValue }: { currentValue: number; targetValue: number }): number {
+  if (targetValue <= 0) {
+    return currentValue >= targetValue ? 100 : 0;
+  }
+  return Math.max(0, Math.min(100, (currentValue / targetValue) * 100));
+}
+
+// Slack for client timers that fire a moment before the server's clock agrees
+const POMODORO_COMPLETION_TOLERANCE_SECONDS = 2;
+
+// Days of check-in history returned with each habit for the grid
+const HABIT_HISTORY_DAYS = 84;
+
+// The calendar date a stored UTC timestamp falls on in the user's time zone
+function localDay(column: AnyPgColumn, timeZone: string) {
+  return sql`(${column} at time zone 'UTC' at time zone ${timeZone})::date`;
+}
+
+// Bumped whenever the shape of UserExport changes, so imports can tell versions apart
+const EXPORT_VERSION = 2;
+
+// A quest ending within this many days with progress under QUEST_AT_RISK_PROGRESS gets a reminder
+const QUEST_REMINDER_DAYS = 7;
+const QUEST_AT_RISK_PROGRESS = 50;
+
+// Offsets a YYYY-MM-DD date by a number of days
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Whole days from one YYYY-MM-DD date to another
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+// First day of the week containing a YYYY-MM-DD date; weekStartsOn is 0 (Sunday) - 6
+function startOfWeek(date: string, weekStartsOn: number): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return shiftDate(date, -((day - weekStartsOn + 7) % 7));
+}
+
+// Consecutive weeks, starting on the user's week start day, in which a habit met its weekly target.
+// The current week only counts once its target is met, so it never breaks a streak.
+// weekCounts maps each week's first day to its number of check-ins.
+function habitStreak(weekCounts: Map<string, number>, targetPerWeek: number, today: string, weekStartsOn: number): number {
+  let weekStart = startOfWeek(today, weekStartsOn);
+  const countInWeek = (start: string) => weekCounts.get(start) ?? 0;
+
+  let streak = 0;
+  if (countInWeek(weekStart) >= targetPerWeek) {
+    streak++;
+  }
+  weekStart = shiftDate(weekStart, -7);
+  while (countInWeek(weekStart) >= targetPerWeek) {
+    streak++;
+    weekStart = shiftDate(weekStart, -7);
+  }
+  return streak;
+}
+
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,72 @@
+import type { UploadIntent } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { ObjectStorageService } from "./objectStorage";
+
+// How long a signed upload URL stays valid
+export const UPLOAD_URL_TTL_SEC = 900;
+
+// Extra time after the URL expires to finish a slow upload and confirm it; the sweeper leaves
+// intents alone until this has passed too
+const UPLOAD_CONFIRM_GRACE_MS = 60 * 60 * 1000;
+
+const UPLOAD_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEFAULT_STORAGE_QUOTA_MB = 100;
+
+// Per-user storage allowance, set with STORAGE_QUOTA_MB
+export function storageQuotaBytes(): number {
+  const megabytes = Number(process.env.STORAGE_QUOTA_MB) || DEFAULT_STORAGE_QUOTA_MB;
+  return megabytes * 1024 * 1024;
+}
+
+export function canConfirmUpload(intent: UploadIntent, now = new Date()): boolean {
+  return intent.expiresAt.getTime() + UPLOAD_CONFIRM_GRACE_MS > now.getTime();
+}
+
+let isRunning = false;
+
+// Deletes objects whose upload was never confirmed, along with their intents
+export async function sweepAbandonedUploads(
+  objectStorage: ObjectStorageService,
+  now = new Date(),
+): Promise<number> {
+  if (isRunning) {
+    return 0;
+  }
+  isRunning = true;
+
+  let swept = 0;
+  try {
+    const abandoned = await storage.getExpiredUploadIntents(new Date(now.getTime() - UPLOAD_CONFIRM_GRACE_MS));
+    for (const intent of abandoned) {
+      try {
+        await objectStorage.deleteObjectEntity(intent.objectPath);
+        await storage.deleteUploadIntent(intent.id);
+        swept++;
+      } catch (error) {
+        console.error(`Error sweeping upload ${intent.objectPath}:`, error);
+      }
+    }
+  } finally {
+    isRunning = false;
+  }
+  return swept;
+}
+
+export function startUploadSweeper(objectStorage = new ObjectStorageService()) {
+  const tick = () => {
+    sweepAbandonedUploads(objectStorage)
+      .then((swept) => {
+        if (swept > 0) {
+          log(`deleted ${swept} abandoned upload(s)`, "uploads");
+        }
+      })
+      .catch((error) => console.error("Error running upload sweeper:", error));
+  };
+
+  tick();
+  const timer = setInterval(tick, UPLOAD_SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,84 @@
+import type { TextDiffPart, VisionPlanDiff, VisionPlanRevision } from "@shared/schema";
+
+// Above this many word pairs the texts are shown as replaced outright rather than diffed
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function diffVisionRevisions(from: VisionPlanRevision, to: VisionPlanRevision): VisionPlanDiff {
+  const fromValues = from.coreValues ?? [];
+  const toValues = to.coreValues ?? [];
+
+  return {
+    from,
+    to,
+    coreValues: {
+      added: toValues.filter(value => !fromValues.includes(value)),
+      removed: fromValues.filter(value => !toValues.includes(value)),
+      unchanged: toValues.filter(value => fromValues.includes(value)),
+    },
+    threeYearVision: diffText(from.threeYearVision ?? "", to.threeYearVision ?? ""),
+    whyEngine: diffText(from.whyEngine ?? "", to.whyEngine ?? ""),
+  };
+}
+
+// Word-level diff: the longest common run of words stays, everything else is added or removed.
+// Whitespace is kept as its own token so the parts join back into the original texts.
+export function diffText(before: string, after: string): TextDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeParts([
+      { type: "removed", text: before },
+      { type: "added", text: after },
+    ]);
+  }
+
+  // lengths[i * width + j] = longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push({ type: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      parts.push({ type: "removed", text: a[i] });
+      i++;
+    } else {
+      parts.push({ type: "added", text: b[j] });
+      j++;
+    }
+  }
+  return mergeParts(parts);
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function mergeParts(parts: TextDiffPart[]): TextDiffPart[] {
+  const merged: TextDiffPart[] = [];
+  for (const part of parts) {
+    if (!part.text) {
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,23 @@
+// Calendar dates are YYYY-MM-DD strings in the user's own time zone
+
+// Accepts any IANA time zone the runtime knows about
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar date an instant falls on in the given time zone, falling back to UTC for unknown zones
+export function dateInTimeZone(instant: Date, timeZone: string): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone: zone, year: "numeric", month: "2-digit", day: "2-digit" }).format(instant);
+}
+
+// The time zone the browser or server process is running in
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
@@ -0,0 +1,22 @@
+import type { PomodoroSession } from "./schema";
+
+// Timestamps arrive as strings once serialized to the client
+interface SessionClock {
+  startedAt: Date | string | null;
+  pausedAt: Date | string | null;
+  pausedSeconds: number;
+}
+
+// Seconds a session has actually run by `now`, excluding time spent paused
+export function pomodoroElapsedSeconds(session: SessionClock, now: Date = new Date()): number {
+  if (!session.startedAt) {
+    return 0;
+  }
+  const startedAt = new Date(session.startedAt).getTime();
+  const until = session.pausedAt ? new Date(session.pausedAt).getTime() : now.getTime();
+  return Math.max(0, Math.floor((until - startedAt) / 1000) - session.pausedSeconds);
+}
+
+export function isActivePomodoro(session: Pick<PomodoroSession, "status">): boolean {
+  return session.status === "running" || session.status === "paused";
+}
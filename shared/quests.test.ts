@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { formatQuestPeriod, isActiveQuest, nextQuarter, quarterOf, suggestedQuestOutcome } from "./quests";
+
+describe("suggestedQuestOutcome", () => {
+  it("counts a finished quest as achieved", () => {
+    expect(suggestedQuestOutcome(100)).toBe("achieved");
+    expect(suggestedQuestOutcome(120)).toBe("achieved");
+  });
+
+  it("counts any progress short of 100 as partial", () => {
+    expect(suggestedQuestOutcome(1)).toBe("partial");
+    expect(suggestedQuestOutcome(99)).toBe("partial");
+  });
+
+  it("counts a quest that never moved as abandoned", () => {
+    expect(suggestedQuestOutcome(0)).toBe("abandoned");
+  });
+});
+
+describe("isActiveQuest", () => {
+  it("is true only for quests that haven't been closed", () => {
+    expect(isActiveQuest({ status: "active" })).toBe(true);
+    expect(isActiveQuest({ status: "achieved" })).toBe(false);
+    expect(isActiveQuest({ status: "abandoned" })).toBe(false);
+  });
+});
+
+describe("quarterOf", () => {
+  it("returns the first and last day of the calendar quarter", () => {
+    expect(quarterOf("2024-02-29")).toEqual({ start: "2024-01-01", end: "2024-03-31" });
+    expect(quarterOf("2024-06-30")).toEqual({ start: "2024-04-01", end: "2024-06-30" });
+    expect(quarterOf("2024-10-01")).toEqual({ start: "2024-10-01", end: "2024-12-31" });
+  });
+});
+
+describe("nextQuarter", () => {
+  it("rolls over into the next year after Q4", () => {
+    expect(nextQuarter("2024-11-15")).toEqual({ start: "2025-01-01", end: "2025-03-31" });
+  });
+});
+
+describe("formatQuestPeriod", () => {
+  it("names a whole calendar quarter", () => {
+    expect(formatQuestPeriod("2024-07-01", "2024-09-30")).toBe("Q3 2024");
+  });
+
+  it("falls back to the dates for any other range", () => {
+    expect(formatQuestPeriod("2024-07-01", "2024-08-31")).toBe("2024-07-01 – 2024-08-31");
+    expect(formatQuestPeriod("2024-07-15", "2024-09-30")).toBe("2024-07-15 – 2024-09-30");
+  });
+});
@@ -0,0 +1,41 @@
+import type { QuarterlyQuest, QuestOutcome } from "./schema";
+
+// Quests run over YYYY-MM-DD date ranges, by default one calendar quarter
+
+// First and last day of the calendar quarter a YYYY-MM-DD date falls in
+export function quarterOf(date: string): { start: string; end: string } {
+  const year = parseInt(date.slice(0, 4));
+  const startMonth = Math.floor((parseInt(date.slice(5, 7)) - 1) / 3) * 3;
+  const start = new Date(Date.UTC(year, startMonth, 1));
+  const end = new Date(Date.UTC(year, startMonth + 3, 0));
+  return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+}
+
+// The calendar quarter after the one a YYYY-MM-DD date falls in
+export function nextQuarter(date: string): { start: string; end: string } {
+  const { end } = quarterOf(date);
+  const next = new Date(`${end}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return quarterOf(next.toISOString().slice(0, 10));
+}
+
+// "Q1 2024" for a whole calendar quarter, otherwise the dates themselves
+export function formatQuestPeriod(startDate: string, endDate: string): string {
+  const quarter = quarterOf(startDate);
+  if (quarter.start === startDate && quarter.end === endDate) {
+    return `Q${Math.floor((parseInt(startDate.slice(5, 7)) - 1) / 3) + 1} ${startDate.slice(0, 4)}`;
+  }
+  return `${startDate} – ${endDate}`;
+}
+
+// The outcome a quest's progress points to, offered as the default when it's closed
+export function suggestedQuestOutcome(progress: number): QuestOutcome {
+  if (progress >= 100) {
+    return "achieved";
+  }
+  return progress > 0 ? "partial" : "abandoned";
+}
+
+export function isActiveQuest(quest: Pick<QuarterlyQuest, "status">): boolean {
+  return quest.status === "active";
+}
@@ -9,10 +9,14 @@ import {
   integer,
   boolean,
   date,
+  real,
+  primaryKey,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { isValidTimeZone } from "./dates";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -25,6 +29,12 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Data migrations server/migrate.ts has applied, so each one runs once
+export const dataMigrations = pgTable("data_migrations", {
+  name: varchar("name").primaryKey(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
+
 // User storage table for Replit Auth
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -36,6 +46,14 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password logins for the local auth provider, kept out of users so hashes never reach the client
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Vision planning data
 export const visionPlans = pgTable("vision_plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -47,6 +65,38 @@ export const visionPlans = pgTable("vision_plans", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every saved version of a user's vision plan, numbered from 1 per user. Restoring an old
+// version saves it again as a new revision, so history is never rewritten.
+export const visionPlanRevisions = pgTable(
+  "vision_plan_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    revision: integer("revision").notNull(),
+    coreValues: text("core_values").array(),
+    threeYearVision: text("three_year_vision"),
+    whyEngine: text("why_engine"),
+    restoredFrom: integer("restored_from"), // Revision number this save restored, if any
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_vision_plan_revision").on(table.userId, table.revision)],
+);
+
+// Vision board cards
+export const visionCards = pgTable("vision_cards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: varchar("title").notNull(),
+  description: text("description").notNull(),
+  category: varchar("category").notNull(), // "career", "health", "relationships", "personal", "financial"
+  coreValues: text("core_values").array(), // Subset of the vision plan's core values
+  positionX: integer("position_x").notNull().default(0),
+  positionY: integer("position_y").notNull().default(0),
+  imageUrl: varchar("image_url"), // Object path from /api/vision-images
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Quarterly quests (90-day goals)
 export const quarterlyQuests = pgTable("quarterly_quests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -55,14 +105,101 @@ export const quarterlyQuests = pgTable("quarterly_quests", {
   goal: text("goal").notNull(),
   plan: text("plan").notNull(),
   systems: text("systems").notNull(),
-  quarter: varchar("quarter").notNull(), // e.g., "Q1 2024"
-  year: integer("year").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(), // Inclusive; usually the last day of a calendar quarter
   progress: integer("progress").default(0), // 0-100
-  isActive: boolean("is_active").default(true),
+  status: varchar("status").notNull().default("active"), // "active", or the outcome it was closed with
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Measurable key results for a quarterly quest
+export const questKeyResults = pgTable("quest_key_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  quarterlyQuestId: varchar("quarterly_quest_id").notNull().references(() => quarterlyQuests.id, { onDelete: "cascade" }),
+  title: varchar("title").notNull(),
+  targetValue: real("target_value").notNull(),
+  currentValue: real("current_value").notNull().default(0),
+  unit: varchar("unit"), // e.g., "$", "kg", "customers"
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Dated milestones for a quarterly quest
+export const questMilestones = pgTable("quest_milestones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  quarterlyQuestId: varchar("quarterly_quest_id").notNull().references(() => quarterlyQuests.id, { onDelete: "cascade" }),
+  title: varchar("title").notNull(),
+  dueDate: date("due_date").notNull(),
+  targetValue: real("target_value").notNull().default(1),
+  currentValue: real("current_value").notNull().default(0),
+  unit: varchar("unit"),
+  completedAt: timestamp("completed_at"), // Set once currentValue reaches targetValue
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Quest progress snapshots, one per change, to chart the 90-day trajectory
+export const questProgressHistory = pgTable(
+  "quest_progress_history",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    quarterlyQuestId: varchar("quarterly_quest_id").notNull().references(() => quarterlyQuests.id, { onDelete: "cascade" }),
+    progress: integer("progress").notNull(), // 0-100
+    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_quest_progress_history_quest").on(table.quarterlyQuestId)],
+);
+
+// Links between vision cards and the quarterly quests that serve them
+export const visionCardQuests = pgTable(
+  "vision_card_quests",
+  {
+    visionCardId: varchar("vision_card_id").notNull().references(() => visionCards.id, { onDelete: "cascade" }),
+    quarterlyQuestId: varchar("quarterly_quest_id").notNull().references(() => quarterlyQuests.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.visionCardId, table.quarterlyQuestId] })],
+);
+
+// Ownership and visibility of uploaded objects, keyed by their /objects/... path
+export const objectAcls = pgTable("object_acls", {
+  objectPath: varchar("object_path").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  visibility: varchar("visibility").notNull().default("private"), // "private" or "public"
+  variants: text("variants").array(), // Resized copies stored beside the original; null until processed
+  sizeBytes: integer("size_bytes"), // Original plus variants, counted against the owner's quota
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Expiring links to public objects; only a hash of the token is kept
+export const objectShareLinks = pgTable(
+  "object_share_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    objectPath: varchar("object_path").notNull().references(() => objectAcls.objectPath, { onDelete: "cascade" }),
+    tokenHash: varchar("token_hash").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_object_share_token").on(table.tokenHash)],
+);
+
+// Signed upload URLs handed out, kept until the upload is confirmed or swept away
+export const uploadIntents = pgTable("upload_intents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  objectPath: varchar("object_path").notNull().unique(),
+  contentType: varchar("content_type").notNull(),
+  maxBytes: integer("max_bytes").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  confirmedAt: timestamp("confirmed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Weekly plans
 export const weeklyPlans = pgTable("weekly_plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -76,11 +213,28 @@ export const weeklyPlans = pgTable("weekly_plans", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Recurring task templates, materialized into daily tasks per date
+export const recurringTasks = pgTable("recurring_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  impact: varchar("impact").notNull(), // "high", "medium", "low"
+  frequency: varchar("frequency").notNull(), // "daily", "weekdays", "weekly", "monthly"
+  daysOfWeek: integer("days_of_week").array(), // 0 (Sunday) - 6, for weekly rules
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  skippedDates: date("skipped_dates").array(), // Occurrences the user skipped
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Daily tasks
 export const dailyTasks = pgTable("daily_tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   weeklyPlanId: varchar("weekly_plan_id").references(() => weeklyPlans.id, { onDelete: "set null" }),
+  priorityIndex: integer("priority_index"), // Index into the weekly plan's priorities
   title: varchar("title").notNull(),
   description: text("description"),
   impact: varchar("impact").notNull(), // "high", "medium", "low"
@@ -88,19 +242,98 @@ export const dailyTasks = pgTable("daily_tasks", {
   completedAt: timestamp("completed_at"),
   date: date("date").notNull(),
   pomodoroCount: integer("pomodoro_count").default(0),
+  recurringTaskId: varchar("recurring_task_id").references(() => recurringTasks.id, { onDelete: "set null" }),
+  recurrenceDate: date("recurrence_date"), // Occurrence this task was materialized for
+  deferCount: integer("defer_count").notNull().default(0), // Times carried over to a later day
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_daily_task_occurrence").on(table.recurringTaskId, table.recurrenceDate),
+]);
 
-// Pomodoro sessions
-export const pomodoroSessions = pgTable("pomodoro_sessions", {
+// Habits, the recurring systems that support a quarterly quest
+export const habits = pgTable("habits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  taskId: varchar("task_id").references(() => dailyTasks.id, { onDelete: "set null" }),
-  duration: integer("duration").notNull(), // in seconds
-  type: varchar("type").notNull(), // "work", "break"
-  completedAt: timestamp("completed_at").notNull(),
+  quarterlyQuestId: varchar("quarterly_quest_id").references(() => quarterlyQuests.id, { onDelete: "set null" }),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  targetPerWeek: integer("target_per_week").notNull().default(7), // 1-7 check-ins
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Habit check-ins, at most one per habit per day
+export const habitCheckIns = pgTable(
+  "habit_check_ins",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    habitId: varchar("habit_id").notNull().references(() => habits.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    date: date("date").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_habit_check_in_day").on(table.habitId, table.date)],
+);
+
+// Pomodoro sessions, tracked from start on the server so they survive reloads
+export const pomodoroSessions = pgTable(
+  "pomodoro_sessions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    taskId: varchar("task_id").references(() => dailyTasks.id, { onDelete: "set null" }),
+    duration: integer("duration").notNull(), // in seconds, time actually spent
+    type: varchar("type").notNull(), // "work", "break", "long_break"
+    status: varchar("status").notNull().default("completed"), // "running", "paused", "completed", "partial"
+    plannedDuration: integer("planned_duration"), // in seconds
+    cycle: integer("cycle"), // Work session within the current set
+    startedAt: timestamp("started_at"),
+    pausedAt: timestamp("paused_at"), // Set while paused
+    pausedSeconds: integer("paused_seconds").notNull().default(0), // Total time spent paused
+    focusRating: integer("focus_rating"), // 1-5, rated when a work session ends
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_pomodoro_active_session")
+      .on(table.userId)
+      .where(sql`${table.status} in ('running', 'paused')`),
+  ],
+);
+
+// Interruptions logged during a work session
+export const pomodoroInterruptions = pgTable(
+  "pomodoro_interruptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id").notNull().references(() => pomodoroSessions.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    kind: varchar("kind").notNull(), // "internal", "external"
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_pomodoro_interruptions_session").on(table.sessionId)],
+);
+
+// Per-user preferences, one row per user
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  weekStartsOn: integer("week_starts_on").notNull().default(1), // 0 (Sunday) - 6
+  timeZone: varchar("time_zone").notNull().default("UTC"), // IANA name, e.g. "Europe/Berlin"
+  dateFormat: varchar("date_format").notNull().default("MMM d"), // date-fns pattern for short dates
+  defaultImpact: varchar("default_impact").notNull().default("medium"), // "high", "medium", "low"
+  theme: varchar("theme").notNull().default("light"), // "light", "dark", "system"
+  timerNotifications: boolean("timer_notifications").notNull().default(true), // Browser alert when a session ends
+  reminderNotifications: boolean("reminder_notifications").notNull().default(true), // Planning and reflection reminders
+  workMinutes: integer("work_minutes").notNull().default(25),
+  shortBreakMinutes: integer("short_break_minutes").notNull().default(5),
+  longBreakMinutes: integer("long_break_minutes").notNull().default(15),
+  cyclesBeforeLongBreak: integer("cycles_before_long_break").notNull().default(4),
+  autoStartBreaks: boolean("auto_start_breaks").notNull().default(false),
+  autoStartWork: boolean("auto_start_work").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Daily reflections
@@ -115,6 +348,58 @@ export const dailyReflections = pgTable("daily_reflections", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Yearly review: a snapshot of the year's quests, reflections and totals, what the user took
+// from it, and the Life Compass they carried into the next year. One per user and year.
+export const annualReviews = pgTable(
+  "annual_reviews",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    year: integer("year").notNull(),
+    summary: jsonb("summary").$type<AnnualReviewSummary>().notNull(), // As it stood when the review was saved
+    reflection: text("reflection"),
+    coreValues: text("core_values").array(),
+    threeYearVision: text("three_year_vision"),
+    whyEngine: text("why_engine"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_annual_review_year").on(table.userId, table.year)],
+);
+
+// Quarter-end review: how each quest that ended turned out, and what the user took from it.
+// outcomes is a snapshot, so it still reads correctly after quests are edited. One per user and quarter.
+export const quarterlyReviews = pgTable(
+  "quarterly_reviews",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    retrospective: text("retrospective"),
+    lessonsLearned: text("lessons_learned"),
+    outcomes: jsonb("outcomes").$type<QuarterlyReviewOutcome[]>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_quarterly_review_start").on(table.userId, table.startDate)],
+);
+
+// In-app notifications; dedupeKey keeps the scheduler from repeating a reminder
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    kind: varchar("kind").notNull(), // "weekly_plan_missing", "reflection_missing", "quest_at_risk"
+    title: varchar("title").notNull(),
+    message: text("message").notNull(),
+    link: varchar("link"), // App path to open when the notification is clicked
+    dedupeKey: varchar("dedupe_key").notNull(),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_notification_dedupe").on(table.userId, table.dedupeKey)],
+);
+
 // Error logs for troubleshooting
 export const errorLogs = pgTable("error_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -127,16 +412,32 @@ export const errorLogs = pgTable("error_logs", {
 });
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  credentials: one(userCredentials),
   visionPlans: many(visionPlans),
+  visionPlanRevisions: many(visionPlanRevisions),
+  visionCards: many(visionCards),
   quarterlyQuests: many(quarterlyQuests),
   weeklyPlans: many(weeklyPlans),
   dailyTasks: many(dailyTasks),
+  recurringTasks: many(recurringTasks),
+  habits: many(habits),
   pomodoroSessions: many(pomodoroSessions),
   dailyReflections: many(dailyReflections),
+  annualReviews: many(annualReviews),
+  notifications: many(notifications),
+  objectAcls: many(objectAcls),
+  uploadIntents: many(uploadIntents),
   errorLogs: many(errorLogs),
 }));
 
+export const userCredentialsRelations = relations(userCredentials, ({ one }) => ({
+  user: one(users, {
+    fields: [userCredentials.userId],
+    references: [users.id],
+  }),
+}));
+
 export const visionPlansRelations = relations(visionPlans, ({ one }) => ({
   user: one(users, {
     fields: [visionPlans.userId],
@@ -144,12 +445,64 @@ export const visionPlansRelations = relations(visionPlans, ({ one }) => ({
   }),
 }));
 
+export const visionPlanRevisionsRelations = relations(visionPlanRevisions, ({ one }) => ({
+  user: one(users, {
+    fields: [visionPlanRevisions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const visionCardsRelations = relations(visionCards, ({ one, many }) => ({
+  user: one(users, {
+    fields: [visionCards.userId],
+    references: [users.id],
+  }),
+  quests: many(visionCardQuests),
+}));
+
+export const visionCardQuestsRelations = relations(visionCardQuests, ({ one }) => ({
+  visionCard: one(visionCards, {
+    fields: [visionCardQuests.visionCardId],
+    references: [visionCards.id],
+  }),
+  quarterlyQuest: one(quarterlyQuests, {
+    fields: [visionCardQuests.quarterlyQuestId],
+    references: [quarterlyQuests.id],
+  }),
+}));
+
 export const quarterlyQuestsRelations = relations(quarterlyQuests, ({ one, many }) => ({
   user: one(users, {
     fields: [quarterlyQuests.userId],
     references: [users.id],
   }),
   weeklyPlans: many(weeklyPlans),
+  visionCards: many(visionCardQuests),
+  keyResults: many(questKeyResults),
+  milestones: many(questMilestones),
+  progressHistory: many(questProgressHistory),
+  habits: many(habits),
+}));
+
+export const questKeyResultsRelations = relations(questKeyResults, ({ one }) => ({
+  quarterlyQuest: one(quarterlyQuests, {
+    fields: [questKeyResults.quarterlyQuestId],
+    references: [quarterlyQuests.id],
+  }),
+}));
+
+export const questMilestonesRelations = relations(questMilestones, ({ one }) => ({
+  quarterlyQuest: one(quarterlyQuests, {
+    fields: [questMilestones.quarterlyQuestId],
+    references: [quarterlyQuests.id],
+  }),
+}));
+
+export const questProgressHistoryRelations = relations(questProgressHistory, ({ one }) => ({
+  quarterlyQuest: one(quarterlyQuests, {
+    fields: [questProgressHistory.quarterlyQuestId],
+    references: [quarterlyQuests.id],
+  }),
 }));
 
 export const weeklyPlansRelations = relations(weeklyPlans, ({ one, many }) => ({
@@ -164,11 +517,23 @@ export const weeklyPlansRelations = relations(weeklyPlans, ({ one, many }) => ({
   dailyTasks: many(dailyTasks),
 }));
 
+export const recurringTasksRelations = relations(recurringTasks, ({ one, many }) => ({
+  user: one(users, {
+    fields: [recurringTasks.userId],
+    references: [users.id],
+  }),
+  dailyTasks: many(dailyTasks),
+}));
+
 export const dailyTasksRelations = relations(dailyTasks, ({ one, many }) => ({
   user: one(users, {
     fields: [dailyTasks.userId],
     references: [users.id],
   }),
+  recurringTask: one(recurringTasks, {
+    fields: [dailyTasks.recurringTaskId],
+    references: [recurringTasks.id],
+  }),
   weeklyPlan: one(weeklyPlans, {
     fields: [dailyTasks.weeklyPlanId],
     references: [weeklyPlans.id],
@@ -176,7 +541,26 @@ export const dailyTasksRelations = relations(dailyTasks, ({ one, many }) => ({
   pomodoroSessions: many(pomodoroSessions),
 }));
 
-export const pomodoroSessionsRelations = relations(pomodoroSessions, ({ one }) => ({
+export const habitsRelations = relations(habits, ({ one, many }) => ({
+  user: one(users, {
+    fields: [habits.userId],
+    references: [users.id],
+  }),
+  quarterlyQuest: one(quarterlyQuests, {
+    fields: [habits.quarterlyQuestId],
+    references: [quarterlyQuests.id],
+  }),
+  checkIns: many(habitCheckIns),
+}));
+
+export const habitCheckInsRelations = relations(habitCheckIns, ({ one }) => ({
+  habit: one(habits, {
+    fields: [habitCheckIns.habitId],
+    references: [habits.id],
+  }),
+}));
+
+export const pomodoroSessionsRelations = relations(pomodoroSessions, ({ one, many }) => ({
   user: one(users, {
     fields: [pomodoroSessions.userId],
     references: [users.id],
@@ -185,6 +569,21 @@ export const pomodoroSessionsRelations = relations(pomodoroSessions, ({ one }) =
     fields: [pomodoroSessions.taskId],
     references: [dailyTasks.id],
   }),
+  interruptions: many(pomodoroInterruptions),
+}));
+
+export const pomodoroInterruptionsRelations = relations(pomodoroInterruptions, ({ one }) => ({
+  session: one(pomodoroSessions, {
+    fields: [pomodoroInterruptions.sessionId],
+    references: [pomodoroSessions.id],
+  }),
+}));
+
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(users, {
+    fields: [userSettings.userId],
+    references: [users.id],
+  }),
 }));
 
 export const dailyReflectionsRelations = relations(dailyReflections, ({ one }) => ({
@@ -194,6 +593,49 @@ export const dailyReflectionsRelations = relations(dailyReflections, ({ one }) =
   }),
 }));
 
+export const objectAclsRelations = relations(objectAcls, ({ one, many }) => ({
+  user: one(users, {
+    fields: [objectAcls.userId],
+    references: [users.id],
+  }),
+  shareLinks: many(objectShareLinks),
+}));
+
+export const objectShareLinksRelations = relations(objectShareLinks, ({ one }) => ({
+  acl: one(objectAcls, {
+    fields: [objectShareLinks.objectPath],
+    references: [objectAcls.objectPath],
+  }),
+}));
+
+export const uploadIntentsRelations = relations(uploadIntents, ({ one }) => ({
+  user: one(users, {
+    fields: [uploadIntents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const quarterlyReviewsRelations = relations(quarterlyReviews, ({ one }) => ({
+  user: one(users, {
+    fields: [quarterlyReviews.userId],
+    references: [users.id],
+  }),
+}));
+
+export const annualReviewsRelations = relations(annualReviews, ({ one }) => ({
+  user: one(users, {
+    fields: [annualReviews.userId],
+    references: [users.id],
+  }),
+}));
+
 export const errorLogsRelations = relations(errorLogs, ({ one }) => ({
   user: one(users, {
     fields: [errorLogs.userId],
@@ -208,10 +650,49 @@ export const insertVisionPlanSchema = createInsertSchema(visionPlans).omit({
   updatedAt: true,
 });
 
-export const insertQuarterlyQuestSchema = createInsertSchema(quarterlyQuests).omit({
+// Calendar dates travel as YYYY-MM-DD strings naming a real day
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Not a calendar date");
+
+export const visionCategories = ["career", "health", "relationships", "personal", "financial"] as const;
+
+export const insertVisionCardSchema = createInsertSchema(visionCards, {
+  category: z.enum(visionCategories),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const questOutcomes = ["achieved", "partial", "abandoned"] as const;
+export const questStatuses = ["active", ...questOutcomes] as const;
+
+export const insertQuarterlyQuestSchema = createInsertSchema(quarterlyQuests, {
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  status: z.enum(questStatuses),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuestKeyResultSchema = createInsertSchema(questKeyResults).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuestMilestoneSchema = createInsertSchema(questMilestones).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  completedAt: true,
 });
 
 export const insertWeeklyPlanSchema = createInsertSchema(weeklyPlans).omit({
@@ -227,9 +708,75 @@ export const insertDailyTaskSchema = createInsertSchema(dailyTasks).omit({
   completedAt: true,
 });
 
-export const insertPomodoroSessionSchema = createInsertSchema(pomodoroSessions).omit({
+export const insertRecurringTaskSchema = createInsertSchema(recurringTasks, {
+  frequency: z.enum(["daily", "weekdays", "weekly", "monthly"]),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+  skippedDates: true,
+});
+
+export const taskRolloverSchema = z.object({
+  date: isoDateSchema, // The day tasks are moved to
+  actions: z.array(z.object({
+    taskId: z.string(),
+    action: z.enum(["move", "reschedule", "drop"]),
+    date: isoDateSchema.optional(), // Target date when rescheduling
+  }).refine(action => action.action !== "reschedule" || !!action.date, {
+    message: "A rescheduled task needs a date",
+    path: ["date"],
+  })),
+});
+
+export const insertHabitSchema = createInsertSchema(habits, {
+  targetPerWeek: z.number().int().min(1).max(7),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Sessions logged after the fact are finished; running and paused ones come from /api/pomodoro-sessions/start
+export const insertPomodoroSessionSchema = createInsertSchema(pomodoroSessions, {
+  type: z.enum(["work", "break", "long_break"]),
+  status: z.enum(["completed", "partial"]).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const pomodoroStartSchema = z.object({
+  taskId: z.string().nullable().optional(),
+  type: z.enum(["work", "break", "long_break"]),
+  plannedDuration: z.number().int().min(1),
+  cycle: z.number().int().min(1).optional(),
+});
+
+export const insertPomodoroInterruptionSchema = createInsertSchema(pomodoroInterruptions, {
+  kind: z.enum(["internal", "external"]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const pomodoroRatingSchema = z.object({
+  focusRating: z.number().int().min(1).max(5),
+});
+
+export const insertUserSettingsSchema = createInsertSchema(userSettings, {
+  weekStartsOn: z.number().int().min(0).max(6),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  dateFormat: z.enum(["MMM d", "d MMM", "M/d", "d/M", "d.M."]),
+  defaultImpact: z.enum(["high", "medium", "low"]),
+  theme: z.enum(["light", "dark", "system"]),
+  workMinutes: z.number().int().min(1).max(180),
+  shortBreakMinutes: z.number().int().min(1).max(60),
+  longBreakMinutes: z.number().int().min(1).max(120),
+  cyclesBeforeLongBreak: z.number().int().min(1).max(12),
+}).omit({
+  updatedAt: true,
 });
 
 export const insertDailyReflectionSchema = createInsertSchema(dailyReflections).omit({
@@ -238,6 +785,12 @@ export const insertDailyReflectionSchema = createInsertSchema(dailyReflections).
   updatedAt: true,
 });
 
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
 export const insertErrorLogSchema = createInsertSchema(errorLogs).omit({
   id: true,
   createdAt: true,
@@ -249,21 +802,232 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const objectVisibilities = ["private", "public"] as const;
+
+// Sizes an uploaded image is served in; /objects/... URLs pick one with ?variant=
+export const imageVariants = ["thumb", "display", "original"] as const;
+
+export const objectVisibilitySchema = z.object({
+  objectPath: z.string().startsWith("/objects/"),
+  visibility: z.enum(objectVisibilities),
+});
+
+export const uploadImageTypes = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"] as const;
+
+export const uploadRequestSchema = z.object({
+  contentType: z.enum(uploadImageTypes),
+  size: z.number().int().positive(),
+});
+
+export const objectShareLinkSchema = z.object({
+  objectPath: z.string().startsWith("/objects/"),
+  expiresInHours: z.number().int().min(1).max(24 * 30),
+});
+
+// Local auth provider
+export const authProviderNames = ["replit", "oidc", "local", "dev"] as const;
+
+export const localLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const localRegistrationSchema = localLoginSchema.extend({
+  password: z.string().min(8, "Use at least 8 characters").max(200, "Use at most 200 characters"),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+// The Life Compass carried out of an annual review follows the same rules as the Life Compass page
+export const annualReviewSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  reflection: z.string().trim().max(10000).optional(),
+  coreValues: z.array(z.string().trim().min(1)).min(3, "At least 3 core values are required"),
+  threeYearVision: z.string().min(50, "Vision must be at least 50 characters"),
+  whyEngine: z.string().min(30, "Purpose must be at least 30 characters"),
+});
+
+// Closing a quarter gives every quest that ended in it an outcome; unfinished ones may carry over
+export const quarterlyReviewSchema = z.object({
+  startDate: isoDateSchema, // First day of the calendar quarter
+  retrospective: z.string().trim().max(10000).optional(),
+  lessonsLearned: z.string().trim().max(10000).optional(),
+  outcomes: z.array(z.object({
+    questId: z.string(),
+    status: z.enum(questOutcomes),
+    carryOver: z.boolean().default(false), // Ignored for achieved quests
+  })).min(1, "There are no quests to review"),
+});
+
+// Account deletion must be confirmed by typing the word, so a stray request can't erase an account
+export const accountDeletionSchema = z.object({
+  confirmation: z.literal("DELETE"),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type VisionPlan = typeof visionPlans.$inferSelect;
 export type InsertVisionPlan = z.infer<typeof insertVisionPlanSchema>;
+export type VisionPlanRevision = typeof visionPlanRevisions.$inferSelect;
+export type TextDiffPart = { type: "added" | "removed" | "unchanged"; text: string };
+// Changes between two revisions of the vision plan, oldest first
+export type VisionPlanDiff = {
+  from: VisionPlanRevision;
+  to: VisionPlanRevision;
+  coreValues: { added: string[]; removed: string[]; unchanged: string[] };
+  threeYearVision: TextDiffPart[];
+  whyEngine: TextDiffPart[];
+};
+export type VisionCard = typeof visionCards.$inferSelect;
+export type InsertVisionCard = z.infer<typeof insertVisionCardSchema>;
+export type VisionCardWithQuests = VisionCard & { questIds: string[] };
 export type QuarterlyQuest = typeof quarterlyQuests.$inferSelect;
 export type InsertQuarterlyQuest = z.infer<typeof insertQuarterlyQuestSchema>;
+export type QuestKeyResult = typeof questKeyResults.$inferSelect;
+export type InsertQuestKeyResult = z.infer<typeof insertQuestKeyResultSchema>;
+export type QuestMilestone = typeof questMilestones.$inferSelect;
+export type InsertQuestMilestone = z.infer<typeof insertQuestMilestoneSchema>;
+export type QuestProgressSnapshot = typeof questProgressHistory.$inferSelect;
 export type WeeklyPlan = typeof weeklyPlans.$inferSelect;
+export type WeeklyPriority = { title: string; description?: string; isCompleted?: boolean };
 export type InsertWeeklyPlan = z.infer<typeof insertWeeklyPlanSchema>;
 export type DailyTask = typeof dailyTasks.$inferSelect;
 export type InsertDailyTask = z.infer<typeof insertDailyTaskSchema>;
+export type TaskRollover = z.infer<typeof taskRolloverSchema>;
+export type RecurringTask = typeof recurringTasks.$inferSelect;
+export type InsertRecurringTask = z.infer<typeof insertRecurringTaskSchema>;
+export type Habit = typeof habits.$inferSelect;
+export type InsertHabit = z.infer<typeof insertHabitSchema>;
+export type HabitCheckIn = typeof habitCheckIns.$inferSelect;
+export type HabitWithCheckIns = Habit & { checkIns: string[]; streak: number };
 export type PomodoroSession = typeof pomodoroSessions.$inferSelect;
 export type InsertPomodoroSession = z.infer<typeof insertPomodoroSessionSchema>;
+export type PomodoroInterruption = typeof pomodoroInterruptions.$inferSelect;
+export type InsertPomodoroInterruption = z.infer<typeof insertPomodoroInterruptionSchema>;
+export type FocusQuality = {
+  sessions: number; // Finished work sessions, completed or partial
+  interruptions: number;
+  interruptionRate: number; // Interruptions per session
+  averageFocus: number | null; // Mean 1-5 rating of rated sessions
+};
+export type PomodoroStats = FocusQuality & {
+  totalFocusTime: number; // in seconds
+  completedPomodoros: number;
+  averageSessionLength: number;
+  byTask: (FocusQuality & { taskId: string; title: string })[];
+};
+export type FocusTimeAnalytics = {
+  daily: { date: string; focusSeconds: number; sessions: number }[];
+  weekly: { weekStart: string; focusSeconds: number; sessions: number }[];
+};
+export type CompletionByImpact = { impact: string; total: number; completed: number; rate: number };
+export type EnergyTrendPoint = { date: string; energyLevel: number | null };
+export type QuestProgressTimeline = {
+  questId: string;
+  title: string;
+  points: { date: string; progress: number }[];
+};
+export type PomodoroStart = z.infer<typeof pomodoroStartSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationFeed = { notifications: Notification[]; unreadCount: number };
 export type DailyReflection = typeof dailyReflections.$inferSelect;
 export type InsertDailyReflection = z.infer<typeof insertDailyReflectionSchema>;
+export type QuestStatus = typeof questStatuses[number];
+export type QuestOutcome = typeof questOutcomes[number];
+export type QuarterlyReview = typeof quarterlyReviews.$inferSelect;
+export type InsertQuarterlyReview = typeof quarterlyReviews.$inferInsert;
+export type QuarterlyReviewInput = z.infer<typeof quarterlyReviewSchema>;
+// A quest as it was closed; carriedOverTo is the quest that continues it next quarter
+export type QuarterlyReviewOutcome = {
+  questId: string;
+  title: string;
+  progress: number;
+  status: QuestOutcome;
+  carriedOverTo: string | null;
+};
+export type AnnualReview = typeof annualReviews.$inferSelect;
+export type InsertAnnualReview = typeof annualReviews.$inferInsert;
+export type AnnualReviewInput = z.infer<typeof annualReviewSchema>;
+// Everything an annual review looks back on, gathered for one calendar year
+export type AnnualReviewSummary = {
+  year: number;
+  quests: {
+    id: string;
+    title: string;
+    quarter: string; // Period label, e.g. "Q1 2024"
+    endDate: string;
+    progress: number;
+    status: QuestStatus;
+    keyResults: { title: string; currentValue: number; targetValue: number; unit: string | null }[];
+  }[];
+  reflectionHighlights: { date: string; reflection: string; energyLevel: number | null }[];
+  totals: {
+    questsCompleted: number;
+    focusSeconds: number;
+    pomodoros: number;
+    tasksCompleted: number;
+    tasksTotal: number;
+    completionRate: number; // 0-100
+    reflections: number;
+    averageEnergy: number | null; // Mean 1-5 energy level
+  };
+};
+// Everything stored for one user, as bundled by /api/export
+export type UserExport = {
+  version: number;
+  exportedAt: string;
+  user: User;
+  settings: UserSettings;
+  visionPlan: VisionPlan | null;
+  visionPlanRevisions: VisionPlanRevision[];
+  visionCards: VisionCardWithQuests[];
+  quarterlyQuests: QuarterlyQuest[];
+  questKeyResults: QuestKeyResult[];
+  questMilestones: QuestMilestone[];
+  questProgressHistory: QuestProgressSnapshot[];
+  weeklyPlans: WeeklyPlan[];
+  dailyTasks: DailyTask[];
+  recurringTasks: RecurringTask[];
+  habits: Habit[];
+  habitCheckIns: HabitCheckIn[];
+  pomodoroSessions: PomodoroSession[];
+  pomodoroInterruptions: PomodoroInterruption[];
+  dailyReflections: DailyReflection[];
+  quarterlyReviews: QuarterlyReview[];
+  annualReviews: AnnualReview[];
+};
+// Outcome of /api/import; with dryRun nothing is written and the counts are what would happen
+export type ImportReport = {
+  source: "inmotion" | "csv";
+  dryRun: boolean;
+  created: Record<string, number>;
+  skipped: Record<string, number>;
+  conflicts: string[];
+};
+export type ObjectAcl = typeof objectAcls.$inferSelect;
+export type ObjectVisibility = typeof objectVisibilities[number];
+export type ImageVariant = typeof imageVariants[number];
+export type ObjectShareLink = typeof objectShareLinks.$inferSelect;
+// What an owner sees about an object's sharing; link tokens are only shown once, when created
+export type ObjectSharing = {
+  objectPath: string;
+  visibility: ObjectVisibility;
+  shareLinks: Pick<ObjectShareLink, "id" | "expiresAt" | "createdAt">[];
+};
+export type UploadIntent = typeof uploadIntents.$inferSelect;
+export type InsertUploadIntent = typeof uploadIntents.$inferInsert;
+export type UploadRequest = z.infer<typeof uploadRequestSchema>;
+export type StorageUsage = { usedBytes: number; quotaBytes: number };
+export type CreatedShareLink = { id: string; url: string; expiresAt: string };
+export type AuthProviderName = typeof authProviderNames[number];
+// What the login page needs to know about the server's auth setup
+export type AuthConfig = { provider: AuthProviderName; registration: boolean };
+export type LocalLogin = z.infer<typeof localLoginSchema>;
+export type LocalRegistration = z.infer<typeof localRegistrationSchema>;
 export type ErrorLog = typeof errorLogs.$inferSelect;
 export type InsertErrorLog = z.infer<typeof insertErrorLogSchema>;